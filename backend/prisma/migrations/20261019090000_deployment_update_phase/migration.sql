@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "DeploymentUpdatePhase" AS ENUM ('STARTING_NEW', 'HEALTH_CHECK', 'CUTOVER', 'CLEANUP', 'DONE');
+
+-- AlterTable
+ALTER TABLE "deployment_updates" ADD COLUMN     "phase" "DeploymentUpdatePhase";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "deployments" ADD COLUMN     "build_config" JSONB;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "notify_deployment_recovered" BOOLEAN NOT NULL DEFAULT true;
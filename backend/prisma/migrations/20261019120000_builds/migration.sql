@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "BuildStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "builds" (
+    "id" TEXT NOT NULL,
+    "deployment_id" TEXT NOT NULL,
+    "status" "BuildStatus" NOT NULL DEFAULT 'RUNNING',
+    "git_url" TEXT NOT NULL,
+    "git_branch" TEXT NOT NULL,
+    "commit_sha" TEXT,
+    "image" TEXT NOT NULL,
+    "logs" TEXT NOT NULL DEFAULT '',
+    "steps" JSONB,
+    "error_message" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "builds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "builds_deployment_id_idx" ON "builds"("deployment_id");
+
+-- CreateIndex
+CREATE INDEX "builds_status_idx" ON "builds"("status");
+
+-- AddForeignKey
+ALTER TABLE "builds" ADD CONSTRAINT "builds_deployment_id_fkey" FOREIGN KEY ("deployment_id") REFERENCES "deployments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
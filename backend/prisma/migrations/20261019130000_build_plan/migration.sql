@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "deployments" ADD COLUMN     "build_plan" JSONB;
+
+-- AlterTable
+ALTER TABLE "builds" ADD COLUMN     "build_plan" JSONB;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "deployments" ADD COLUMN     "rebuild_pending" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "webhook_secret" TEXT;
+
+-- AlterTable
+ALTER TABLE "deployment_versions" ADD COLUMN     "git_commit_sha" TEXT;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "deployments" ADD COLUMN     "git_poll_failures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "git_poll_interval" INTEGER,
+ADD COLUMN     "next_git_poll_at" TIMESTAMP(3);
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "GitCredentialType" AS ENUM ('HTTPS_TOKEN', 'SSH_KEY');
+
+-- AlterTable
+ALTER TABLE "deployments" ADD COLUMN     "git_credential_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "git_credentials" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "GitCredentialType" NOT NULL,
+    "username" TEXT,
+    "encrypted_secret" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "git_credentials_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "git_credentials_user_id_name_key" ON "git_credentials"("user_id", "name");
+
+-- AddForeignKey
+ALTER TABLE "deployments" ADD CONSTRAINT "deployments_git_credential_id_fkey" FOREIGN KEY ("git_credential_id") REFERENCES "git_credentials"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "git_credentials" ADD CONSTRAINT "git_credentials_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterEnum
+ALTER TYPE "ApiKeyScope" ADD VALUE 'REGISTRIES_READ';
+ALTER TYPE "ApiKeyScope" ADD VALUE 'REGISTRIES_WRITE';
+
+-- CreateTable
+CREATE TABLE "registry_credentials" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "registry" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "encrypted_password" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "registry_credentials_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "registry_credentials_user_id_registry_key" ON "registry_credentials"("user_id", "registry");
+
+-- AddForeignKey
+ALTER TABLE "registry_credentials" ADD CONSTRAINT "registry_credentials_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
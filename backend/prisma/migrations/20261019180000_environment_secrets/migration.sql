@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "deployments" ADD COLUMN     "secrets" JSONB;
+
+-- AlterTable
+ALTER TABLE "deployment_versions" ADD COLUMN     "secrets" JSONB;
+
+-- CreateTable
+CREATE TABLE "environment_secrets" (
+    "id" TEXT NOT NULL,
+    "environment_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "encrypted_value" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "docker_secret_id" TEXT,
+    "docker_secret_name" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "environment_secrets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "environment_secrets_environment_id_name_key" ON "environment_secrets"("environment_id", "name");
+
+-- AddForeignKey
+ALTER TABLE "environment_secrets" ADD CONSTRAINT "environment_secrets_environment_id_fkey" FOREIGN KEY ("environment_id") REFERENCES "environments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ApiKeyScope" ADD VALUE 'DEPLOYMENTS_REVEAL';
+
+-- AlterTable
+ALTER TABLE "deployments" ADD COLUMN     "sensitive_env_keys" JSONB;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "deployments" ADD COLUMN     "resources" JSONB;
+
+-- AlterTable
+ALTER TABLE "deployment_versions" ADD COLUMN     "resources" JSONB;
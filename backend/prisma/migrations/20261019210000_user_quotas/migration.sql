@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "user_quotas" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "max_environments" INTEGER,
+    "max_deployments" INTEGER,
+    "max_deployments_per_environment" INTEGER,
+    "max_replicas" INTEGER,
+    "max_cpu" DOUBLE PRECISION,
+    "max_memory" INTEGER,
+    "max_volumes" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_quotas_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_quotas_user_id_key" ON "user_quotas"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "user_quotas" ADD CONSTRAINT "user_quotas_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "deployments" ADD COLUMN     "health_check" JSONB;
+
+-- AlterTable
+ALTER TABLE "deployment_versions" ADD COLUMN     "health_check" JSONB;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "deployment_updates" ADD COLUMN     "reason" TEXT;
+
+-- CreateTable
+CREATE TABLE "autoscaling_policies" (
+    "id" TEXT NOT NULL,
+    "deployment_id" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "min_replicas" INTEGER NOT NULL,
+    "max_replicas" INTEGER NOT NULL,
+    "target_cpu_percent" INTEGER,
+    "target_memory_percent" INTEGER,
+    "scale_up_cooldown_seconds" INTEGER NOT NULL DEFAULT 60,
+    "scale_down_cooldown_seconds" INTEGER NOT NULL DEFAULT 300,
+    "last_scaled_at" TIMESTAMP(3),
+    "last_evaluated_at" TIMESTAMP(3),
+    "last_metrics" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "autoscaling_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "autoscaling_policies_deployment_id_key" ON "autoscaling_policies"("deployment_id");
+
+-- AddForeignKey
+ALTER TABLE "autoscaling_policies" ADD CONSTRAINT "autoscaling_policies_deployment_id_fkey" FOREIGN KEY ("deployment_id") REFERENCES "deployments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
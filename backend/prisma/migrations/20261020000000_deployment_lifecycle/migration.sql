@@ -0,0 +1,4 @@
+-- AlterEnum
+ALTER TYPE "DeploymentStatus" ADD VALUE 'STOPPING';
+ALTER TYPE "DeploymentStatus" ADD VALUE 'STARTING';
+ALTER TYPE "DeploymentStatus" ADD VALUE 'RESTARTING';
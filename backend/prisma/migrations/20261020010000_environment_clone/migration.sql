@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "deployments" ADD COLUMN     "pending_volume_copies" JSONB;
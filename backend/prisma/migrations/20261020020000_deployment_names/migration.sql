@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "deployments" ADD COLUMN     "name" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "deployments_environment_id_name_key" ON "deployments"("environment_id", "name");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "environment_secrets" ADD COLUMN     "previous_docker_secret_names" JSONB;
@@ -1,22 +1,35 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ThrottlerModule } from '@nestjs/throttler';
 import { LoggerModule } from 'nestjs-pino';
 import { EventEmitterModule } from '@nestjs/event-emitter';
+import { ScheduleModule } from '@nestjs/schedule';
+import { BullModule } from '@nestjs/bullmq';
 
 // Config
 import appConfig from './config/app.config';
 import databaseConfig from './config/database.config';
 import dockerConfig from './config/docker.config';
 import redisConfig from './config/redis.config';
+import queueConfig from './config/queue.config';
+import reconciliationConfig from './config/reconciliation.config';
+import gitPollingConfig from './config/git-polling.config';
+import autoscalingConfig from './config/autoscaling.config';
+import redactionConfig from './config/redaction.config';
+import resourcesConfig from './config/resources.config';
+import quotaConfig from './config/quota.config';
 import telegramConfig from './config/telegram.config';
 import sslConfig from './config/ssl.config';
 import { validationSchema } from './config/validation.schema';
 
 // Core modules
 import { DatabaseModule } from './core/database/database.module';
+import { EncryptionModule } from './core/encryption/encryption.module';
 import { HealthModule } from './core/health/health.module';
 import { StartupModule } from './core/startup/startup.module';
+import { ReconciliationModule } from './core/reconciliation/reconciliation.module';
+import { GitPollingModule } from './core/git-polling/git-polling.module';
+import { AutoscalerModule } from './core/autoscaler/autoscaler.module';
 
 // Integration modules
 import { DockerModule } from './integrations/docker/docker.module';
@@ -26,14 +39,33 @@ import { TelegramModule } from './integrations/telegram/telegram.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { EnvironmentsModule } from './modules/environments/environments.module';
 import { DeploymentsModule } from './modules/deployments/deployments.module';
+import { BuildsModule } from './modules/builds/builds.module';
+import { WebhooksModule } from './modules/webhooks/webhooks.module';
+import { GitCredentialsModule } from './modules/git-credentials/git-credentials.module';
+import { RegistryCredentialsModule } from './modules/registry-credentials/registry-credentials.module';
+import { EnvironmentSecretsModule } from './modules/environment-secrets/environment-secrets.module';
+import { QuotasModule } from './modules/quotas/quotas.module';
+import { AutoscalingModule } from './modules/autoscaling/autoscaling.module';
+import { ManifestsModule } from './modules/manifests/manifests.module';
+import { ComposeModule } from './modules/compose/compose.module';
 
 // Common modules
 import { EventsModule } from './common/events/events.module';
+import {
+  DEFAULT_SENSITIVE_ENV_PATTERNS,
+  compileEnvPatterns,
+  redactText,
+} from './common/utils/redaction';
 
 // App controller and service
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 
+// Compiled once for the pino log hook, which runs outside DI
+const sensitiveEnvPatterns = compileEnvPatterns(
+  process.env.SENSITIVE_ENV_PATTERNS || DEFAULT_SENSITIVE_ENV_PATTERNS,
+);
+
 @Module({
   imports: [
     // Configuration
@@ -44,6 +76,13 @@ import { AppService } from './app.service';
         databaseConfig,
         dockerConfig,
         redisConfig,
+        queueConfig,
+        reconciliationConfig,
+        gitPollingConfig,
+        autoscalingConfig,
+        redactionConfig,
+        resourcesConfig,
+        quotaConfig,
         telegramConfig,
         sslConfig,
       ],
@@ -69,6 +108,17 @@ import { AppService } from './app.service';
               }
             : undefined,
         level: process.env.LOG_LEVEL || 'info',
+        hooks: {
+          // Mask sensitive env values echoed in messages, e.g. by Docker errors
+          logMethod(args, method) {
+            const redacted = args.map((arg: unknown) =>
+              typeof arg === 'string'
+                ? redactText(arg, sensitiveEnvPatterns)
+                : arg,
+            ) as typeof args;
+            return method.apply(this, redacted);
+          },
+        },
       },
     }),
 
@@ -88,10 +138,29 @@ import { AppService } from './app.service';
       verboseMemoryLeak: true,
     }),
 
+    // Scheduled tasks
+    ScheduleModule.forRoot(),
+
+    // Job queue
+    BullModule.forRootAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        connection: {
+          host: configService.get<string>('redis.host'),
+          port: configService.get<number>('redis.port'),
+          password: configService.get<string>('redis.password'),
+        },
+      }),
+    }),
+
     // Core modules
     DatabaseModule,
+    EncryptionModule,
     HealthModule,
     StartupModule,
+    ReconciliationModule,
+    GitPollingModule,
+    AutoscalerModule,
 
     // Integration modules
     DockerModule,
@@ -101,6 +170,15 @@ import { AppService } from './app.service';
     AuthModule,
     EnvironmentsModule,
     DeploymentsModule,
+    BuildsModule,
+    WebhooksModule,
+    GitCredentialsModule,
+    RegistryCredentialsModule,
+    EnvironmentSecretsModule,
+    QuotasModule,
+    AutoscalingModule,
+    ManifestsModule,
+    ComposeModule,
 
     // Common modules
     EventsModule,
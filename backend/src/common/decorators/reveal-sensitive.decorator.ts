@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+
+// Skips the masking of sensitive env vars in the handler's response
+export const REVEAL_SENSITIVE_KEY = 'revealSensitive';
+export const RevealSensitive = () => SetMetadata(REVEAL_SENSITIVE_KEY, true);
@@ -1,3 +1,5 @@
+import type { HealthStatus } from '@prisma/client';
+
 // Base event class
 export abstract class NotificationEvent {
   constructor(
@@ -117,3 +119,59 @@ export class DeploymentStoppedEvent extends NotificationEvent {
     super(userId);
   }
 }
+
+export class DeploymentResumedEvent extends NotificationEvent {
+  constructor(
+    userId: string,
+    public readonly deploymentId: string,
+    public readonly environmentId: string,
+    public readonly environmentName: string,
+    public readonly image: string,
+    public readonly tag: string,
+    public readonly replicas: number,
+  ) {
+    super(userId);
+  }
+}
+
+export class DeploymentRestartedEvent extends NotificationEvent {
+  constructor(
+    userId: string,
+    public readonly deploymentId: string,
+    public readonly environmentId: string,
+    public readonly environmentName: string,
+    public readonly image: string,
+    public readonly tag: string,
+    public readonly replicas: number,
+  ) {
+    super(userId);
+  }
+}
+
+export class DeploymentRecoveredEvent extends NotificationEvent {
+  constructor(
+    userId: string,
+    public readonly deploymentId: string,
+    public readonly environmentName: string,
+    public readonly serviceName: string,
+    public readonly action: 'recreated' | 'orphan_removed' | 'failed',
+    public readonly errorMessage?: string,
+  ) {
+    super(userId);
+  }
+}
+
+export class DeploymentHealthChangedEvent extends NotificationEvent {
+  constructor(
+    userId: string,
+    public readonly deploymentId: string,
+    public readonly environmentName: string,
+    public readonly serviceName: string,
+    public readonly previousStatus: HealthStatus,
+    public readonly currentStatus: HealthStatus,
+    public readonly runningReplicas: number,
+    public readonly desiredReplicas: number,
+  ) {
+    super(userId);
+  }
+}
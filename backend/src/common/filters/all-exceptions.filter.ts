@@ -20,6 +20,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
     let status = HttpStatus.INTERNAL_SERVER_ERROR;
     let message = 'Internal server error';
     let error = 'Internal Server Error';
+    let details: Record<string, unknown> = {};
 
     if (exception instanceof HttpException) {
       status = exception.getStatus();
@@ -30,6 +31,13 @@ export class AllExceptionsFilter implements ExceptionFilter {
       } else if (typeof exceptionResponse === 'object') {
         message = (exceptionResponse as any).message || exception.message;
         error = (exceptionResponse as any).error || exception.name;
+
+        // Extra fields, e.g. the changes made before a manifest apply failed
+        details = Object.fromEntries(
+          Object.entries(exceptionResponse).filter(
+            ([key]) => !['statusCode', 'message', 'error'].includes(key),
+          ),
+        );
       }
     } else if (exception instanceof Error) {
       message = exception.message;
@@ -47,6 +55,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
       statusCode: status,
       error,
       message,
+      ...details,
       timestamp: new Date().toISOString(),
       path: request.url,
     });
@@ -0,0 +1,47 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { Observable, map } from 'rxjs';
+import { REVEAL_SENSITIVE_KEY } from '../decorators/reveal-sensitive.decorator';
+import {
+  DEFAULT_SENSITIVE_ENV_PATTERNS,
+  compileEnvPatterns,
+  redactSensitiveFields,
+} from '../utils/redaction';
+
+@Injectable()
+export class RedactionInterceptor implements NestInterceptor {
+  private readonly patterns: RegExp[];
+
+  constructor(
+    private readonly reflector: Reflector,
+    configService: ConfigService,
+  ) {
+    this.patterns = compileEnvPatterns(
+      configService.get<string>(
+        'redaction.sensitiveEnvPatterns',
+        DEFAULT_SENSITIVE_ENV_PATTERNS,
+      ),
+    );
+  }
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const reveal = this.reflector.getAllAndOverride<boolean>(
+      REVEAL_SENSITIVE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (reveal) {
+      return next.handle();
+    }
+
+    return next
+      .handle()
+      .pipe(map((body) => redactSensitiveFields(body, this.patterns)));
+  }
+}
@@ -11,6 +11,10 @@ import {
   DeploymentFailedEvent,
   DeploymentStartedEvent,
   DeploymentStoppedEvent,
+  DeploymentResumedEvent,
+  DeploymentRestartedEvent,
+  DeploymentRecoveredEvent,
+  DeploymentHealthChangedEvent,
 } from '../events/notification.events';
 
 @Injectable()
@@ -166,6 +170,82 @@ export class NotificationListener {
     );
   }
 
+  @OnEvent('deployment.resumed')
+  async handleDeploymentResumed(event: DeploymentResumedEvent) {
+    await this.sendNotification(
+      event.userId,
+      'DEPLOYMENT_RESUMED',
+      async (user) => {
+        if (!user.notifyDeploymentSuccess) return false;
+
+        const message = this.formatDeploymentResumedMessage(event);
+        await this.telegramService.sendMarkdownMessage(
+          Number(user.telegramId),
+          message,
+        );
+        return true;
+      },
+    );
+  }
+
+  @OnEvent('deployment.restarted')
+  async handleDeploymentRestarted(event: DeploymentRestartedEvent) {
+    await this.sendNotification(
+      event.userId,
+      'DEPLOYMENT_RESTARTED',
+      async (user) => {
+        if (!user.notifyDeploymentSuccess) return false;
+
+        const message = this.formatDeploymentRestartedMessage(event);
+        await this.telegramService.sendMarkdownMessage(
+          Number(user.telegramId),
+          message,
+        );
+        return true;
+      },
+    );
+  }
+
+  @OnEvent('deployment.recovered')
+  async handleDeploymentRecovered(event: DeploymentRecoveredEvent) {
+    await this.sendNotification(
+      event.userId,
+      'DEPLOYMENT_RECOVERED',
+      async (user) => {
+        const enabled =
+          event.action === 'failed'
+            ? user.notifyErrors
+            : user.notifyDeploymentRecovered;
+        if (!enabled) return false;
+
+        const message = this.formatDeploymentRecoveredMessage(event);
+        await this.telegramService.sendMarkdownMessage(
+          Number(user.telegramId),
+          message,
+        );
+        return true;
+      },
+    );
+  }
+
+  @OnEvent('deployment.health_changed')
+  async handleDeploymentHealthChanged(event: DeploymentHealthChangedEvent) {
+    await this.sendNotification(
+      event.userId,
+      'DEPLOYMENT_HEALTH_CHANGED',
+      async (user) => {
+        if (!user.notifyErrors) return false;
+
+        const message = this.formatDeploymentHealthChangedMessage(event);
+        await this.telegramService.sendMarkdownMessage(
+          Number(user.telegramId),
+          message,
+        );
+        return true;
+      },
+    );
+  }
+
   private async sendNotification(
     userId: string,
     eventType: string,
@@ -318,4 +398,82 @@ export class NotificationListener {
       `Your deployment has been stopped.`
     );
   }
+
+  private formatDeploymentResumedMessage(
+    event: DeploymentResumedEvent,
+  ): string {
+    return (
+      `▶️ *Deployment Resumed*\n\n` +
+      `Job ID: \`${event.deploymentId}\`\n` +
+      `Environment: \`${event.environmentName}\`\n` +
+      `Image: \`${event.image}:${event.tag}\`\n` +
+      `Replicas: ${event.replicas}\n` +
+      `Status: *RUNNING*\n\n` +
+      `Your stopped deployment is running again.`
+    );
+  }
+
+  private formatDeploymentRestartedMessage(
+    event: DeploymentRestartedEvent,
+  ): string {
+    return (
+      `🔄 *Deployment Restarted*\n\n` +
+      `Job ID: \`${event.deploymentId}\`\n` +
+      `Environment: \`${event.environmentName}\`\n` +
+      `Image: \`${event.image}:${event.tag}\`\n` +
+      `Replicas: ${event.replicas}\n` +
+      `Status: *RUNNING*\n\n` +
+      `All tasks of your deployment have been restarted.`
+    );
+  }
+
+  private formatDeploymentRecoveredMessage(
+    event: DeploymentRecoveredEvent,
+  ): string {
+    const header = {
+      recreated: `♻️ *Deployment Recovered*`,
+      orphan_removed: `🧹 *Orphaned Service Removed*`,
+      failed: `❌ *Deployment Recovery Failed*`,
+    }[event.action];
+
+    let message =
+      `${header}\n\n` +
+      `Job ID: \`${event.deploymentId}\`\n` +
+      `Environment: \`${event.environmentName}\`\n` +
+      `Service: \`${event.serviceName}\``;
+
+    if (event.action === 'recreated') {
+      message +=
+        `\n\n` +
+        `The service was missing from the swarm and has been recreated.`;
+    } else if (event.action === 'orphan_removed') {
+      message +=
+        `\n\n` + `The service had no matching deployment and has been removed.`;
+    } else {
+      message +=
+        `\n` +
+        `Status: *FAILED*\n\n` +
+        `Error:\n\`\`\`\n${event.errorMessage}\n\`\`\``;
+    }
+
+    return message;
+  }
+
+  private formatDeploymentHealthChangedMessage(
+    event: DeploymentHealthChangedEvent,
+  ): string {
+    const header =
+      event.currentStatus === 'UNHEALTHY'
+        ? `⚠️ *Deployment Unhealthy*`
+        : `💚 *Deployment Healthy Again*`;
+
+    return (
+      `${header}\n\n` +
+      `Job ID: \`${event.deploymentId}\`\n` +
+      `Environment: \`${event.environmentName}\`\n` +
+      `Service: \`${event.serviceName}\`\n` +
+      `Health: *${event.previousStatus}* → *${event.currentStatus}*\n` +
+      `Replicas: ${event.runningReplicas}/${event.desiredReplicas} running`
+    );
+  }
 }
@@ -0,0 +1,165 @@
+// Masking of sensitive environment variable values in API responses, log
+// lines and notifications
+
+export const REDACTED = '********';
+
+// Comma-separated globs, matched case-insensitively against env keys
+export const DEFAULT_SENSITIVE_ENV_PATTERNS =
+  '*PASSWORD*,*PASSWD*,*SECRET*,*TOKEN*,*_KEY,*PRIVATE_KEY*,*CREDENTIALS*,*_DSN,DATABASE_URL';
+
+// The value runs to the end of the env entry: an unescaped double quote, as
+// in JSON, or the end of the line
+const ENV_ASSIGNMENT = /\b([A-Za-z_][A-Za-z0-9_]*)=((?:\\.|[^"\\\r\n])*)/g;
+const JSON_STRING_PROPERTY =
+  /"([A-Za-z_][A-Za-z0-9_]*)"(\s*:\s*)"((?:[^"\\]|\\.)*)"/g;
+
+// Keys marked sensitive on any deployment. Log lines and notifications do not
+// say which deployment they come from, so free text is masked with all of them
+const deploymentSensitiveKeys = new Set<string>();
+
+export function registerSensitiveEnvKeys(keys: string[]): void {
+  for (const key of keys) {
+    deploymentSensitiveKeys.add(key);
+  }
+}
+
+export function compileEnvPatterns(patterns: string): RegExp[] {
+  return patterns
+    .split(',')
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern.length > 0)
+    .map((pattern) => {
+      const source = pattern
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+      return new RegExp(`^${source}$`, 'i');
+    });
+}
+
+export function isSensitiveEnvKey(
+  key: string,
+  patterns: RegExp[],
+  sensitiveKeys: string[] = [],
+): boolean {
+  return (
+    sensitiveKeys.includes(key) || patterns.some((pattern) => pattern.test(key))
+  );
+}
+
+export function redactEnvVars<T>(
+  envVars: T,
+  patterns: RegExp[],
+  sensitiveKeys: string[] = [],
+): T {
+  if (!isPlainObject(envVars)) {
+    return envVars;
+  }
+
+  return Object.fromEntries(
+    Object.entries(envVars).map(([key, value]) => [
+      key,
+      isSensitiveEnvKey(key, patterns, sensitiveKeys) ? REDACTED : value,
+    ]),
+  ) as T;
+}
+
+/**
+ * Mask sensitive values of every `envVars` object in a response body. Keys
+ * listed in a `sensitiveEnvKeys` field apply to the object holding it and
+ * everything nested below, e.g. the versions of a deployment.
+ */
+export function redactSensitiveFields(
+  value: unknown,
+  patterns: RegExp[],
+  sensitiveKeys: string[] = [],
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      redactSensitiveFields(item, patterns, sensitiveKeys),
+    );
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const keys = Array.isArray(value.sensitiveEnvKeys)
+    ? [...sensitiveKeys, ...(value.sensitiveEnvKeys as string[])]
+    : sensitiveKeys;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => {
+      if (key !== 'envVars' || !isPlainObject(field)) {
+        return [key, redactSensitiveFields(field, patterns, keys)];
+      }
+
+      // Update diffs hold the previous and the new set
+      if (isConfigChange(field)) {
+        return [
+          key,
+          {
+            from: redactEnvVars(field.from, patterns, keys),
+            to: redactEnvVars(field.to, patterns, keys),
+          },
+        ];
+      }
+
+      return [key, redactEnvVars(field, patterns, keys)];
+    }),
+  );
+}
+
+/**
+ * Mask values assigned to sensitive keys in free text, as `KEY=value` (Docker
+ * env entries) or `"KEY": "value"` (JSON). Keys registered by deployments
+ * count as sensitive too.
+ */
+export function redactText(text: string, patterns: RegExp[]): string {
+  const sensitiveKeys = [...deploymentSensitiveKeys];
+
+  return redactAssignments(text, patterns, sensitiveKeys).replace(
+    JSON_STRING_PROPERTY,
+    (match: string, key: string, separator: string) =>
+      isSensitiveEnvKey(key, patterns, sensitiveKeys)
+        ? `"${key}"${separator}"${REDACTED}"`
+        : match,
+  );
+}
+
+function redactAssignments(
+  text: string,
+  patterns: RegExp[],
+  sensitiveKeys: string[],
+): string {
+  // A value may hold further assignments, e.g. `A=1 B_TOKEN=2` in a message
+  return text.replace(
+    ENV_ASSIGNMENT,
+    (match: string, key: string, value: string) =>
+      isSensitiveEnvKey(key, patterns, sensitiveKeys)
+        ? `${key}=${REDACTED}`
+        : `${key}=${redactAssignments(value, patterns, sensitiveKeys)}`,
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function isConfigChange(
+  value: Record<string, unknown>,
+): value is { from: unknown; to: unknown } {
+  const keys = Object.keys(value);
+  return (
+    keys.length === 2 &&
+    keys.includes('from') &&
+    keys.includes('to') &&
+    (value.from === null || isPlainObject(value.from)) &&
+    (value.to === null || isPlainObject(value.to))
+  );
+}
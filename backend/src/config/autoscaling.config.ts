@@ -0,0 +1,10 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('autoscaling', () => ({
+  enabled: process.env.ENABLE_AUTOSCALING !== 'false',
+  intervalSeconds: parseInt(
+    process.env.AUTOSCALING_INTERVAL_SECONDS || '30',
+    10,
+  ),
+  tolerance: parseFloat(process.env.AUTOSCALING_TOLERANCE || '0.1'),
+}));
@@ -0,0 +1,14 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('gitPolling', () => ({
+  enabled: process.env.ENABLE_GIT_POLLING !== 'false',
+  tickSeconds: parseInt(process.env.GIT_POLL_TICK_SECONDS || '30', 10),
+  minIntervalSeconds: parseInt(
+    process.env.GIT_POLL_MIN_INTERVAL_SECONDS || '60',
+    10,
+  ),
+  maxBackoffSeconds: parseInt(
+    process.env.GIT_POLL_MAX_BACKOFF_SECONDS || '3600',
+    10,
+  ),
+}));
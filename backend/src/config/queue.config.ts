@@ -0,0 +1,14 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('queue', () => ({
+  concurrency: parseInt(process.env.DEPLOYMENT_QUEUE_CONCURRENCY || '2', 10),
+  attempts: parseInt(process.env.DEPLOYMENT_QUEUE_ATTEMPTS || '3', 10),
+  backoffDelay: parseInt(
+    process.env.DEPLOYMENT_QUEUE_BACKOFF_MS || '10000',
+    10,
+  ),
+  healthTimeoutSeconds: parseInt(
+    process.env.DEPLOYMENT_HEALTH_TIMEOUT_SECONDS || '300',
+    10,
+  ),
+}));
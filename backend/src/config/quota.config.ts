@@ -0,0 +1,15 @@
+import { registerAs } from '@nestjs/config';
+
+// Defaults for every user, overridden per user by UserQuota rows
+export default registerAs('quota', () => ({
+  maxEnvironments: parseInt(process.env.QUOTA_MAX_ENVIRONMENTS || '5', 10),
+  maxDeployments: parseInt(process.env.QUOTA_MAX_DEPLOYMENTS || '20', 10),
+  maxDeploymentsPerEnvironment: parseInt(
+    process.env.QUOTA_MAX_DEPLOYMENTS_PER_ENVIRONMENT || '10',
+    10,
+  ),
+  maxReplicas: parseInt(process.env.QUOTA_MAX_REPLICAS || '20', 10),
+  maxCpu: parseFloat(process.env.QUOTA_MAX_CPU || '8'),
+  maxMemory: parseInt(process.env.QUOTA_MAX_MEMORY_MB || '16384', 10),
+  maxVolumes: parseInt(process.env.QUOTA_MAX_VOLUMES || '20', 10),
+}));
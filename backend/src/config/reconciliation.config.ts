@@ -0,0 +1,14 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('reconciliation', () => ({
+  enabled: process.env.ENABLE_RECONCILIATION !== 'false',
+  intervalSeconds: parseInt(
+    process.env.RECONCILIATION_INTERVAL_SECONDS || '30',
+    10,
+  ),
+  crashLoopThreshold: parseInt(process.env.CRASH_LOOP_THRESHOLD || '3', 10),
+  crashLoopWindowSeconds: parseInt(
+    process.env.CRASH_LOOP_WINDOW_SECONDS || '300',
+    10,
+  ),
+}));
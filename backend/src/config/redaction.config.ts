@@ -0,0 +1,7 @@
+import { registerAs } from '@nestjs/config';
+import { DEFAULT_SENSITIVE_ENV_PATTERNS } from '../common/utils/redaction';
+
+export default registerAs('redaction', () => ({
+  sensitiveEnvPatterns:
+    process.env.SENSITIVE_ENV_PATTERNS || DEFAULT_SENSITIVE_ENV_PATTERNS,
+}));
@@ -0,0 +1,17 @@
+import { registerAs } from '@nestjs/config';
+
+// CPUs and MiB. A zero reservation default means no reservation
+export default registerAs('resources', () => ({
+  defaultCpuLimit: parseFloat(process.env.DEFAULT_CPU_LIMIT || '0.5'),
+  defaultMemoryLimit: parseInt(
+    process.env.DEFAULT_MEMORY_LIMIT_MB || '512',
+    10,
+  ),
+  defaultCpuReservation: parseFloat(process.env.DEFAULT_CPU_RESERVATION || '0'),
+  defaultMemoryReservation: parseInt(
+    process.env.DEFAULT_MEMORY_RESERVATION_MB || '0',
+    10,
+  ),
+  maxCpuLimit: parseFloat(process.env.MAX_CPU_LIMIT || '2'),
+  maxMemoryLimit: parseInt(process.env.MAX_MEMORY_LIMIT_MB || '2048', 10),
+}));
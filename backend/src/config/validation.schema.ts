@@ -16,10 +16,20 @@ export const validationSchema = Joi.object({
   REDIS_PORT: Joi.number().default(6379),
   REDIS_PASSWORD: Joi.string().allow('').optional(),
 
+  // Deployment queue
+  DEPLOYMENT_QUEUE_CONCURRENCY: Joi.number().integer().min(1).default(2),
+  DEPLOYMENT_QUEUE_ATTEMPTS: Joi.number().integer().min(1).default(3),
+  DEPLOYMENT_QUEUE_BACKOFF_MS: Joi.number().integer().min(0).default(10000),
+  DEPLOYMENT_HEALTH_TIMEOUT_SECONDS: Joi.number()
+    .integer()
+    .min(10)
+    .default(300),
+
   // Docker
   DOCKER_SOCKET_PATH: Joi.string().default('/var/run/docker.sock'),
   DOCKER_SWARM_ADVERTISE_ADDR: Joi.string().optional(),
   NGINX_CONTAINER_NAME: Joi.string().default('nginx_proxy'),
+  VOLUME_COPY_IMAGE: Joi.string().default('alpine:3.20'),
 
   // Telegram
   TELEGRAM_BOT_TOKEN: Joi.string().allow('').optional(),
@@ -42,4 +52,58 @@ export const validationSchema = Joi.object({
 
   // Startup Recovery
   ENABLE_DEPLOYMENT_RECOVERY: Joi.boolean().default(true),
+
+  // Reconciliation
+  ENABLE_RECONCILIATION: Joi.boolean().default(true),
+  RECONCILIATION_INTERVAL_SECONDS: Joi.number().integer().min(5).default(30),
+  CRASH_LOOP_THRESHOLD: Joi.number().integer().min(1).default(3),
+  CRASH_LOOP_WINDOW_SECONDS: Joi.number().integer().min(10).default(300),
+
+  // Git Polling
+  ENABLE_GIT_POLLING: Joi.boolean().default(true),
+  GIT_POLL_TICK_SECONDS: Joi.number().integer().min(5).default(30),
+  GIT_POLL_MIN_INTERVAL_SECONDS: Joi.number().integer().min(10).default(60),
+  GIT_POLL_MAX_BACKOFF_SECONDS: Joi.number().integer().min(60).default(3600),
+
+  // Autoscaling
+  ENABLE_AUTOSCALING: Joi.boolean().default(true),
+  AUTOSCALING_INTERVAL_SECONDS: Joi.number().integer().min(5).default(30),
+  AUTOSCALING_TOLERANCE: Joi.number().min(0).max(1).default(0.1),
+
+  // Resource limits (CPUs and MiB)
+  MAX_CPU_LIMIT: Joi.number().positive().default(2),
+  MAX_MEMORY_LIMIT_MB: Joi.number().integer().min(6).default(2048),
+  DEFAULT_CPU_LIMIT: Joi.number()
+    .positive()
+    .max(Joi.ref('MAX_CPU_LIMIT'))
+    .default(0.5),
+  DEFAULT_MEMORY_LIMIT_MB: Joi.number()
+    .integer()
+    .min(6)
+    .max(Joi.ref('MAX_MEMORY_LIMIT_MB'))
+    .default(512),
+  DEFAULT_CPU_RESERVATION: Joi.number()
+    .min(0)
+    .max(Joi.ref('DEFAULT_CPU_LIMIT'))
+    .default(0),
+  DEFAULT_MEMORY_RESERVATION_MB: Joi.number()
+    .integer()
+    .min(0)
+    .max(Joi.ref('DEFAULT_MEMORY_LIMIT_MB'))
+    .default(0),
+
+  // Quotas (defaults, overridden per user in user_quotas)
+  QUOTA_MAX_ENVIRONMENTS: Joi.number().integer().min(0).default(5),
+  QUOTA_MAX_DEPLOYMENTS: Joi.number().integer().min(0).default(20),
+  QUOTA_MAX_DEPLOYMENTS_PER_ENVIRONMENT: Joi.number()
+    .integer()
+    .min(0)
+    .default(10),
+  QUOTA_MAX_REPLICAS: Joi.number().integer().min(0).default(20),
+  QUOTA_MAX_CPU: Joi.number().min(0).default(8),
+  QUOTA_MAX_MEMORY_MB: Joi.number().integer().min(0).default(16384),
+  QUOTA_MAX_VOLUMES: Joi.number().integer().min(0).default(20),
+
+  // Redaction
+  SENSITIVE_ENV_PATTERNS: Joi.string().optional(),
 });
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AutoscalerService } from './autoscaler.service';
+import { DatabaseModule } from '../database/database.module';
+import { DockerModule } from '../../integrations/docker/docker.module';
+import { DeploymentsModule } from '../../modules/deployments/deployments.module';
+import { QuotasModule } from '../../modules/quotas/quotas.module';
+
+@Module({
+  imports: [DatabaseModule, DockerModule, DeploymentsModule, QuotasModule],
+  providers: [AutoscalerService],
+  exports: [AutoscalerService],
+})
+export class AutoscalerModule {}
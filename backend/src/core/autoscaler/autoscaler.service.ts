@@ -0,0 +1,278 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { PrismaService } from '../database/prisma.service';
+import { ContainerService } from '../../integrations/docker/container.service';
+import { DeploymentsService } from '../../modules/deployments/deployments.service';
+import type { DeploymentResources } from '../../modules/deployments/deployments.service';
+import { QuotasService } from '../../modules/quotas/quotas.service';
+import { DeploymentStatus, DeploymentUpdateStatus } from '@prisma/client';
+import type {
+  AutoscalingPolicy,
+  Deployment,
+  Environment,
+  Service,
+} from '@prisma/client';
+
+type PolicyWithDeployment = AutoscalingPolicy & {
+  deployment: Deployment & {
+    environment: Environment;
+    service: Service | null;
+  };
+};
+
+// Average usage per sampled replica, in percent of the limits
+interface UsageMetrics {
+  cpuPercent: number | null;
+  memoryPercent: number | null;
+  sampledReplicas: number;
+}
+
+@Injectable()
+export class AutoscalerService implements OnModuleInit {
+  private readonly logger = new Logger(AutoscalerService.name);
+  private readonly INTERVAL_NAME = 'autoscaler';
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly containerService: ContainerService,
+    private readonly deploymentsService: DeploymentsService,
+    private readonly quotasService: QuotasService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('autoscaling.enabled', true)) {
+      this.logger.log('Autoscaling is disabled');
+      return;
+    }
+
+    const intervalSeconds = this.configService.get<number>(
+      'autoscaling.intervalSeconds',
+      30,
+    );
+
+    const interval = setInterval(() => {
+      this.evaluatePolicies().catch((error) => {
+        this.logger.error(`Autoscaling failed: ${error.message}`);
+      });
+    }, intervalSeconds * 1000);
+    this.schedulerRegistry.addInterval(this.INTERVAL_NAME, interval);
+
+    this.logger.log(
+      `Evaluating autoscaling policies every ${intervalSeconds}s`,
+    );
+  }
+
+  async evaluatePolicies(): Promise<void> {
+    // Skip this tick if the previous pass is still running
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const policies = await this.prisma.autoscalingPolicy.findMany({
+        where: {
+          enabled: true,
+          deployment: {
+            status: DeploymentStatus.RUNNING,
+            // Usage during an update says nothing about the new version
+            updates: {
+              none: {
+                status: {
+                  in: [
+                    DeploymentUpdateStatus.PENDING,
+                    DeploymentUpdateStatus.IN_PROGRESS,
+                  ],
+                },
+              },
+            },
+          },
+        },
+        include: {
+          deployment: {
+            include: {
+              environment: true,
+              service: true,
+            },
+          },
+        },
+      });
+
+      for (const policy of policies) {
+        try {
+          await this.evaluatePolicy(policy);
+        } catch (error) {
+          this.logger.error(
+            `Failed to autoscale deployment ${policy.deploymentId}: ${error.message}`,
+          );
+          // Continue with other deployments
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async evaluatePolicy(policy: PolicyWithDeployment): Promise<void> {
+    const { deployment } = policy;
+    if (!deployment.service) {
+      return;
+    }
+
+    const metrics = await this.sampleUsage(
+      deployment.service.name,
+      deployment.resources as DeploymentResources | null,
+    );
+    const now = new Date();
+
+    await this.prisma.autoscalingPolicy.update({
+      where: { id: policy.id },
+      data: { lastEvaluatedAt: now, lastMetrics: metrics as any },
+    });
+
+    const current = deployment.replicas;
+    const reasons: string[] = [];
+    let desired = current;
+
+    // Out of bounds replica counts are corrected right away
+    if (current < policy.minReplicas) {
+      desired = policy.minReplicas;
+      reasons.push(`below minReplicas ${policy.minReplicas}`);
+    } else if (current > policy.maxReplicas) {
+      desired = policy.maxReplicas;
+      reasons.push(`above maxReplicas ${policy.maxReplicas}`);
+    } else if (metrics.sampledReplicas > 0) {
+      const tolerance = this.configService.get<number>(
+        'autoscaling.tolerance',
+        0.1,
+      );
+      const proposals = [
+        {
+          name: 'CPU',
+          usage: metrics.cpuPercent,
+          target: policy.targetCpuPercent,
+        },
+        {
+          name: 'Memory',
+          usage: metrics.memoryPercent,
+          target: policy.targetMemoryPercent,
+        },
+      ]
+        .filter(({ usage, target }) => usage !== null && target !== null)
+        .map(({ name, usage, target }) => {
+          const ratio = usage! / target!;
+          return {
+            replicas:
+              Math.abs(ratio - 1) <= tolerance
+                ? current
+                : Math.ceil(current * ratio),
+            reason: `${name} at ${Math.round(usage!)}% of the limit on average, target ${target}%`,
+          };
+        });
+
+      // The metric asking for the most replicas wins, as long as one is out
+      // of tolerance
+      const winner = proposals.reduce<(typeof proposals)[number] | null>(
+        (best, proposal) =>
+          !best || proposal.replicas > best.replicas ? proposal : best,
+        null,
+      );
+      if (winner && winner.replicas !== current) {
+        desired = Math.min(
+          Math.max(winner.replicas, policy.minReplicas),
+          policy.maxReplicas,
+        );
+        reasons.push(winner.reason);
+
+        const cooldownSeconds =
+          desired > current
+            ? policy.scaleUpCooldownSeconds
+            : policy.scaleDownCooldownSeconds;
+        if (
+          policy.lastScaledAt &&
+          now.getTime() - policy.lastScaledAt.getTime() < cooldownSeconds * 1000
+        ) {
+          this.logger.debug(
+            `Deployment ${deployment.id} would scale to ${desired} replicas but is cooling down`,
+          );
+          return;
+        }
+      }
+    }
+
+    if (desired > current) {
+      const allowed = await this.quotasService.getMaxReplicas(
+        deployment.environment.userId,
+        deployment.id,
+      );
+      if (desired > allowed) {
+        desired = Math.max(allowed, current);
+        reasons.push(`capped at ${desired} replica(s) by the quota`);
+      }
+    }
+
+    if (desired === current) {
+      return;
+    }
+
+    const reason = `Autoscaling: ${reasons.join(', ')}`;
+    this.logger.log(
+      `Autoscaling deployment ${deployment.id} from ${current} to ${desired} replicas: ${reasons.join(', ')}`,
+    );
+
+    // A failed attempt also starts the cooldown, it is recorded as a failed
+    // update and retrying every tick would flood the history
+    try {
+      await this.deploymentsService.autoscaleDeployment(
+        deployment.id,
+        desired,
+        reason,
+      );
+    } finally {
+      await this.prisma.autoscalingPolicy.update({
+        where: { id: policy.id },
+        data: { lastScaledAt: new Date() },
+      });
+    }
+  }
+
+  private async sampleUsage(
+    serviceName: string,
+    resources: DeploymentResources | null,
+  ): Promise<UsageMetrics> {
+    const stats = await this.containerService.getServiceStats(serviceName);
+    if (stats.length === 0) {
+      return { cpuPercent: null, memoryPercent: null, sampledReplicas: 0 };
+    }
+
+    // Without a CPU limit a replica may use every CPU, measure against one
+    const cpuLimit = resources?.cpuLimit ?? 1;
+    const cpuPercent =
+      stats.reduce((sum, task) => sum + task.cpuPercent / cpuLimit, 0) /
+      stats.length;
+
+    // Without a memory limit there is nothing to measure against, the stats
+    // API would report the memory of the whole host
+    const memoryLimit = resources?.memoryLimit
+      ? resources.memoryLimit * 1024 * 1024
+      : null;
+    const memoryPercent =
+      memoryLimit !== null
+        ? stats.reduce(
+            (sum, task) => sum + (task.memoryUsage / memoryLimit) * 100,
+            0,
+          ) / stats.length
+        : null;
+
+    return {
+      cpuPercent: Math.round(cpuPercent * 10) / 10,
+      memoryPercent:
+        memoryPercent === null ? null : Math.round(memoryPercent * 10) / 10,
+      sampledReplicas: stats.length,
+    };
+  }
+}
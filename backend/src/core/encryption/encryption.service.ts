@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+/**
+ * Encrypts secrets stored in the database (AES-256-GCM) with a key derived
+ * from API_KEY_SECRET. Rotating API_KEY_SECRET makes stored secrets unreadable.
+ */
+@Injectable()
+export class EncryptionService {
+  private readonly key: Buffer;
+
+  constructor(configService: ConfigService) {
+    const secret = configService.get<string>('app.apiKeySecret');
+    if (!secret) {
+      throw new Error('API_KEY_SECRET is required for encryption');
+    }
+
+    this.key = Buffer.from(
+      crypto.hkdfSync(
+        'sha256',
+        secret,
+        Buffer.alloc(0),
+        'deployment-platform-secrets',
+        32,
+      ),
+    );
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return [
+      VERSION,
+      iv.toString('base64'),
+      cipher.getAuthTag().toString('base64'),
+      ciphertext.toString('base64'),
+    ].join(':');
+  }
+
+  decrypt(payload: string): string {
+    const [version, iv, authTag, ciphertext] = payload.split(':');
+    if (version !== VERSION || !iv || !authTag || !ciphertext) {
+      throw new Error('Unsupported encrypted payload');
+    }
+
+    const decipher = crypto.createDecipheriv(
+      ALGORITHM,
+      this.key,
+      Buffer.from(iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+}
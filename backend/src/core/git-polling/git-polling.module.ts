@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { GitPollingService } from './git-polling.service';
+import { DatabaseModule } from '../database/database.module';
+import { GitModule } from '../../integrations/git/git.module';
+import { GitCredentialsModule } from '../../modules/git-credentials/git-credentials.module';
+import { DeploymentsModule } from '../../modules/deployments/deployments.module';
+
+@Module({
+  imports: [DatabaseModule, GitModule, GitCredentialsModule, DeploymentsModule],
+  providers: [GitPollingService],
+  exports: [GitPollingService],
+})
+export class GitPollingModule {}
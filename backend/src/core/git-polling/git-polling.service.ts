@@ -0,0 +1,143 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { PrismaService } from '../database/prisma.service';
+import { GitService } from '../../integrations/git/git.service';
+import { GitCredentialsService } from '../../modules/git-credentials/git-credentials.service';
+import { DeploymentsService } from '../../modules/deployments/deployments.service';
+import { DeploymentStatus } from '@prisma/client';
+import type { Deployment } from '@prisma/client';
+
+@Injectable()
+export class GitPollingService implements OnModuleInit {
+  private readonly logger = new Logger(GitPollingService.name);
+  private readonly INTERVAL_NAME = 'git-polling';
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly gitService: GitService,
+    private readonly gitCredentialsService: GitCredentialsService,
+    private readonly deploymentsService: DeploymentsService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('gitPolling.enabled', true)) {
+      this.logger.log('Git polling is disabled');
+      return;
+    }
+
+    const tickSeconds = this.configService.get<number>(
+      'gitPolling.tickSeconds',
+      30,
+    );
+
+    const interval = setInterval(() => {
+      this.pollDueDeployments().catch((error) => {
+        this.logger.error(`Git polling failed: ${error.message}`);
+      });
+    }, tickSeconds * 1000);
+    this.schedulerRegistry.addInterval(this.INTERVAL_NAME, interval);
+
+    this.logger.log(`Checking polled Git deployments every ${tickSeconds}s`);
+  }
+
+  async pollDueDeployments(): Promise<void> {
+    // Skip this tick if the previous pass is still running
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const deployments = await this.prisma.deployment.findMany({
+        where: {
+          status: DeploymentStatus.RUNNING,
+          autoRebuild: true,
+          gitUrl: { not: null },
+          gitPollInterval: { not: null },
+          OR: [{ nextGitPollAt: null }, { nextGitPollAt: { lte: new Date() } }],
+        },
+      });
+
+      for (const deployment of deployments) {
+        await this.pollDeployment(deployment);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async pollDeployment(deployment: Deployment): Promise<void> {
+    const branch = deployment.gitBranch ?? 'main';
+    const interval = deployment.gitPollInterval ?? 60;
+
+    let commitSha: string;
+    try {
+      commitSha = await this.gitService.resolveCommitSha(
+        deployment.gitUrl!,
+        branch,
+        await this.gitCredentialsService.getGitAuth(deployment.gitCredentialId),
+      );
+    } catch (error) {
+      // Back off exponentially while the remote is unreachable
+      const failures = deployment.gitPollFailures + 1;
+      const maxBackoff = this.configService.get<number>(
+        'gitPolling.maxBackoffSeconds',
+        3600,
+      );
+      const delay = Math.min(interval * 2 ** failures, maxBackoff);
+
+      this.logger.warn(
+        `Failed to poll ${deployment.gitUrl}#${branch} for deployment ${deployment.id} (${failures} in a row), retrying in ${delay}s: ${error.message}`,
+      );
+
+      await this.prisma.deployment.update({
+        where: { id: deployment.id },
+        data: {
+          gitPollFailures: failures,
+          nextGitPollAt: new Date(Date.now() + delay * 1000),
+        },
+      });
+      return;
+    }
+
+    await this.prisma.deployment.update({
+      where: { id: deployment.id },
+      data: {
+        gitPollFailures: 0,
+        nextGitPollAt: new Date(Date.now() + interval * 1000),
+      },
+    });
+
+    if (commitSha === deployment.gitCommitSha || deployment.rebuildPending) {
+      return;
+    }
+
+    // A commit that was already built, or is being built, is not rebuilt,
+    // even if its build failed
+    const latestBuild = await this.prisma.build.findFirst({
+      where: { deploymentId: deployment.id },
+      orderBy: { startedAt: 'desc' },
+      select: { commitSha: true },
+    });
+
+    if (latestBuild?.commitSha === commitSha) {
+      return;
+    }
+
+    this.logger.log(
+      `Branch ${branch} of deployment ${deployment.id} moved to ${commitSha}, rebuilding`,
+    );
+
+    try {
+      await this.deploymentsService.requestRebuild(deployment);
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue rebuild of deployment ${deployment.id}: ${error.message}`,
+      );
+    }
+  }
+}
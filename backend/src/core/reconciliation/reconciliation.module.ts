@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ReconciliationService } from './reconciliation.service';
+import { DatabaseModule } from '../database/database.module';
+import { StartupModule } from '../startup/startup.module';
+import { DockerModule } from '../../integrations/docker/docker.module';
+import { DeploymentsModule } from '../../modules/deployments/deployments.module';
+
+@Module({
+  imports: [DatabaseModule, DockerModule, DeploymentsModule, StartupModule],
+  providers: [ReconciliationService],
+  exports: [ReconciliationService],
+})
+export class ReconciliationModule {}
@@ -0,0 +1,295 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { PrismaService } from '../database/prisma.service';
+import { ContainerService } from '../../integrations/docker/container.service';
+import { DeploymentsService } from '../../modules/deployments/deployments.service';
+import type { DeploymentWithRelations } from '../../modules/deployments/deployments.service';
+import { StartupService } from '../startup/startup.service';
+import {
+  DeploymentStatus,
+  DeploymentUpdateStatus,
+  EnvironmentStatus,
+  HealthStatus,
+  ServiceStatus,
+} from '@prisma/client';
+import {
+  DeploymentFailedEvent,
+  DeploymentHealthChangedEvent,
+} from '../../common/events/notification.events';
+
+// Task states Swarm reports before a task is running
+const STARTING_TASK_STATES = [
+  'new',
+  'pending',
+  'assigned',
+  'accepted',
+  'preparing',
+  'ready',
+  'starting',
+];
+const FAILED_TASK_STATES = ['failed', 'rejected'];
+
+// Fields of a Swarm task the reconciler reads
+interface SwarmTask {
+  DesiredState?: string;
+  Status?: { State?: string; Timestamp?: string; Err?: string };
+}
+
+@Injectable()
+export class ReconciliationService implements OnModuleInit {
+  private readonly logger = new Logger(ReconciliationService.name);
+  private readonly INTERVAL_NAME = 'reconciliation';
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly containerService: ContainerService,
+    private readonly deploymentsService: DeploymentsService,
+    private readonly startupService: StartupService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('reconciliation.enabled', true)) {
+      this.logger.log('Reconciliation is disabled');
+      return;
+    }
+
+    const intervalSeconds = this.configService.get<number>(
+      'reconciliation.intervalSeconds',
+      30,
+    );
+
+    const interval = setInterval(() => {
+      this.reconcile().catch((error) => {
+        this.logger.error(`Reconciliation failed: ${error.message}`);
+      });
+    }, intervalSeconds * 1000);
+    this.schedulerRegistry.addInterval(this.INTERVAL_NAME, interval);
+
+    this.logger.log(`Reconciling deployments every ${intervalSeconds}s`);
+  }
+
+  async reconcile(): Promise<void> {
+    // Skip this tick if the previous pass is still running
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const deployments = await this.prisma.deployment.findMany({
+        where: {
+          status: DeploymentStatus.RUNNING,
+          environment: { status: EnvironmentStatus.ACTIVE },
+          // Updates swap services, leave those deployments to the update job
+          updates: {
+            none: {
+              status: {
+                in: [
+                  DeploymentUpdateStatus.PENDING,
+                  DeploymentUpdateStatus.IN_PROGRESS,
+                ],
+              },
+            },
+          },
+        },
+        include: {
+          service: true,
+          environment: true,
+        },
+      });
+
+      for (const deployment of deployments) {
+        try {
+          await this.reconcileDeployment(deployment);
+        } catch (error) {
+          this.logger.error(
+            `Failed to reconcile deployment ${deployment.id}: ${error.message}`,
+          );
+          // Continue with other deployments
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async reconcileDeployment(
+    deployment: DeploymentWithRelations,
+  ): Promise<void> {
+    const serviceName = this.deploymentsService.getServiceName(deployment);
+    const status = await this.containerService.getServiceStatus(serviceName);
+
+    if (!status) {
+      // Deletes remove the service before the row, only recreate it for a
+      // deployment that is still meant to run
+      const current = await this.prisma.deployment.findUnique({
+        where: { id: deployment.id },
+        select: { status: true, environment: { select: { status: true } } },
+      });
+      if (
+        current?.status !== DeploymentStatus.RUNNING ||
+        current.environment.status !== EnvironmentStatus.ACTIVE
+      ) {
+        return;
+      }
+
+      this.logger.warn(`Service ${serviceName} disappeared, recreating it...`);
+      await this.startupService.recoverDeployment(deployment, serviceName);
+      return;
+    }
+
+    const now = Date.now();
+    const windowMs =
+      this.configService.get<number>(
+        'reconciliation.crashLoopWindowSeconds',
+        300,
+      ) * 1000;
+    const threshold = this.configService.get<number>(
+      'reconciliation.crashLoopThreshold',
+      3,
+    );
+
+    const desiredReplicas: number =
+      status.service.Spec?.Mode?.Replicated?.Replicas ?? deployment.replicas;
+    const tasks: SwarmTask[] = status.tasks;
+    const activeTasks = tasks.filter((task) => task.DesiredState === 'running');
+    const runningReplicas = activeTasks.filter(
+      (task) => task.Status?.State === 'running',
+    ).length;
+    const starting = activeTasks.some((task) =>
+      STARTING_TASK_STATES.includes(task.Status?.State ?? ''),
+    );
+
+    const failedTasks = tasks
+      .filter((task) => FAILED_TASK_STATES.includes(task.Status?.State ?? ''))
+      .map((task) => ({
+        error: task.Status?.Err,
+        failedAt: Date.parse(task.Status?.Timestamp ?? ''),
+      }))
+      .sort((a, b) => b.failedAt - a.failedAt);
+    const recentFailures = failedTasks.filter(
+      (task) => task.failedAt >= now - windowMs,
+    );
+
+    // Failures newer than the last write to the service record are not counted yet
+    const lastSeen = deployment.service?.updatedAt.getTime() ?? 0;
+    const newFailures = failedTasks.filter(
+      (task) => task.failedAt > lastSeen,
+    ).length;
+
+    const missingReplicas = runningReplicas < desiredReplicas;
+    const crashLooping = missingReplicas && recentFailures.length >= threshold;
+
+    let healthStatus: HealthStatus;
+    if (desiredReplicas === 0) {
+      healthStatus = HealthStatus.NONE;
+    } else if (!missingReplicas) {
+      healthStatus = HealthStatus.HEALTHY;
+    } else if (starting && recentFailures.length === 0) {
+      healthStatus = HealthStatus.STARTING;
+    } else {
+      healthStatus = HealthStatus.UNHEALTHY;
+    }
+
+    let serviceStatus: ServiceStatus;
+    if (crashLooping) {
+      serviceStatus = ServiceStatus.FAILED;
+    } else if (desiredReplicas === 0) {
+      serviceStatus = ServiceStatus.STOPPED;
+    } else {
+      serviceStatus = ServiceStatus.RUNNING;
+    }
+
+    const previous = deployment.service;
+    const dockerId: string = status.service.ID;
+
+    if (
+      !previous ||
+      previous.status !== serviceStatus ||
+      previous.healthStatus !== healthStatus ||
+      previous.dockerId !== dockerId ||
+      newFailures > 0
+    ) {
+      await this.prisma.service.upsert({
+        where: { deploymentId: deployment.id },
+        create: {
+          deploymentId: deployment.id,
+          dockerId,
+          name: serviceName,
+          status: serviceStatus,
+          healthStatus,
+          restartCount: newFailures,
+        },
+        update: {
+          dockerId,
+          status: serviceStatus,
+          healthStatus,
+          restartCount: { increment: newFailures },
+        },
+      });
+    }
+
+    const previousHealth = previous?.healthStatus ?? HealthStatus.NONE;
+
+    // Only degradations and recoveries from them are worth a notification,
+    // a crash loop is reported as a failed deployment below
+    if (
+      !crashLooping &&
+      previousHealth !== healthStatus &&
+      (previousHealth === HealthStatus.UNHEALTHY ||
+        healthStatus === HealthStatus.UNHEALTHY)
+    ) {
+      this.logger.warn(
+        `Service ${serviceName} is ${healthStatus} (${runningReplicas}/${desiredReplicas} replicas running)`,
+      );
+
+      this.eventEmitter.emit(
+        'deployment.health_changed',
+        new DeploymentHealthChangedEvent(
+          deployment.environment.userId,
+          deployment.id,
+          deployment.environment.name,
+          serviceName,
+          previousHealth,
+          healthStatus,
+          runningReplicas,
+          desiredReplicas,
+        ),
+      );
+    }
+
+    if (crashLooping) {
+      const lastError = recentFailures[0].error || 'task exited';
+      const errorMessage = `Tasks keep crashing (${recentFailures.length} failures in the last ${windowMs / 1000}s): ${lastError}`;
+
+      this.logger.error(`Deployment ${deployment.id} failed: ${errorMessage}`);
+
+      await this.prisma.deployment.update({
+        where: { id: deployment.id },
+        data: {
+          status: DeploymentStatus.FAILED,
+          errorMessage,
+        },
+      });
+
+      this.eventEmitter.emit(
+        'deployment.failed',
+        new DeploymentFailedEvent(
+          deployment.environment.userId,
+          deployment.id,
+          deployment.environmentId,
+          deployment.environment.name,
+          deployment.image,
+          errorMessage,
+          !!deployment.gitUrl,
+        ),
+      );
+    }
+  }
+}
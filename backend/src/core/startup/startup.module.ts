@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { StartupService } from './startup.service';
 import { DatabaseModule } from '../database/database.module';
 import { DockerModule } from '../../integrations/docker/docker.module';
+import { DeploymentsModule } from '../../modules/deployments/deployments.module';
 
 @Module({
-  imports: [DatabaseModule, DockerModule],
+  imports: [DatabaseModule, DockerModule, DeploymentsModule],
   providers: [StartupService],
   exports: [StartupService],
 })
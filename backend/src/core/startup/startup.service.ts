@@ -3,8 +3,12 @@ import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../database/prisma.service';
 import { ContainerService } from '../../integrations/docker/container.service';
 import { NetworkService } from '../../integrations/docker/network.service';
-import { DeploymentStatus } from '@prisma/client';
+import { DeploymentsService } from '../../modules/deployments/deployments.service';
+import type { DeploymentWithRelations } from '../../modules/deployments/deployments.service';
+import { DeploymentStatus, EnvironmentStatus } from '@prisma/client';
+import type { Environment } from '@prisma/client';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DeploymentRecoveredEvent } from '../../common/events/notification.events';
 
 @Injectable()
 export class StartupService implements OnModuleInit {
@@ -15,6 +19,7 @@ export class StartupService implements OnModuleInit {
     private readonly prisma: PrismaService,
     private readonly containerService: ContainerService,
     private readonly networkService: NetworkService,
+    private readonly deploymentsService: DeploymentsService,
     private readonly configService: ConfigService,
     private readonly eventEmitter: EventEmitter2,
   ) {
@@ -36,9 +41,12 @@ export class StartupService implements OnModuleInit {
       // Wait for database to be ready
       await this.waitForDatabase();
 
-      // Recover running deployments
+      // Recover running deployments whose service is missing
       await this.recoverDeployments();
 
+      // Remove managed services whose deployment is gone
+      await this.removeOrphanedServices();
+
       this.logger.log('Deployment recovery completed');
     } catch (error) {
       this.logger.error(`Deployment recovery failed: ${error.message}`);
@@ -73,9 +81,12 @@ export class StartupService implements OnModuleInit {
   }
 
   private async recoverDeployments(): Promise<void> {
-    // Get all RUNNING deployments
+    // Get all RUNNING deployments of environments that are not being deleted
     const runningDeployments = await this.prisma.deployment.findMany({
-      where: { status: DeploymentStatus.RUNNING },
+      where: {
+        status: DeploymentStatus.RUNNING,
+        environment: { status: EnvironmentStatus.ACTIVE },
+      },
       include: {
         service: true,
         environment: true,
@@ -103,15 +114,16 @@ export class StartupService implements OnModuleInit {
     }
   }
 
-  private async checkAndRecoverDeployment(deployment: any): Promise<void> {
-    const serviceName = this.buildServiceName(deployment);
+  private async checkAndRecoverDeployment(
+    deployment: DeploymentWithRelations,
+  ): Promise<void> {
+    const serviceName = this.deploymentsService.getServiceName(deployment);
 
     this.logger.log(`Checking deployment ${deployment.id} (${serviceName})...`);
 
     // Check if service exists in Docker
-    const serviceExists = await this.containerService.serviceExists(
-      serviceName,
-    );
+    const serviceExists =
+      await this.containerService.serviceExists(serviceName);
 
     if (serviceExists) {
       this.logger.log(`✓ Service ${serviceName} is running`);
@@ -123,35 +135,51 @@ export class StartupService implements OnModuleInit {
       `Service ${serviceName} not found in Docker, attempting recovery...`,
     );
 
-    await this.restartDeployment(deployment);
+    await this.recoverDeployment(deployment, serviceName);
   }
 
-  private async restartDeployment(deployment: any): Promise<void> {
-    const serviceName = this.buildServiceName(deployment);
+  /**
+   * Recreate the network and service of a running deployment. Marks the
+   * deployment FAILED if that is not possible. Also used by the periodic
+   * reconciler for services that disappear at runtime. Does nothing unless
+   * the environment is still ACTIVE, as a deleted one must stay gone.
+   */
+  async recoverDeployment(
+    deployment: DeploymentWithRelations,
+    serviceName: string,
+  ): Promise<void> {
+    const { environment } = deployment;
+
+    const current = await this.prisma.environment.findUnique({
+      where: { id: environment.id },
+      select: { status: true },
+    });
+    if (current?.status !== EnvironmentStatus.ACTIVE) {
+      this.logger.warn(
+        `Not recovering deployment ${deployment.id}, environment ${environment.name} is ${current?.status ?? 'gone'}`,
+      );
+      return;
+    }
 
     try {
       // Ensure environment network exists
-      const networkName = this.buildNetworkName(deployment.environment);
-      const networkExists = await this.networkService.networkExists(networkName);
-
-      if (!networkExists) {
-        this.logger.warn(
-          `Network ${networkName} does not exist, creating it...`,
-        );
-        await this.networkService.createOverlayNetwork(networkName);
-      }
+      await this.ensureNetwork(environment);
 
-      // Recreate the service using deployment configuration
-      const serviceConfig = this.buildServiceConfig(deployment);
-      await this.containerService.createService(serviceConfig);
+      // Recreate the service with the same spec as the deploy path
+      await this.deploymentsService.restoreService(deployment);
 
       this.logger.log(`✓ Successfully recovered deployment ${deployment.id}`);
 
-      // Emit recovery event
-      this.eventEmitter.emit('deployment.recovered', {
-        deploymentId: deployment.id,
-        serviceName,
-      });
+      this.eventEmitter.emit(
+        'deployment.recovered',
+        new DeploymentRecoveredEvent(
+          environment.userId,
+          deployment.id,
+          environment.name,
+          serviceName,
+          'recreated',
+        ),
+      );
     } catch (error) {
       this.logger.error(
         `Failed to restart deployment ${deployment.id}: ${error.message}`,
@@ -163,6 +191,7 @@ export class StartupService implements OnModuleInit {
           where: { id: deployment.id },
           data: {
             status: DeploymentStatus.FAILED,
+            errorMessage: `Recovery failed: ${error.message}`,
           },
         })
         .catch((updateError) => {
@@ -171,63 +200,109 @@ export class StartupService implements OnModuleInit {
           );
         });
 
-      // Emit failure event
-      this.eventEmitter.emit('deployment.recovery-failed', {
-        deploymentId: deployment.id,
-        serviceName,
-        error: error.message,
-      });
+      this.eventEmitter.emit(
+        'deployment.recovered',
+        new DeploymentRecoveredEvent(
+          environment.userId,
+          deployment.id,
+          environment.name,
+          serviceName,
+          'failed',
+          error.message,
+        ),
+      );
 
       throw error;
     }
   }
 
-  private buildServiceName(deployment: any): string {
-    return `${deployment.environment.name}_${deployment.service.name}_${deployment.id}`;
-  }
+  private async ensureNetwork(environment: Environment): Promise<void> {
+    const networkName = environment.overlayNetworkId;
 
-  private buildNetworkName(environment: any): string {
-    return `${environment.name}_network`;
-  }
+    if (await this.networkService.networkExists(networkName)) {
+      return;
+    }
+
+    this.logger.warn(`Network ${networkName} does not exist, creating it...`);
 
-  private buildServiceConfig(deployment: any): any {
-    const serviceName = this.buildServiceName(deployment);
-    const networkName = this.buildNetworkName(deployment.environment);
-
-    // Parse configuration from deployment
-    const config: any = {
-      name: serviceName,
-      image: deployment.image,
-      tag: deployment.tag || 'latest',
-      replicas: deployment.replicas || 1,
-      networks: [networkName],
-      labels: {
-        'deployment.id': deployment.id,
-        'deployment.service': deployment.service.name,
-        'deployment.environment': deployment.environment.name,
+    const network = await this.networkService.createOverlayNetwork(
+      networkName,
+      {
+        'com.deployment-platform.environment': environment.id,
+        'com.deployment-platform.user': environment.userId,
       },
-    };
+    );
 
-    // Add environment variables if configured
-    if (deployment.environmentVariables) {
-      config.env = deployment.environmentVariables;
-    }
+    await this.prisma.environment.update({
+      where: { id: environment.id },
+      data: { dockerNetworkId: network.id },
+    });
+  }
 
-    // Add resource limits if configured
-    if (deployment.cpuLimit) {
-      config.cpuLimit = deployment.cpuLimit;
-    }
-    if (deployment.memoryLimit) {
-      config.memoryLimit = deployment.memoryLimit;
-    }
+  /**
+   * Remove managed services whose deployment no longer exists, e.g. because
+   * it was deleted while the backend was down. Services of unknown
+   * environments are left alone so pointing the backend at an empty
+   * database never tears down a running swarm.
+   */
+  private async removeOrphanedServices(): Promise<void> {
+    const services = await this.containerService.listServices({
+      label: ['com.deployment-platform.managed=true'],
+    });
 
-    // Add domain labels for public access
-    if (deployment.environment.isPublic && deployment.domain) {
-      config.labels['VIRTUAL_HOST'] = deployment.domain;
-      config.labels['LETSENCRYPT_HOST'] = deployment.domain;
-    }
+    for (const service of services) {
+      const serviceName: string = service.Spec.Name;
+      const labels: Record<string, string> = service.Spec.Labels ?? {};
+      const deploymentId = labels['com.deployment-platform.deployment'];
+      const environmentId = labels['com.deployment-platform.environment'];
+
+      if (!deploymentId || !environmentId) {
+        continue;
+      }
+
+      try {
+        const deployment = await this.prisma.deployment.findUnique({
+          where: { id: deploymentId },
+          select: { id: true },
+        });
+
+        if (deployment) {
+          continue;
+        }
+
+        const environment = await this.prisma.environment.findUnique({
+          where: { id: environmentId },
+        });
 
-    return config;
+        if (!environment) {
+          this.logger.warn(
+            `Service ${serviceName} belongs to unknown environment ${environmentId}, leaving it untouched`,
+          );
+          continue;
+        }
+
+        this.logger.warn(
+          `Service ${serviceName} has no deployment record, removing it...`,
+        );
+        await this.containerService.removeService(service.ID);
+
+        this.eventEmitter.emit(
+          'deployment.recovered',
+          new DeploymentRecoveredEvent(
+            environment.userId,
+            deploymentId,
+            environment.name,
+            serviceName,
+            'orphan_removed',
+          ),
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to reconcile service ${serviceName}: ${error.message}`,
+        );
+        // Continue with other services
+      }
+    }
   }
 
   private sleep(ms: number): Promise<void> {
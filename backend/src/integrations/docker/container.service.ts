@@ -1,43 +1,131 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { DockerService } from './docker.service';
 import Docker from 'dockerode';
-import * as Tar from 'tar-stream';
+import { Writable } from 'stream';
+import { Observable } from 'rxjs';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { GitService } from '../git/git.service';
+import type { GitAuth } from '../git/git.service';
+
+// Credentials sent to the daemon for private registry images
+export interface RegistryAuth {
+  username: string;
+  password: string;
+  serveraddress: string;
+}
+
+// Swarm secret mounted as /run/secrets/{name}, with {name}_FILE pointing to it
+export interface ServiceSecret {
+  name: string;
+  secretId: string;
+  secretName: string;
+}
 
 export interface ServiceConfig {
   name: string;
   image: string;
   tag?: string;
+  registryAuth?: RegistryAuth; // Forwarded to the nodes running the tasks
   replicas?: number;
   env?: Record<string, string>;
   ports?: Array<{ container: number; host?: number; protocol?: 'tcp' | 'udp' }>;
   volumes?: Array<{ name: string; path: string; readOnly?: boolean }>;
+  secrets?: ServiceSecret[];
   networks?: string[];
   labels?: Record<string, string>;
   cpuLimit?: number; // In CPU units (1.0 = 1 CPU)
   memoryLimit?: number; // In bytes
+  cpuReservation?: number; // In CPU units
+  memoryReservation?: number; // In bytes
   healthCheck?: {
     test: string[];
-    interval?: number;
+    interval?: number; // Durations in nanoseconds
     timeout?: number;
     retries?: number;
+    startPeriod?: number;
   };
 }
 
+export interface GitBuildOptions {
+  gitUrl: string;
+  imageName: string;
+  tag?: string;
+  branch?: string;
+  auth?: GitAuth; // Credentials of a private repository
+  baseImage?: string;
+  buildContext?: string; // Directory of the repository used as build context
+  dockerfile?: string; // Path relative to the build context
+  buildArgs?: Record<string, string>;
+  target?: string; // Multi-stage build target
+  installCommand?: string;
+  buildCommand?: string;
+  startCommand?: string;
+  onOutput?: (line: string) => void; // Receives every line of build output
+}
+
+// How a repository without a Dockerfile is built, detected from its files
+export interface BuildPlan {
+  stack: 'node' | 'python' | 'go' | 'rust' | 'static' | 'custom';
+  baseImage: string;
+  installCommand?: string;
+  buildCommand?: string;
+  startCommand?: string;
+  port?: number;
+}
+
+export interface GitBuildResult {
+  image: string;
+  buildPlan: BuildPlan | null; // Null when the repository Dockerfile is used
+}
+
+export interface LogOptions {
+  tail?: number;
+  since?: number; // Unix timestamp (seconds)
+  until?: number; // Unix timestamp (seconds)
+  stdout?: boolean;
+  stderr?: boolean;
+}
+
+export interface LogLine {
+  stream: 'stdout' | 'stderr';
+  timestamp?: string;
+  message: string;
+}
+
+// One-shot resource usage of a running task container
+export interface TaskStats {
+  taskId: string;
+  containerId: string;
+  cpuPercent: number; // Of one CPU, 150 means one and a half CPUs busy
+  memoryUsage: number; // Bytes, page cache excluded
+}
+
 @Injectable()
 export class ContainerService {
   private readonly logger = new Logger(ContainerService.name);
   private readonly docker: Docker;
+  private localNodeId: string | null = null;
 
-  constructor(private readonly dockerService: DockerService) {
+  constructor(
+    private readonly dockerService: DockerService,
+    private readonly gitService: GitService,
+  ) {
     this.docker = this.dockerService.getClient();
   }
 
-  async pullImage(image: string, tag = 'latest'): Promise<void> {
+  async pullImage(
+    image: string,
+    tag = 'latest',
+    auth?: RegistryAuth,
+  ): Promise<void> {
     const fullImage = `${image}:${tag}`;
+    const pullOptions = { authconfig: auth };
     this.logger.log(`Pulling image: ${fullImage}`);
 
     return new Promise((resolve, reject) => {
-      this.docker.pull(fullImage, (err: any, stream: any) => {
+      this.docker.pull(fullImage, pullOptions, (err: any, stream: any) => {
         if (err) {
           return reject(err);
         }
@@ -70,119 +158,120 @@ export class ContainerService {
     try {
       this.logger.log(`Creating service: ${config.name}`);
 
-      const fullImage = `${config.image}:${config.tag || 'latest'}`;
-
-      // Build environment variables array
-      const env = config.env
-        ? Object.entries(config.env).map(([key, value]) => `${key}=${value}`)
-        : [];
-
-      // Build port mappings
-      const ports: any[] = [];
-      if (config.ports) {
-        config.ports.forEach((port) => {
-          ports.push({
-            TargetPort: port.container,
-            PublishedPort: port.host,
-            Protocol: port.protocol || 'tcp',
-            PublishMode: port.host ? 'host' : undefined,
-          });
-        });
-      }
-
-      // Build volume mounts
-      const mounts: any[] = [];
-      if (config.volumes) {
-        config.volumes.forEach((volume) => {
-          mounts.push({
-            Type: 'volume',
-            Source: volume.name,
-            Target: volume.path,
-            ReadOnly: volume.readOnly || false,
-          });
-        });
-      }
+      const serviceSpec = this.buildServiceSpec(config);
 
-      // Build networks
-      const networks: any[] = [];
-      if (config.networks) {
-        config.networks.forEach((network) => {
-          networks.push({ Target: network });
-        });
-      }
+      // Like --with-registry-auth, the daemon passes the credentials on to
+      // the nodes that pull the image for the tasks
+      const service = config.registryAuth
+        ? await this.docker.createService(config.registryAuth, serviceSpec)
+        : await this.docker.createService(serviceSpec);
+      this.logger.log(`Service created: ${config.name} (ID: ${service.id})`);
 
-      // Build health check
-      let healthCheck: any = undefined;
-      if (config.healthCheck) {
-        healthCheck = {
-          Test: config.healthCheck.test,
-          Interval: config.healthCheck.interval || 30000000000, // 30s in nanoseconds
-          Timeout: config.healthCheck.timeout || 10000000000, // 10s in nanoseconds
-          Retries: config.healthCheck.retries || 3,
-        };
-      }
+      return service;
+    } catch (error) {
+      this.logger.error(
+        `Failed to create service ${config.name}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
 
-      // Build resource limits
-      const resources: any = {};
-      if (config.cpuLimit || config.memoryLimit) {
-        resources.Limits = {};
-        if (config.cpuLimit) {
-          resources.Limits.NanoCPUs = Math.floor(config.cpuLimit * 1000000000);
-        }
-        if (config.memoryLimit) {
-          resources.Limits.MemoryBytes = config.memoryLimit;
-        }
-      }
+  async updateService(nameOrId: string, config: ServiceConfig): Promise<void> {
+    try {
+      this.logger.log(`Updating service: ${nameOrId}`);
 
-      const serviceSpec: any = {
-        Name: config.name,
-        TaskTemplate: {
-          ContainerSpec: {
-            Image: fullImage,
-            Env: env.length > 0 ? env : undefined,
-            Mounts: mounts.length > 0 ? mounts : undefined,
-            HealthCheck: healthCheck,
-            // Security options
-            Privileges: {
-              CredentialSpec: null,
-              SELinuxContext: null,
-            },
-          },
-          Resources: Object.keys(resources).length > 0 ? resources : undefined,
-          RestartPolicy: {
-            Condition: 'on-failure',
-            Delay: 5000000000, // 5s in nanoseconds
-            MaxAttempts: 3,
-          },
-          Placement: {},
-          Networks: networks.length > 0 ? networks : undefined,
-        },
-        Mode: {
-          Replicated: {
-            Replicas: config.replicas || 1,
-          },
-        },
-        EndpointSpec: {
-          Ports: ports.length > 0 ? ports : undefined,
-        },
-        Labels: {
-          'com.deployment-platform.managed': 'true',
-          ...config.labels,
-        },
-      };
+      const service = this.docker.getService(nameOrId);
+      const inspection = await service.inspect();
 
-      const service = await this.docker.createService(serviceSpec);
-      this.logger.log(`Service created: ${config.name} (ID: ${service.id})`);
+      // Swarm rejects updates that don't reference the current spec version
+      await service.update({
+        _query: { version: inspection.Version.Index },
+        _body: this.buildServiceSpec(config),
+        authconfig: config.registryAuth,
+      });
 
-      return service;
+      this.logger.log(`Service updated: ${nameOrId}`);
     } catch (error) {
       this.logger.error(
-        `Failed to create service ${config.name}: ${error.message}`,
+        `Failed to update service ${nameOrId}: ${error.message}`,
       );
       throw error;
     }
   }
 
+  /**
+   * Point the mounts of a secret at a new Swarm secret, which rolls the
+   * service's tasks. The rest of the spec is left as is.
+   */
+  async replaceServiceSecret(
+    nameOrId: string,
+    secret: ServiceSecret,
+  ): Promise<boolean> {
+    const service = this.docker.getService(nameOrId);
+    const inspection = await service.inspect();
+    const spec = inspection.Spec;
+    const secrets: any[] = spec.TaskTemplate?.ContainerSpec?.Secrets ?? [];
+
+    const mounts = secrets.filter((mount) => mount.File?.Name === secret.name);
+    if (mounts.length === 0) {
+      return false;
+    }
+
+    for (const mount of mounts) {
+      mount.SecretID = secret.secretId;
+      mount.SecretName = secret.secretName;
+    }
+
+    this.logger.log(`Rolling service ${nameOrId} to ${secret.secretName}`);
+    await service.update({
+      _query: { version: inspection.Version.Index },
+      _body: spec,
+    });
+
+    return true;
+  }
+
+  /**
+   * Change the replica count of a replicated service. The task template is
+   * left untouched, so running tasks are kept.
+   */
+  async scaleService(nameOrId: string, replicas: number): Promise<void> {
+    const service = this.docker.getService(nameOrId);
+    const inspection = await service.inspect();
+    const spec = inspection.Spec;
+
+    if (!spec.Mode?.Replicated) {
+      throw new Error(`Service ${nameOrId} is not a replicated service`);
+    }
+
+    spec.Mode.Replicated.Replicas = replicas;
+
+    this.logger.log(`Scaling service ${nameOrId} to ${replicas} replicas`);
+    await service.update({
+      _query: { version: inspection.Version.Index },
+      _body: spec,
+    });
+  }
+
+  /**
+   * Replace every task of a service with a fresh one, following the service's
+   * update config. Bumping ForceUpdate is the only way to do so without
+   * changing the spec.
+   */
+  async restartService(nameOrId: string): Promise<void> {
+    const service = this.docker.getService(nameOrId);
+    const inspection = await service.inspect();
+    const spec = inspection.Spec;
+
+    spec.TaskTemplate.ForceUpdate = (spec.TaskTemplate.ForceUpdate ?? 0) + 1;
+
+    this.logger.log(`Restarting the tasks of service ${nameOrId}`);
+    await service.update({
+      _query: { version: inspection.Version.Index },
+      _body: spec,
+    });
+  }
+
   async getService(nameOrId: string): Promise<Docker.Service | null> {
     try {
       const service = this.docker.getService(nameOrId);
@@ -246,6 +335,191 @@ export class ContainerService {
     }
   }
 
+  /**
+   * Sample CPU and memory usage of the running tasks of a service through the
+   * Docker stats API. Only containers on the node the API talks to can be
+   * read, tasks on other nodes are left out of the sample.
+   */
+  async getServiceStats(serviceName: string): Promise<TaskStats[]> {
+    const tasks = await this.docker.listTasks({
+      filters: { service: [serviceName], 'desired-state': ['running'] },
+    });
+
+    if (!this.localNodeId) {
+      const info = await this.docker.info();
+      this.localNodeId = (info.Swarm?.NodeID as string) || null;
+    }
+
+    const stats: TaskStats[] = [];
+    let remote = 0;
+    for (const task of tasks) {
+      const containerId: string | undefined =
+        task.Status?.ContainerStatus?.ContainerID;
+      if (task.Status?.State !== 'running' || !containerId) {
+        continue;
+      }
+
+      if (this.localNodeId && task.NodeID !== this.localNodeId) {
+        remote++;
+        continue;
+      }
+
+      try {
+        const sample: any = await this.docker
+          .getContainer(containerId)
+          .stats({ stream: false });
+
+        const cpuDelta =
+          sample.cpu_stats.cpu_usage.total_usage -
+          sample.precpu_stats.cpu_usage.total_usage;
+        const systemDelta =
+          sample.cpu_stats.system_cpu_usage -
+          (sample.precpu_stats.system_cpu_usage ?? 0);
+        const onlineCpus =
+          sample.cpu_stats.online_cpus ??
+          sample.cpu_stats.cpu_usage.percpu_usage?.length ??
+          1;
+        const cache =
+          sample.memory_stats.stats?.inactive_file ??
+          sample.memory_stats.stats?.cache ??
+          0;
+
+        stats.push({
+          taskId: task.ID,
+          containerId,
+          cpuPercent:
+            systemDelta > 0 ? (cpuDelta / systemDelta) * onlineCpus * 100 : 0,
+          memoryUsage: Math.max((sample.memory_stats.usage ?? 0) - cache, 0),
+        });
+      } catch (error) {
+        if (error.statusCode === 404) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    if (remote > 0) {
+      this.logger.debug(
+        `Skipped ${remote} task(s) of service ${serviceName} running on other nodes`,
+      );
+    }
+
+    return stats;
+  }
+
+  async waitForServiceHealthy(
+    nameOrId: string,
+    replicas: number,
+    timeoutMs = 120000,
+    intervalMs = 2000,
+  ): Promise<void> {
+    this.logger.log(`Waiting for service ${nameOrId} to become healthy`);
+    const deadline = Date.now() + timeoutMs;
+
+    // Error of the latest failed task, e.g. a failing health check
+    let lastError: string | undefined;
+
+    while (Date.now() < deadline) {
+      const tasks = await this.docker.listTasks({
+        filters: { service: [nameOrId] },
+      });
+
+      // Swarm only reports a task as running once its health check passes
+      const running = tasks.filter(
+        (task: any) =>
+          task.DesiredState === 'running' && task.Status?.State === 'running',
+      ).length;
+
+      const failed = tasks
+        .filter((task: any) => task.Status?.Err)
+        .sort((a: any, b: any) =>
+          (b.Status.Timestamp ?? '').localeCompare(a.Status.Timestamp ?? ''),
+        );
+      lastError = failed[0]?.Status.Err ?? lastError;
+
+      if (running >= replicas) {
+        this.logger.log(
+          `Service ${nameOrId} is healthy (${running}/${replicas} tasks running)`,
+        );
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+
+    throw new Error(
+      `Service ${nameOrId} did not become healthy within ${timeoutMs / 1000}s` +
+        (lastError ? `: ${lastError}` : ''),
+    );
+  }
+
+  /**
+   * Wait until Swarm has finished rolling out the latest change of a service.
+   * Fails when the rollout is paused or rolled back, e.g. because new tasks
+   * keep failing.
+   */
+  async waitForServiceUpdated(
+    nameOrId: string,
+    timeoutMs = 120000,
+    intervalMs = 2000,
+  ): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const inspection = await this.docker.getService(nameOrId).inspect();
+      const state: string | undefined = inspection.UpdateStatus?.State;
+
+      if (!state || state === 'completed') {
+        return;
+      }
+
+      if (state === 'paused' || state.startsWith('rollback')) {
+        throw new Error(
+          `Update of service ${nameOrId} ${state.replace('_', ' ')}` +
+            (inspection.UpdateStatus?.Message
+              ? `: ${inspection.UpdateStatus.Message}`
+              : ''),
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+
+    throw new Error(
+      `Update of service ${nameOrId} did not complete within ${timeoutMs / 1000}s`,
+    );
+  }
+
+  /**
+   * Wait until no task of a service is running any more, e.g. after scaling
+   * it to zero.
+   */
+  async waitForServiceStopped(
+    nameOrId: string,
+    timeoutMs = 60000,
+    intervalMs = 2000,
+  ): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const tasks = await this.docker.listTasks({
+        filters: { service: [nameOrId] },
+      });
+
+      if (!tasks.some((task: any) => task.Status?.State === 'running')) {
+        this.logger.log(`Service ${nameOrId} has no running tasks`);
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+
+    throw new Error(
+      `Tasks of service ${nameOrId} did not stop within ${timeoutMs / 1000}s`,
+    );
+  }
+
   async removeService(nameOrId: string): Promise<void> {
     try {
       this.logger.log(`Removing service: ${nameOrId}`);
@@ -264,17 +538,18 @@ export class ContainerService {
     }
   }
 
-  async getServiceLogs(nameOrId: string, tail = 100): Promise<string> {
+  async getServiceLogs(
+    nameOrId: string,
+    options: LogOptions = {},
+  ): Promise<LogLine[]> {
     try {
       const service = this.docker.getService(nameOrId);
       const logs = await service.logs({
-        stdout: true,
-        stderr: true,
-        tail,
-        timestamps: true,
+        ...this.buildLogParams(options),
+        follow: false,
       });
 
-      return logs.toString();
+      return this.demuxLogBuffer(logs as unknown as Buffer);
     } catch (error) {
       this.logger.error(
         `Failed to get logs for service ${nameOrId}: ${error.message}`,
@@ -283,6 +558,57 @@ export class ContainerService {
     }
   }
 
+  /**
+   * Follow service logs, emitting demultiplexed lines as they are written.
+   * Unsubscribing closes the underlying Docker stream.
+   */
+  followServiceLogs(
+    nameOrId: string,
+    options: LogOptions = {},
+  ): Observable<LogLine> {
+    return new Observable<LogLine>((subscriber) => {
+      let logStream: NodeJS.ReadableStream | undefined;
+      let closed = false;
+
+      this.docker
+        .getService(nameOrId)
+        .logs({ ...this.buildLogParams(options), follow: true })
+        .then((stream) => {
+          if (closed) {
+            (stream as any).destroy?.();
+            return;
+          }
+          logStream = stream;
+
+          const stdout = this.createLineWriter('stdout', (line) =>
+            subscriber.next(line),
+          );
+          const stderr = this.createLineWriter('stderr', (line) =>
+            subscriber.next(line),
+          );
+          this.docker.modem.demuxStream(stream, stdout, stderr);
+
+          stream.on('end', () => {
+            stdout.end();
+            stderr.end();
+            subscriber.complete();
+          });
+          stream.on('error', (error) => subscriber.error(error));
+        })
+        .catch((error) => {
+          this.logger.error(
+            `Failed to follow logs for service ${nameOrId}: ${error.message}`,
+          );
+          subscriber.error(error);
+        });
+
+      return () => {
+        closed = true;
+        (logStream as any)?.destroy?.();
+      };
+    });
+  }
+
   async listServices(filters?: any): Promise<any[]> {
     try {
       const services = await this.docker.listServices({ filters });
@@ -302,72 +628,479 @@ export class ContainerService {
     }
   }
 
-  async buildImageFromGit(options: {
-    gitUrl: string;
-    imageName: string;
-    tag?: string;
-    branch?: string;
-    baseImage?: string;
-    buildContext?: string;
-    dockerfile?: string;
-    installCommand?: string;
-    buildCommand?: string;
-    startCommand?: string;
-  }): Promise<string> {
+  /**
+   * Clone a repository into a temporary build context and build it. Uses the
+   * repository's Dockerfile when it has one, otherwise generates a Dockerfile
+   * from the base image and commands.
+   */
+  async buildImageFromGit(options: GitBuildOptions): Promise<GitBuildResult> {
     const {
       gitUrl,
       imageName,
       tag = 'latest',
       branch = 'main',
-      baseImage = 'node:22',
+      auth,
+      baseImage,
+      buildContext = '.',
+      dockerfile,
+      buildArgs,
+      target,
       installCommand,
       buildCommand,
       startCommand,
+      onOutput = (line: string) => this.logger.debug(line),
     } = options;
 
     const fullImageName = `${imageName}:${tag}`;
     this.logger.log(`Building image from Git: ${gitUrl} (branch: ${branch})`);
 
+    const workdir = await fs.mkdtemp(path.join(os.tmpdir(), 'git-build-'));
+
     try {
-      const dockerfileContent = this.generateDockerfile({
-        gitUrl,
-        branch,
-        baseImage,
-        installCommand,
-        buildCommand,
-        startCommand,
-      });
+      const repoDir = path.join(workdir, 'repo');
+      onOutput(`Cloning ${gitUrl} (branch: ${branch})`);
+      await this.gitService.clone(gitUrl, branch, repoDir, auth);
+
+      // History is not part of the build context
+      await fs.rm(path.join(repoDir, '.git'), { recursive: true, force: true });
+
+      const contextDir = this.resolveRepoPath(repoDir, buildContext);
+      const dockerfilePath = dockerfile ?? 'Dockerfile';
+      this.resolveRepoPath(repoDir, path.join(buildContext, dockerfilePath));
+
+      let buildPlan: BuildPlan | null = null;
+
+      if (await this.fileExists(path.join(contextDir, dockerfilePath))) {
+        onOutput(`Using ${dockerfilePath} from the repository`);
+      } else if (dockerfile) {
+        throw new Error(
+          `Dockerfile ${dockerfile} not found in build context ${buildContext}`,
+        );
+      } else {
+        const detected = await this.detectBuildPlan(contextDir);
+
+        // Options given with the deployment override the detected plan
+        const plan = {
+          stack: detected?.stack ?? 'custom',
+          baseImage: baseImage ?? detected?.baseImage,
+          installCommand: installCommand ?? detected?.installCommand,
+          buildCommand: buildCommand ?? detected?.buildCommand,
+          startCommand: startCommand ?? detected?.startCommand,
+          port: detected?.port,
+        };
+
+        if (!plan.baseImage) {
+          throw new Error(
+            'Could not detect the stack of the repository, add a Dockerfile or set baseImage and the build commands',
+          );
+        }
+
+        if (plan.stack !== 'static' && !plan.startCommand) {
+          throw new Error(
+            `Could not detect how to start the ${plan.stack} application, set startCommand`,
+          );
+        }
+
+        buildPlan = { ...plan, baseImage: plan.baseImage };
+        onOutput(
+          `No Dockerfile in the repository, generating one for a ${buildPlan.stack} application (${buildPlan.baseImage})`,
+        );
+
+        const dockerfileContent = this.generateDockerfile(buildPlan);
+        await fs.writeFile(
+          path.join(contextDir, dockerfilePath),
+          dockerfileContent,
+        );
+      }
 
-      const tarStream = this.createTarStream(dockerfileContent);
-      const result = await this.buildImageFromStream(tarStream, fullImageName);
+      const result = await this.buildImageFromStream(
+        { context: contextDir, src: await this.listContextFiles(contextDir) },
+        fullImageName,
+        onOutput,
+        {
+          dockerfile: dockerfilePath,
+          buildargs: buildArgs,
+          target,
+        },
+      );
       this.logger.log(`Image built successfully: ${result}`);
-      return result;
+      return { image: result, buildPlan };
     } catch (error) {
       this.logger.error(`Failed to build image from Git: ${error.message}`);
       throw error;
+    } finally {
+      await fs.rm(workdir, { recursive: true, force: true });
+    }
+  }
+
+  private buildServiceSpec(config: ServiceConfig): any {
+    const fullImage = `${config.image}:${config.tag || 'latest'}`;
+
+    // Build environment variables array
+    const env = config.env
+      ? Object.entries(config.env).map(([key, value]) => `${key}=${value}`)
+      : [];
+
+    // Build port mappings
+    const ports: any[] = [];
+    if (config.ports) {
+      config.ports.forEach((port) => {
+        ports.push({
+          TargetPort: port.container,
+          PublishedPort: port.host,
+          Protocol: port.protocol || 'tcp',
+          PublishMode: port.host ? 'host' : undefined,
+        });
+      });
+    }
+
+    // Build volume mounts
+    const mounts: any[] = [];
+    if (config.volumes) {
+      config.volumes.forEach((volume) => {
+        mounts.push({
+          Type: 'volume',
+          Source: volume.name,
+          Target: volume.path,
+          ReadOnly: volume.readOnly || false,
+        });
+      });
+    }
+
+    // Build secret mounts, readable by the non-root users of generated images
+    const secrets: any[] = [];
+    if (config.secrets) {
+      config.secrets.forEach((secret) => {
+        secrets.push({
+          File: { Name: secret.name, UID: '0', GID: '0', Mode: 0o444 },
+          SecretID: secret.secretId,
+          SecretName: secret.secretName,
+        });
+        env.push(`${secret.name}_FILE=/run/secrets/${secret.name}`);
+      });
+    }
+
+    // Build networks
+    const networks: any[] = [];
+    if (config.networks) {
+      config.networks.forEach((network) => {
+        networks.push({ Target: network });
+      });
+    }
+
+    // Build health check
+    let healthCheck: any = undefined;
+    if (config.healthCheck) {
+      healthCheck = {
+        Test: config.healthCheck.test,
+        Interval: config.healthCheck.interval || 30000000000, // 30s in nanoseconds
+        Timeout: config.healthCheck.timeout || 10000000000, // 10s in nanoseconds
+        Retries: config.healthCheck.retries || 3,
+        StartPeriod: config.healthCheck.startPeriod || 0,
+      };
+    }
+
+    // Build resource limits
+    const resources: any = {};
+    if (config.cpuLimit || config.memoryLimit) {
+      resources.Limits = {};
+      if (config.cpuLimit) {
+        resources.Limits.NanoCPUs = Math.floor(config.cpuLimit * 1000000000);
+      }
+      if (config.memoryLimit) {
+        resources.Limits.MemoryBytes = config.memoryLimit;
+      }
+    }
+    if (config.cpuReservation || config.memoryReservation) {
+      resources.Reservations = {};
+      if (config.cpuReservation) {
+        resources.Reservations.NanoCPUs = Math.floor(
+          config.cpuReservation * 1000000000,
+        );
+      }
+      if (config.memoryReservation) {
+        resources.Reservations.MemoryBytes = config.memoryReservation;
+      }
+    }
+
+    return {
+      Name: config.name,
+      TaskTemplate: {
+        ContainerSpec: {
+          Image: fullImage,
+          Env: env.length > 0 ? env : undefined,
+          Mounts: mounts.length > 0 ? mounts : undefined,
+          Secrets: secrets.length > 0 ? secrets : undefined,
+          HealthCheck: healthCheck,
+          // Security options
+          Privileges: {
+            CredentialSpec: null,
+            SELinuxContext: null,
+          },
+        },
+        Resources: Object.keys(resources).length > 0 ? resources : undefined,
+        RestartPolicy: {
+          Condition: 'on-failure',
+          Delay: 5000000000, // 5s in nanoseconds
+          MaxAttempts: 3,
+        },
+        Placement: {},
+        Networks: networks.length > 0 ? networks : undefined,
+      },
+      Mode: {
+        Replicated: {
+          Replicas: config.replicas || 1,
+        },
+      },
+      EndpointSpec: {
+        Ports: ports.length > 0 ? ports : undefined,
+      },
+      Labels: {
+        'com.deployment-platform.managed': 'true',
+        ...config.labels,
+      },
+    };
+  }
+
+  private buildLogParams(options: LogOptions) {
+    return {
+      stdout: options.stdout ?? true,
+      stderr: options.stderr ?? true,
+      tail: options.tail ?? 100,
+      since: options.since,
+      until: options.until,
+      timestamps: true,
+    };
+  }
+
+  /**
+   * Split Docker's multiplexed log format: every frame starts with an 8 byte
+   * header holding the stream type (1 = stdout, 2 = stderr) and the payload size.
+   */
+  private demuxLogBuffer(buffer: Buffer): LogLine[] {
+    const lines: LogLine[] = [];
+    const pending = { stdout: '', stderr: '' };
+    let offset = 0;
+
+    while (offset + 8 <= buffer.length) {
+      const type = buffer[offset];
+      const size = buffer.readUInt32BE(offset + 4);
+      const stream = type === 2 ? 'stderr' : 'stdout';
+      pending[stream] += buffer.toString('utf8', offset + 8, offset + 8 + size);
+      offset += 8 + size;
+
+      const parts = pending[stream].split('\n');
+      pending[stream] = parts.pop() ?? '';
+      for (const part of parts) {
+        lines.push(this.parseLogLine(stream, part));
+      }
+    }
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (pending[stream]) {
+        lines.push(this.parseLogLine(stream, pending[stream]));
+      }
+    }
+
+    return lines;
+  }
+
+  private createLineWriter(
+    stream: LogLine['stream'],
+    onLine: (line: LogLine) => void,
+  ): Writable {
+    let pending = '';
+
+    return new Writable({
+      write: (chunk: Buffer, _encoding, callback) => {
+        const parts = (pending + chunk.toString('utf8')).split('\n');
+        pending = parts.pop() ?? '';
+        for (const part of parts) {
+          onLine(this.parseLogLine(stream, part));
+        }
+        callback();
+      },
+      final: (callback) => {
+        if (pending) {
+          onLine(this.parseLogLine(stream, pending));
+        }
+        callback();
+      },
+    });
+  }
+
+  private parseLogLine(stream: LogLine['stream'], raw: string): LogLine {
+    // Lines are prefixed with an RFC3339 timestamp because timestamps: true
+    const line = raw.replace(/\r$/, '');
+    const match = line.match(/^(\d{4}-\d{2}-\d{2}T\S+Z) (.*)$/s);
+
+    return match
+      ? { stream, timestamp: match[1], message: match[2] }
+      : { stream, message: line };
+  }
+
+  // Resolve a path of the repository, rejecting paths that escape it
+  private resolveRepoPath(repoDir: string, relativePath: string): string {
+    const resolved = path.resolve(repoDir, relativePath);
+    const relative = path.relative(repoDir, resolved);
+
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Path ${relativePath} is outside the repository`);
     }
+
+    return resolved;
   }
 
-  private createTarStream(dockerfileContent: string): Tar.Pack {
-    const pack = Tar.pack();
-    pack.entry({ name: 'Dockerfile' }, dockerfileContent);
-    pack.finalize();
-    return pack;
+  /**
+   * Detect the stack of a repository without a Dockerfile from its manifest
+   * files. Returns null when no known stack matches.
+   */
+  private async detectBuildPlan(contextDir: string): Promise<BuildPlan | null> {
+    const has = (name: string) => this.fileExists(path.join(contextDir, name));
+    const read = (name: string) =>
+      fs.readFile(path.join(contextDir, name), 'utf8');
+
+    if (await has('package.json')) {
+      let pkg: {
+        main?: string;
+        scripts?: Record<string, string>;
+      } = {};
+      try {
+        pkg = JSON.parse(await read('package.json'));
+      } catch {
+        // Invalid manifest, fall back to the defaults below
+      }
+
+      let packageManager: string;
+      let installCommand: string;
+      if (await has('pnpm-lock.yaml')) {
+        packageManager = 'corepack pnpm';
+        installCommand = 'corepack pnpm install --frozen-lockfile';
+      } else if (await has('yarn.lock')) {
+        packageManager = 'yarn';
+        installCommand = 'yarn install --frozen-lockfile';
+      } else {
+        packageManager = 'npm';
+        installCommand = (await has('package-lock.json'))
+          ? 'npm ci'
+          : 'npm install';
+      }
+
+      return {
+        stack: 'node',
+        baseImage: 'node:22',
+        installCommand,
+        buildCommand: pkg.scripts?.build
+          ? `${packageManager} run build`
+          : undefined,
+        startCommand: pkg.scripts?.start
+          ? `${packageManager} start`
+          : `node ${pkg.main ?? 'index.js'}`,
+        port: 3000,
+      };
+    }
+
+    const hasRequirements = await has('requirements.txt');
+    if (hasRequirements || (await has('pyproject.toml'))) {
+      let startCommand: string | undefined;
+      if (await has('manage.py')) {
+        startCommand = 'python manage.py runserver 0.0.0.0:8000';
+      } else {
+        for (const entrypoint of ['app.py', 'main.py', 'server.py']) {
+          if (await has(entrypoint)) {
+            startCommand = `python ${entrypoint}`;
+            break;
+          }
+        }
+      }
+
+      return {
+        stack: 'python',
+        baseImage: 'python:3.12-slim',
+        installCommand: hasRequirements
+          ? 'pip install --no-cache-dir -r requirements.txt'
+          : 'pip install --no-cache-dir .',
+        startCommand,
+        port: 8000,
+      };
+    }
+
+    if (await has('go.mod')) {
+      const version = /^go (\d+\.\d+)/m.exec(await read('go.mod'))?.[1];
+
+      return {
+        stack: 'go',
+        baseImage: `golang:${version ?? '1'}`,
+        buildCommand: 'go build -o app .',
+        startCommand: './app',
+        port: 8080,
+      };
+    }
+
+    if (await has('Cargo.toml')) {
+      const name = /^\s*name\s*=\s*"([^"]+)"/m.exec(
+        await read('Cargo.toml'),
+      )?.[1];
+
+      return {
+        stack: 'rust',
+        baseImage: 'rust:1',
+        buildCommand: 'cargo build --release',
+        startCommand: name ? `./target/release/${name}` : undefined,
+        port: 8080,
+      };
+    }
+
+    if (await has('index.html')) {
+      return {
+        stack: 'static',
+        baseImage: 'nginx:alpine',
+        port: 80,
+      };
+    }
+
+    return null;
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      return (await fs.stat(filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  // Files of the build context relative to it, filtered by .dockerignore when packed
+  private async listContextFiles(contextDir: string): Promise<string[]> {
+    const entries = await fs.readdir(contextDir, {
+      recursive: true,
+      withFileTypes: true,
+    });
+
+    return entries
+      .filter((entry) => !entry.isDirectory())
+      .map((entry) =>
+        path.relative(contextDir, path.join(entry.parentPath, entry.name)),
+      );
   }
 
   private async buildImageFromStream(
-    tarStream: Tar.Pack,
+    buildContext: NodeJS.ReadableStream | Docker.ImageBuildContext,
     imageName: string,
+    onOutput: (line: string) => void = (line) => this.logger.debug(line),
+    buildOptions: Omit<Docker.ImageBuildOptions, 't'> = {},
   ): Promise<string> {
     return new Promise((resolve, reject) => {
       let buildSucceeded = false;
       let imageTagged = false;
       let buildFailed = false;
       let errorMessage = '';
+      let pending = '';
 
       this.docker.buildImage(
-        tarStream,
+        buildContext,
         {
+          ...buildOptions,
           t: imageName,
         },
         (err: any, stream: any) => {
@@ -381,13 +1114,12 @@ export class ContainerService {
             return reject(new Error('No response stream from Docker'));
           }
 
-          // Pipe stream to process stdout for logging
-          stream.pipe(process.stdout);
-
-          // Parse stream events to detect success/failure
+          // Parse stream events to forward output and detect success/failure.
+          // Events are newline-delimited JSON that may span several chunks.
           stream.on('data', (chunk: Buffer) => {
             try {
-              const lines = chunk.toString().split('\n');
+              const lines = (pending + chunk.toString()).split('\n');
+              pending = lines.pop() ?? '';
               for (const line of lines) {
                 if (!line.trim()) continue;
 
@@ -397,6 +1129,12 @@ export class ContainerService {
                   if (event.stream) {
                     const streamText = event.stream;
 
+                    for (const outputLine of streamText.split('\n')) {
+                      if (outputLine.trim()) {
+                        onOutput(outputLine.replace(/\r$/, ''));
+                      }
+                    }
+
                     if (streamText.includes('Successfully built')) {
                       buildSucceeded = true;
                     }
@@ -406,6 +1144,13 @@ export class ContainerService {
                     }
                   }
 
+                  // Base image pulls report progress, only keep the final states
+                  if (event.status && !event.progressDetail?.current) {
+                    onOutput(
+                      event.id ? `${event.id}: ${event.status}` : event.status,
+                    );
+                  }
+
                   if (event.error || event.errorDetail) {
                     buildFailed = true;
                     errorMessage =
@@ -413,6 +1158,7 @@ export class ContainerService {
                       event.errorDetail.message ||
                       'Build failed';
                     this.logger.error(`Build error: ${errorMessage}`);
+                    onOutput(`ERROR: ${errorMessage}`);
                   }
                 } catch (parseError) {
                   // Not JSON, skip
@@ -455,22 +1201,18 @@ export class ContainerService {
     });
   }
 
-  private generateDockerfile(options: {
-    gitUrl: string;
-    branch: string;
-    baseImage: string;
-    installCommand?: string;
-    buildCommand?: string;
-    startCommand?: string;
-  }): string {
-    const {
-      gitUrl,
-      branch,
-      baseImage,
-      installCommand,
-      buildCommand,
-      startCommand,
-    } = options;
+  private generateDockerfile(plan: BuildPlan): string {
+    const { baseImage, installCommand, buildCommand, startCommand, port } =
+      plan;
+
+    // Static sites are served as is by the base web server
+    if (plan.stack === 'static' && !buildCommand && !startCommand) {
+      let dockerfile = `FROM ${baseImage}\n\n`;
+      dockerfile += `# Copy site\n`;
+      dockerfile += `COPY . /usr/share/nginx/html\n\n`;
+      dockerfile += `EXPOSE ${port ?? 80}\n`;
+      return dockerfile;
+    }
 
     const workdir = '/app';
 
@@ -479,54 +1221,47 @@ export class ContainerService {
 
     let dockerfile = `FROM ${baseImage}\n\n`;
 
-    // Clone the repository inside Docker
-    dockerfile += `# Clone repository\n`;
-    if (isAlpine) {
-      dockerfile += `RUN apk add --no-cache git && \\\n`;
-    } else {
-      dockerfile += `RUN apt-get update && apt-get install -y git && rm -rf /var/lib/apt/lists/* && \\\n`;
-    }
-    dockerfile += `    git clone -b ${branch} ${gitUrl} ${workdir}\n\n`;
-
     dockerfile += `WORKDIR ${workdir}\n\n`;
 
-    // Add non-root user for security
+    // Add non-root user for security, with a home for package manager caches
     dockerfile += `# Add non-root user\n`;
     if (isAlpine) {
-      dockerfile += `RUN addgroup -S appuser && adduser -S appuser -G appuser && \\\n`;
+      dockerfile += `RUN addgroup -S appuser && adduser -S appuser -G appuser\n\n`;
     } else {
-      dockerfile += `RUN groupadd -r appuser && useradd -r -g appuser appuser && \\\n`;
+      dockerfile += `RUN groupadd -r appuser && useradd -r -m -g appuser appuser\n\n`;
     }
-    dockerfile += `    chown -R appuser:appuser ${workdir}\n\n`;
+
+    // Copy the cloned repository
+    dockerfile += `# Copy repository\n`;
+    dockerfile += `COPY --chown=appuser:appuser . ${workdir}\n\n`;
 
     dockerfile += `USER appuser\n\n`;
 
     // Install and build
-    const buildCmd =
-      installCommand && buildCommand
-        ? `${installCommand} && ${buildCommand}`
-        : buildCommand
-          ? buildCommand
-          : installCommand
-            ? installCommand
-            : 'yarn install && yarn run build';
-
-    dockerfile += `# Install dependencies and build\n`;
-    dockerfile += `RUN ${buildCmd}\n\n`;
+    const buildCmd = [installCommand, buildCommand]
+      .filter((command) => !!command)
+      .join(' && ');
+
+    if (buildCmd) {
+      dockerfile += `# Install dependencies and build\n`;
+      dockerfile += `RUN ${buildCmd}\n\n`;
+    }
 
     // Expose port
-    dockerfile += `EXPOSE 3000\n\n`;
+    if (port) {
+      dockerfile += `EXPOSE ${port}\n\n`;
+    }
 
     // Start command
-    const cmdArray = startCommand
-      ? startCommand
-          .split(' ')
-          .map((s) => `"${s}"`)
-          .join(', ')
-      : '"yarn", "start"';
-
-    dockerfile += `# Start application\n`;
-    dockerfile += `CMD [${cmdArray}]\n`;
+    if (startCommand) {
+      const cmdArray = startCommand
+        .split(' ')
+        .map((s) => `"${s}"`)
+        .join(', ');
+
+      dockerfile += `# Start application\n`;
+      dockerfile += `CMD [${cmdArray}]\n`;
+    }
 
     return dockerfile;
   }
@@ -3,9 +3,24 @@ import { DockerService } from './docker.service';
 import { NetworkService } from './network.service';
 import { ContainerService } from './container.service';
 import { VolumeService } from './volume.service';
+import { SecretService } from './secret.service';
+import { GitModule } from '../git/git.module';
 
 @Module({
-  providers: [DockerService, NetworkService, ContainerService, VolumeService],
-  exports: [DockerService, NetworkService, ContainerService, VolumeService],
+  imports: [GitModule],
+  providers: [
+    DockerService,
+    NetworkService,
+    ContainerService,
+    VolumeService,
+    SecretService,
+  ],
+  exports: [
+    DockerService,
+    NetworkService,
+    ContainerService,
+    VolumeService,
+    SecretService,
+  ],
 })
 export class DockerModule {}
@@ -0,0 +1,106 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DockerService } from './docker.service';
+import Docker from 'dockerode';
+
+@Injectable()
+export class SecretService {
+  private readonly logger = new Logger(SecretService.name);
+  private readonly docker: Docker;
+
+  constructor(private readonly dockerService: DockerService) {
+    this.docker = this.dockerService.getClient();
+  }
+
+  /**
+   * Create a Swarm secret and return its ID. Swarm secrets are immutable, a
+   * new value needs a new secret name.
+   */
+  async createSecret(
+    name: string,
+    value: string,
+    labels?: Record<string, string>,
+  ): Promise<string> {
+    try {
+      this.logger.log(`Creating secret: ${name}`);
+
+      const secret = await this.docker.createSecret({
+        Name: name,
+        Data: Buffer.from(value, 'utf8').toString('base64'),
+        Labels: {
+          'com.deployment-platform.managed': 'true',
+          ...labels,
+        },
+      });
+
+      this.logger.log(`Secret created: ${name}`);
+      return secret.id;
+    } catch (error) {
+      if (error.statusCode === 409) {
+        // Left behind by an interrupted request, same name means same value
+        this.logger.warn(`Secret already exists: ${name}`);
+        const existing = await this.docker.getSecret(name).inspect();
+        return existing.ID;
+      }
+      this.logger.error(`Failed to create secret ${name}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  async secretExists(nameOrId: string): Promise<boolean> {
+    try {
+      await this.docker.getSecret(nameOrId).inspect();
+      return true;
+    } catch (error) {
+      if (error.statusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a Swarm secret. Returns false when it is still referenced by a
+   * service, in which case it is left in place.
+   */
+  async deleteSecret(nameOrId: string): Promise<boolean> {
+    try {
+      this.logger.log(`Deleting secret: ${nameOrId}`);
+      await this.docker.getSecret(nameOrId).remove();
+      this.logger.log(`Secret deleted: ${nameOrId}`);
+      return true;
+    } catch (error) {
+      if (error.statusCode === 404) {
+        this.logger.warn(`Secret not found: ${nameOrId}`);
+        return true;
+      }
+      if (error.statusCode === 400 || error.statusCode === 409) {
+        // Swarm refuses to delete secrets referenced by a service
+        this.logger.warn(`Secret is in use and cannot be deleted: ${nameOrId}`);
+        return false;
+      }
+      this.logger.error(
+        `Failed to delete secret ${nameOrId}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  async listSecrets(environmentId?: string): Promise<any[]> {
+    try {
+      const filters: any = {
+        label: ['com.deployment-platform.managed=true'],
+      };
+
+      if (environmentId) {
+        filters.label.push(
+          `com.deployment-platform.environment=${environmentId}`,
+        );
+      }
+
+      return await this.docker.listSecrets({ filters });
+    } catch (error) {
+      this.logger.error(`Failed to list secrets: ${error.message}`);
+      throw error;
+    }
+  }
+}
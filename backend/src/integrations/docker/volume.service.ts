@@ -1,4 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { DockerService } from './docker.service';
 import Docker from 'dockerode';
 
@@ -7,7 +8,10 @@ export class VolumeService {
   private readonly logger = new Logger(VolumeService.name);
   private readonly docker: Docker;
 
-  constructor(private readonly dockerService: DockerService) {
+  constructor(
+    private readonly dockerService: DockerService,
+    private readonly configService: ConfigService,
+  ) {
     this.docker = this.dockerService.getClient();
   }
 
@@ -99,4 +103,76 @@ export class VolumeService {
       throw error;
     }
   }
+
+  /**
+   * Copy the contents of a volume into another one with a short-lived helper
+   * container, keeping ownership and permissions. Both volumes must be
+   * reachable from this node.
+   */
+  async copyVolume(source: string, target: string): Promise<void> {
+    const image = this.configService.get<string>(
+      'docker.volumeCopyImage',
+      'alpine:3.20',
+    );
+    this.logger.log(`Copying volume ${source} to ${target}`);
+
+    await this.ensureImage(image);
+
+    const container = await this.docker.createContainer({
+      Image: image,
+      Cmd: ['sh', '-c', 'cp -a /from/. /to/'],
+      Labels: { 'com.deployment-platform.managed': 'true' },
+      HostConfig: {
+        Binds: [`${source}:/from:ro`, `${target}:/to`],
+      },
+    });
+
+    try {
+      await container.start();
+      const { StatusCode } = await container.wait();
+
+      if (StatusCode !== 0) {
+        const logs = await container.logs({
+          stdout: true,
+          stderr: true,
+          tail: 20,
+        });
+        throw new Error(
+          `Copy exited with code ${StatusCode}: ${logs.toString('utf8').trim()}`,
+        );
+      }
+
+      this.logger.log(`Volume ${source} copied to ${target}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to copy volume ${source} to ${target}: ${error.message}`,
+      );
+      throw error;
+    } finally {
+      await container.remove({ force: true }).catch((error) => {
+        this.logger.warn(
+          `Failed to remove copy container ${container.id}: ${error.message}`,
+        );
+      });
+    }
+  }
+
+  private async ensureImage(image: string): Promise<void> {
+    try {
+      await this.docker.getImage(image).inspect();
+      return;
+    } catch (error) {
+      if (error.statusCode !== 404) {
+        throw error;
+      }
+    }
+
+    this.logger.log(`Pulling image: ${image}`);
+    const stream = await this.docker.pull(image);
+    await new Promise((resolve, reject) => {
+      this.docker.modem.followProgress(stream, (err: any, output: any) =>
+        err ? reject(err) : resolve(output),
+      );
+    });
+  }
 }
@@ -0,0 +1,164 @@
+import { Injectable } from '@nestjs/common';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+// Decrypted credentials of a private repository
+export type GitAuth =
+  | { type: 'HTTPS_TOKEN'; username?: string; token: string }
+  | { type: 'SSH_KEY'; privateKey: string };
+
+// Answers git's username and password prompts from the environment
+const ASKPASS_SCRIPT = `#!/bin/sh
+case "$1" in
+  Username*) printf '%s\\n' "$GIT_AUTH_USERNAME" ;;
+  *) printf '%s\\n' "$GIT_AUTH_PASSWORD" ;;
+esac
+`;
+
+@Injectable()
+export class GitService {
+  /**
+   * Shallow clone a branch. Credentials are handed to git through the
+   * environment and temporary files, never through the URL or arguments.
+   */
+  async clone(
+    gitUrl: string,
+    branch: string,
+    targetDir: string,
+    auth?: GitAuth,
+  ): Promise<void> {
+    try {
+      await this.runGit(
+        [
+          'clone',
+          '--depth',
+          '1',
+          '--single-branch',
+          '--branch',
+          branch,
+          '--',
+          gitUrl,
+          targetDir,
+        ],
+        300000,
+        auth,
+      );
+    } catch (error) {
+      throw new Error(`Failed to clone repository: ${error.message}`);
+    }
+  }
+
+  /**
+   * Resolve the head commit of a remote branch with git ls-remote. Throws when
+   * the remote is unreachable or the branch does not exist.
+   */
+  async resolveCommitSha(
+    gitUrl: string,
+    branch: string,
+    auth?: GitAuth,
+  ): Promise<string> {
+    const stdout = await this.runGit(
+      ['ls-remote', '--', gitUrl, `refs/heads/${branch}`],
+      15000,
+      auth,
+    );
+
+    const commitSha = stdout.split(/\s+/)[0];
+    if (!commitSha) {
+      throw new Error(`Branch ${branch} not found`);
+    }
+
+    return commitSha;
+  }
+
+  private async runGit(
+    args: string[],
+    timeout: number,
+    auth?: GitAuth,
+  ): Promise<string> {
+    const authDir = auth
+      ? await fs.mkdtemp(path.join(os.tmpdir(), 'git-auth-'))
+      : undefined;
+
+    try {
+      const env: NodeJS.ProcessEnv = {
+        ...process.env,
+        GIT_TERMINAL_PROMPT: '0',
+      };
+
+      if (auth && authDir) {
+        Object.assign(env, await this.prepareAuth(auth, authDir));
+      }
+
+      // Ignore credential helpers of the host and never read its repositories
+      const { stdout } = await execFileAsync(
+        'git',
+        [
+          '-c',
+          'credential.helper=',
+          '-c',
+          'protocol.file.allow=never',
+          ...args,
+        ],
+        { timeout, env },
+      );
+      return stdout;
+    } catch (error) {
+      const message: string =
+        error.stderr?.toString().trim() || error.message || 'git failed';
+      throw new Error(this.redact(message, auth));
+    } finally {
+      if (authDir) {
+        await fs.rm(authDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  private async prepareAuth(
+    auth: GitAuth,
+    authDir: string,
+  ): Promise<NodeJS.ProcessEnv> {
+    if (auth.type === 'HTTPS_TOKEN') {
+      const askpass = path.join(authDir, 'askpass.sh');
+      await fs.writeFile(askpass, ASKPASS_SCRIPT, { mode: 0o700 });
+
+      return {
+        GIT_ASKPASS: askpass,
+        GIT_AUTH_USERNAME: auth.username || 'x-access-token',
+        GIT_AUTH_PASSWORD: auth.token,
+      };
+    }
+
+    const keyFile = path.join(authDir, 'id_key');
+    const knownHosts = path.join(authDir, 'known_hosts');
+    // ssh rejects keys without a trailing newline
+    await fs.writeFile(keyFile, `${auth.privateKey.trim()}\n`, {
+      mode: 0o600,
+    });
+
+    return {
+      GIT_SSH_COMMAND: [
+        'ssh',
+        `-i ${keyFile}`,
+        '-o IdentitiesOnly=yes',
+        '-o BatchMode=yes',
+        '-o StrictHostKeyChecking=accept-new',
+        `-o UserKnownHostsFile=${knownHosts}`,
+      ].join(' '),
+    };
+  }
+
+  // Remove secrets git may echo back in its error output
+  private redact(message: string, auth?: GitAuth): string {
+    if (auth?.type !== 'HTTPS_TOKEN') {
+      return message;
+    }
+
+    return message.split(auth.token).join('***');
+  }
+}
@@ -3,15 +3,28 @@ import { ConfigService } from '@nestjs/config';
 import { Telegraf } from 'telegraf';
 import { InjectBot } from 'nestjs-telegraf';
 import * as crypto from 'crypto';
+import {
+  DEFAULT_SENSITIVE_ENV_PATTERNS,
+  compileEnvPatterns,
+  redactText,
+} from '../../common/utils/redaction';
 
 @Injectable()
 export class TelegramService implements OnModuleInit {
   private readonly logger = new Logger(TelegramService.name);
+  private readonly sensitiveEnvPatterns: RegExp[];
 
   constructor(
     @InjectBot() private readonly bot: Telegraf,
     private readonly configService: ConfigService,
-  ) {}
+  ) {
+    this.sensitiveEnvPatterns = compileEnvPatterns(
+      this.configService.get<string>(
+        'redaction.sensitiveEnvPatterns',
+        DEFAULT_SENSITIVE_ENV_PATTERNS,
+      ),
+    );
+  }
 
   async onModuleInit() {
     // Set webhook in production
@@ -53,7 +66,10 @@ export class TelegramService implements OnModuleInit {
 
   async sendMessage(chatId: number, message: string): Promise<void> {
     try {
-      await this.bot.telegram.sendMessage(chatId, message);
+      await this.bot.telegram.sendMessage(
+        chatId,
+        redactText(message, this.sensitiveEnvPatterns),
+      );
     } catch (error) {
       this.logger.error(
         `Failed to send message to ${chatId}: ${error.message}`,
@@ -64,9 +80,11 @@ export class TelegramService implements OnModuleInit {
 
   async sendMarkdownMessage(chatId: number, message: string): Promise<void> {
     try {
-      await this.bot.telegram.sendMessage(chatId, message, {
-        parse_mode: 'Markdown',
-      });
+      await this.bot.telegram.sendMessage(
+        chatId,
+        redactText(message, this.sensitiveEnvPatterns),
+        { parse_mode: 'Markdown' },
+      );
     } catch (error) {
       this.logger.error(
         `Failed to send markdown message to ${chatId}: ${error.message}`,
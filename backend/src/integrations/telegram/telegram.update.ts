@@ -1,6 +1,6 @@
 import { Update, Start, Command, Ctx, InjectBot, On } from 'nestjs-telegraf';
 import { Context, Telegraf } from 'telegraf';
-import { Logger, OnModuleInit } from '@nestjs/common';
+import { HttpException, Logger, OnModuleInit } from '@nestjs/common';
 import { AuthService } from '../../modules/auth/auth.service';
 import { EnvironmentsService } from '../../modules/environments/environments.service';
 import { DeploymentsService } from '../../modules/deployments/deployments.service';
@@ -29,6 +29,14 @@ export class TelegramUpdate implements OnModuleInit {
         { command: 'api_create', description: 'Generate a new API key' },
         { command: 'api_list', description: 'List your active API keys' },
         { command: 'api_revoke', description: 'Revoke an API key' },
+        {
+          command: 'rollback',
+          description: 'Roll back a deployment to a previous version',
+        },
+        {
+          command: 'scale',
+          description: 'Change the number of replicas of a deployment',
+        },
         { command: 'help', description: 'Show help message' },
       ]);
       this.logger.log('Bot commands menu configured');
@@ -67,6 +75,8 @@ export class TelegramUpdate implements OnModuleInit {
             `/api_create - Generate a new API key\n` +
             `/api_list - List your API keys\n` +
             `/api_revoke - Revoke an API key\n` +
+            `/rollback - Roll back a deployment\n` +
+            `/scale - Scale a deployment\n` +
             `/help - Show this help message`,
         );
       }
@@ -102,6 +112,8 @@ export class TelegramUpdate implements OnModuleInit {
           ApiKeyScope.DEPLOYMENTS_READ,
           ApiKeyScope.DEPLOYMENTS_WRITE,
           ApiKeyScope.LOGS_READ,
+          ApiKeyScope.REGISTRIES_READ,
+          ApiKeyScope.REGISTRIES_WRITE,
         ],
       );
 
@@ -222,6 +234,109 @@ export class TelegramUpdate implements OnModuleInit {
     }
   }
 
+  @Command('rollback')
+  async onRollback(@Ctx() ctx: Context) {
+    try {
+      if (!ctx.from) {
+        await ctx.reply('Unable to identify user.');
+        return;
+      }
+
+      const telegramId = BigInt(ctx.from.id);
+      const message = (ctx.message as any).text;
+      const parts = message.split(' ').filter(Boolean);
+
+      if (parts.length < 2) {
+        await ctx.reply(
+          'Usage: /rollback <deployment_id> [version]\n\n' +
+            'Without a version the deployment is rolled back to the previous one.',
+        );
+        return;
+      }
+
+      const deploymentId = parts[1];
+      const toVersion = parts[2] ? Number(parts[2]) : undefined;
+
+      // Get user
+      const { id: userId } = await this.authService.getOrCreateUser(telegramId);
+
+      const result = await this.deploymentsService.rollbackDeployment(
+        userId,
+        deploymentId,
+        toVersion,
+      );
+
+      await ctx.reply(
+        `⏪ Rolling back deployment ${result.deploymentId}\n\n` +
+          `Version: ${result.fromVersion} → ${result.toVersion}\n` +
+          `Changes: ${Object.keys(result.changes).join(', ') || 'none'}`,
+      );
+
+      this.logger.log(
+        `Rollback of ${deploymentId} to version ${result.toVersion} requested by user ${userId}`,
+      );
+    } catch (error) {
+      this.logger.error(`Error in /rollback command: ${error.message}`);
+
+      if (error instanceof HttpException) {
+        await ctx.reply(`❌ ${error.message}`);
+      } else {
+        await ctx.reply('Failed to roll back deployment. Please try again.');
+      }
+    }
+  }
+
+  @Command('scale')
+  async onScale(@Ctx() ctx: Context) {
+    try {
+      if (!ctx.from) {
+        await ctx.reply('Unable to identify user.');
+        return;
+      }
+
+      const telegramId = BigInt(ctx.from.id);
+      const message = (ctx.message as any).text;
+      const parts = message.split(' ').filter(Boolean);
+
+      if (parts.length < 3) {
+        await ctx.reply('Usage: /scale <deployment_id> <replicas>');
+        return;
+      }
+
+      const deploymentId = parts[1];
+      const replicas = Number(parts[2]);
+
+      // Get user
+      const { id: userId } = await this.authService.getOrCreateUser(telegramId);
+
+      const result = await this.deploymentsService.scaleDeployment(
+        userId,
+        deploymentId,
+        replicas,
+      );
+
+      await ctx.reply(
+        `📈 Scaled deployment ${result.deploymentId}\n\n` +
+          `Replicas: ${result.fromReplicas} → ${result.replicas}\n` +
+          `Version: ${result.fromVersion} → ${result.toVersion}\n` +
+          `Running: ${result.runningReplicas}/${result.replicas}` +
+          (result.converged ? '' : ' (converging)'),
+      );
+
+      this.logger.log(
+        `Deployment ${deploymentId} scaled to ${replicas} replicas by user ${userId}`,
+      );
+    } catch (error) {
+      this.logger.error(`Error in /scale command: ${error.message}`);
+
+      if (error instanceof HttpException) {
+        await ctx.reply(`❌ ${error.message}`);
+      } else {
+        await ctx.reply('Failed to scale deployment. Please try again.');
+      }
+    }
+  }
+
   @Command('help')
   async onHelp(@Ctx() ctx: Context) {
     const helpText =
@@ -231,6 +346,8 @@ export class TelegramUpdate implements OnModuleInit {
       `/api_create - Generate a new API key\n` +
       `/api_list - List your active API keys\n` +
       `/api_revoke <key_id> - Revoke an API key\n` +
+      `/rollback <deployment_id> [version] - Roll back a deployment\n` +
+      `/scale <deployment_id> <replicas> - Change the number of replicas\n` +
       `/help - Show this help message\n\n` +
       `Getting Started:\n` +
       `1. Use /api_create to get an API key\n` +
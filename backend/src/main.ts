@@ -1,16 +1,18 @@
-import { NestFactory } from '@nestjs/core';
+import { NestFactory, Reflector } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Logger } from 'nestjs-pino';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
+import { RedactionInterceptor } from './common/interceptors/redaction.interceptor';
 import { PrismaService } from './core/database/prisma.service';
 
 async function bootstrap() {
   // Create app with buffer logs
   const app = await NestFactory.create(AppModule, {
     bufferLogs: true,
+    rawBody: true, // Webhook signatures are computed over the raw body
   });
 
   // Get config service
@@ -42,6 +44,11 @@ async function bootstrap() {
   // Global exception filter
   app.useGlobalFilters(new AllExceptionsFilter());
 
+  // Mask sensitive env vars in every response
+  app.useGlobalInterceptors(
+    new RedactionInterceptor(app.get(Reflector), configService),
+  );
+
   // Enable shutdown hooks for Prisma
   const prismaService = app.get(PrismaService);
   await prismaService.enableShutdownHooks(app);
@@ -52,7 +59,7 @@ async function bootstrap() {
     .setDescription(
       'REST API for managing isolated Docker Swarm deployments with automatic SSL.\n\n' +
         '## Authentication\n' +
-        'All endpoints (except /auth/verify) require API key authentication.\n' +
+        'All endpoints (except /auth/verify and /webhooks) require API key authentication.\n' +
         'Include the `X-API-Key` header with format: `rw_prod_{keyId}.{secret}`\n\n' +
         '## Getting Started\n' +
         '1. Use Telegram bot `/api_create` to generate magic link\n' +
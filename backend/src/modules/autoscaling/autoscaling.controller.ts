@@ -0,0 +1,267 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { AutoscalingService } from './autoscaling.service';
+import type { AutoscalingPolicyDto } from './autoscaling.service';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { ScopesGuard } from '../../common/guards/scopes.guard';
+import { RequireScopes } from '../../common/decorators/require-scopes.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import type { User } from '@prisma/client';
+import { ApiKeyScope } from '@prisma/client';
+
+@Controller('deployments')
+@UseGuards(ApiKeyGuard, ScopesGuard)
+@ApiTags('Autoscaling')
+@ApiSecurity('api-key')
+export class AutoscalingController {
+  constructor(private readonly autoscalingService: AutoscalingService) {}
+
+  @Put(':id/autoscaling')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @ApiOperation({
+    summary: 'Set autoscaling policy',
+    description:
+      'Create or replace the autoscaling policy of a deployment. While the deployment is RUNNING, the autoscaler ' +
+      'samples the CPU and memory usage of its tasks and scales the service between `minReplicas` and `maxReplicas` ' +
+      'so the average usage per replica approaches the targets, in percent of the CPU and memory limits. ' +
+      'With both targets set, the one asking for more replicas wins. ' +
+      'Only tasks on the node the API talks to are sampled, and memory is only measured with a memory limit. ' +
+      'A scale up waits `scaleUpCooldownSeconds` after the previous scale, a scale down `scaleDownCooldownSeconds`. ' +
+      'Scale ups never go over the replica, CPU or memory quota of the owner. ' +
+      'Every decision is recorded as a new version with its reason and shows in GET /deployments/:id/versions. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['minReplicas', 'maxReplicas'],
+      properties: {
+        minReplicas: {
+          type: 'number',
+          description: 'Fewest replicas to run',
+          example: 1,
+        },
+        maxReplicas: {
+          type: 'number',
+          description: 'Most replicas to run, must fit in the quota',
+          example: 5,
+        },
+        targetCpuPercent: {
+          type: 'number',
+          description:
+            'Target average CPU usage per replica, in percent of its CPU limit (1-100)',
+          example: 70,
+        },
+        targetMemoryPercent: {
+          type: 'number',
+          description:
+            'Target average memory usage per replica, in percent of its memory limit (1-100)',
+          example: 80,
+        },
+        scaleUpCooldownSeconds: {
+          type: 'number',
+          description: 'Seconds after a scale before scaling up (default: 60)',
+          example: 60,
+        },
+        scaleDownCooldownSeconds: {
+          type: 'number',
+          description:
+            'Seconds after a scale before scaling down (default: 300)',
+          example: 300,
+        },
+        enabled: {
+          type: 'boolean',
+          description: 'Evaluate the policy (default: true)',
+          example: true,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Policy created or replaced',
+    schema: {
+      example: {
+        policy: {
+          id: 'clx777asp123abc',
+          deploymentId: 'clx456def789ghi',
+          enabled: true,
+          minReplicas: 1,
+          maxReplicas: 5,
+          targetCpuPercent: 70,
+          targetMemoryPercent: null,
+          scaleUpCooldownSeconds: 60,
+          scaleDownCooldownSeconds: 300,
+          lastScaledAt: null,
+          lastEvaluatedAt: null,
+          lastMetrics: null,
+          createdAt: '2026-02-04T09:00:00.000Z',
+          updatedAt: '2026-02-04T09:00:00.000Z',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid replica bounds, targets or cooldowns',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Missing DEPLOYMENTS_WRITE scope or quota exceeded',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  async setPolicy(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+    @Body() dto: AutoscalingPolicyDto,
+  ) {
+    return this.autoscalingService.setPolicy(user.id, deploymentId, dto);
+  }
+
+  @Get(':id/autoscaling')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_READ)
+  @ApiOperation({
+    summary: 'Get autoscaling policy',
+    description:
+      'Get the autoscaling policy of a deployment, the usage measured at its last evaluation ' +
+      'and its latest scaling decisions. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_READ`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Policy and latest decisions',
+    schema: {
+      example: {
+        policy: {
+          id: 'clx777asp123abc',
+          deploymentId: 'clx456def789ghi',
+          enabled: true,
+          minReplicas: 1,
+          maxReplicas: 5,
+          targetCpuPercent: 70,
+          targetMemoryPercent: null,
+          scaleUpCooldownSeconds: 60,
+          scaleDownCooldownSeconds: 300,
+          lastScaledAt: '2026-02-04T10:15:30.000Z',
+          lastEvaluatedAt: '2026-02-04T10:20:00.000Z',
+          lastMetrics: {
+            cpuPercent: 64.2,
+            memoryPercent: 41.5,
+            sampledReplicas: 3,
+          },
+          createdAt: '2026-02-04T09:00:00.000Z',
+          updatedAt: '2026-02-04T10:20:00.000Z',
+        },
+        replicas: 3,
+        decisions: [
+          {
+            updateId: 'clx999upd789ghi',
+            fromVersion: 3,
+            toVersion: 4,
+            status: 'COMPLETED',
+            changes: { replicas: { from: 2, to: 3 } },
+            reason:
+              'Autoscaling: CPU at 98% of the limit on average, target 70%',
+            errorMessage: null,
+            createdAt: '2026-02-04T10:15:30.000Z',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Missing DEPLOYMENTS_READ scope',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found or has no autoscaling policy',
+  })
+  async getPolicy(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+  ) {
+    return this.autoscalingService.getPolicy(user.id, deploymentId);
+  }
+
+  @Delete(':id/autoscaling')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Delete autoscaling policy',
+    description:
+      'Stop autoscaling a deployment. It keeps its current number of replicas. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Policy deleted successfully',
+    schema: {
+      example: {
+        message: 'Autoscaling policy deleted successfully',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Missing DEPLOYMENTS_WRITE scope',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found or has no autoscaling policy',
+  })
+  async deletePolicy(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+  ) {
+    return this.autoscalingService.deletePolicy(user.id, deploymentId);
+  }
+}
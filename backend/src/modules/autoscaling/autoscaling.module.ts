@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AutoscalingService } from './autoscaling.service';
+import { AutoscalingController } from './autoscaling.controller';
+import { DatabaseModule } from '../../core/database/database.module';
+import { QuotasModule } from '../quotas/quotas.module';
+
+@Module({
+  imports: [DatabaseModule, QuotasModule],
+  providers: [AutoscalingService],
+  controllers: [AutoscalingController],
+  exports: [AutoscalingService],
+})
+export class AutoscalingModule {}
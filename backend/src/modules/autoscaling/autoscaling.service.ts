@@ -0,0 +1,208 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PrismaService } from '../../core/database/prisma.service';
+import { QuotasService } from '../quotas/quotas.service';
+
+export interface AutoscalingPolicyDto {
+  minReplicas: number;
+  maxReplicas: number;
+  targetCpuPercent?: number | null; // Average per replica, of its CPU limit
+  targetMemoryPercent?: number | null; // Average per replica, of its memory limit
+  scaleUpCooldownSeconds?: number; // Default 60
+  scaleDownCooldownSeconds?: number; // Default 300
+  enabled?: boolean; // Default true
+}
+
+// Recent autoscaling decisions returned with a policy
+const DECISION_LIMIT = 20;
+
+@Injectable()
+export class AutoscalingService {
+  private readonly logger = new Logger(AutoscalingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly quotasService: QuotasService,
+  ) {}
+
+  /**
+   * Create or replace the autoscaling policy of a deployment. maxReplicas must
+   * fit in what the owner's quota leaves for the deployment right now, the
+   * autoscaler also caps every scale up at the quota when it runs.
+   */
+  async setPolicy(
+    userId: string,
+    deploymentId: string,
+    dto: AutoscalingPolicyDto,
+  ) {
+    const deployment = await this.getDeployment(userId, deploymentId);
+    this.validatePolicy(dto);
+
+    const maxAllowed = await this.quotasService.getMaxReplicas(
+      userId,
+      deployment.id,
+    );
+    if (dto.maxReplicas > maxAllowed) {
+      this.logger.warn(
+        `Quota exceeded for user ${userId}: autoscaling up to ${dto.maxReplicas} replicas, ${maxAllowed} available`,
+      );
+      throw new ForbiddenException(
+        `Quota exceeded: maxReplicas is ${dto.maxReplicas}, the quota leaves room for ${maxAllowed} replica(s) of this deployment`,
+      );
+    }
+
+    const data = {
+      enabled: dto.enabled ?? true,
+      minReplicas: dto.minReplicas,
+      maxReplicas: dto.maxReplicas,
+      targetCpuPercent: dto.targetCpuPercent ?? null,
+      targetMemoryPercent: dto.targetMemoryPercent ?? null,
+      scaleUpCooldownSeconds: dto.scaleUpCooldownSeconds ?? 60,
+      scaleDownCooldownSeconds: dto.scaleDownCooldownSeconds ?? 300,
+    };
+
+    const policy = await this.prisma.autoscalingPolicy.upsert({
+      where: { deploymentId: deployment.id },
+      create: { deploymentId: deployment.id, ...data },
+      update: data,
+    });
+
+    this.logger.log(
+      `Autoscaling policy of deployment ${deployment.id} set to ${policy.minReplicas}-${policy.maxReplicas} replicas` +
+        (policy.enabled ? '' : ' (disabled)'),
+    );
+
+    return { policy };
+  }
+
+  /**
+   * Policy of a deployment with its latest autoscaling decisions.
+   */
+  async getPolicy(userId: string, deploymentId: string) {
+    const deployment = await this.getDeployment(userId, deploymentId);
+
+    const policy = await this.prisma.autoscalingPolicy.findUnique({
+      where: { deploymentId: deployment.id },
+    });
+
+    if (!policy) {
+      throw new NotFoundException('Deployment has no autoscaling policy');
+    }
+
+    const decisions = await this.prisma.deploymentUpdate.findMany({
+      where: {
+        deploymentId: deployment.id,
+        reason: { not: null },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: DECISION_LIMIT,
+    });
+
+    return {
+      policy,
+      replicas: deployment.replicas,
+      decisions: decisions.map((update) => ({
+        updateId: update.id,
+        fromVersion: update.fromVersion,
+        toVersion: update.toVersion,
+        status: update.status,
+        changes: update.changes,
+        reason: update.reason,
+        errorMessage: update.errorMessage,
+        createdAt: update.createdAt,
+      })),
+    };
+  }
+
+  async deletePolicy(userId: string, deploymentId: string) {
+    const deployment = await this.getDeployment(userId, deploymentId);
+
+    const { count } = await this.prisma.autoscalingPolicy.deleteMany({
+      where: { deploymentId: deployment.id },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Deployment has no autoscaling policy');
+    }
+
+    this.logger.log(
+      `Autoscaling policy of deployment ${deployment.id} removed`,
+    );
+
+    return { message: 'Autoscaling policy deleted successfully' };
+  }
+
+  private validatePolicy(dto: AutoscalingPolicyDto): void {
+    if (!Number.isInteger(dto.minReplicas) || dto.minReplicas < 1) {
+      throw new BadRequestException('minReplicas must be a positive integer');
+    }
+
+    if (!Number.isInteger(dto.maxReplicas) || dto.maxReplicas < 1) {
+      throw new BadRequestException('maxReplicas must be a positive integer');
+    }
+
+    if (dto.maxReplicas < dto.minReplicas) {
+      throw new BadRequestException(
+        'maxReplicas must be greater than or equal to minReplicas',
+      );
+    }
+
+    for (const key of ['targetCpuPercent', 'targetMemoryPercent'] as const) {
+      const target = dto[key];
+      if (
+        target !== undefined &&
+        target !== null &&
+        (!Number.isInteger(target) || target < 1 || target > 100)
+      ) {
+        throw new BadRequestException(
+          `${key} must be an integer between 1 and 100`,
+        );
+      }
+    }
+
+    if (dto.targetCpuPercent == null && dto.targetMemoryPercent == null) {
+      throw new BadRequestException(
+        'At least one of targetCpuPercent or targetMemoryPercent is required',
+      );
+    }
+
+    for (const key of [
+      'scaleUpCooldownSeconds',
+      'scaleDownCooldownSeconds',
+    ] as const) {
+      const cooldown = dto[key];
+      if (
+        cooldown !== undefined &&
+        (!Number.isInteger(cooldown) || cooldown < 0 || cooldown > 86400)
+      ) {
+        throw new BadRequestException(
+          `${key} must be an integer between 0 and 86400`,
+        );
+      }
+    }
+
+    if (dto.enabled !== undefined && typeof dto.enabled !== 'boolean') {
+      throw new BadRequestException('enabled must be a boolean');
+    }
+  }
+
+  private async getDeployment(userId: string, deploymentId: string) {
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    return deployment;
+  }
+}
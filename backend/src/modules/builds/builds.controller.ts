@@ -0,0 +1,119 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Sse,
+  UseGuards,
+  MessageEvent,
+} from '@nestjs/common';
+import { Observable, map } from 'rxjs';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { BuildsService } from './builds.service';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { ScopesGuard } from '../../common/guards/scopes.guard';
+import { RequireScopes } from '../../common/decorators/require-scopes.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import type { User } from '@prisma/client';
+import { ApiKeyScope } from '@prisma/client';
+
+@Controller('builds')
+@UseGuards(ApiKeyGuard, ScopesGuard)
+@ApiTags('Builds')
+@ApiSecurity('api-key')
+export class BuildsController {
+  constructor(private readonly buildsService: BuildsService) {}
+
+  @Get(':id/logs')
+  @RequireScopes(ApiKeyScope.LOGS_READ)
+  @ApiOperation({
+    summary: 'Get build logs',
+    description:
+      'Retrieve the full output of an image build. For a running build, returns the output written so far. ' +
+      'Use GET /builds/:id/logs/stream to follow a running build in real time. ' +
+      '\n\n**Required scope**: `LOGS_READ`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Build ID',
+    example: 'clx777bld123abc',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Build output',
+    schema: {
+      example: {
+        buildId: 'clx777bld123abc',
+        status: 'SUCCEEDED',
+        logs:
+          'Step 1/6 : FROM node:20-alpine\n' +
+          ' ---> 1a2b3c4d5e6f\n' +
+          'Step 2/6 : WORKDIR /app',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Missing LOGS_READ scope',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Build not found',
+  })
+  async getBuildLogs(@CurrentUser() user: User, @Param('id') buildId: string) {
+    return this.buildsService.getBuildLogs(user.id, buildId);
+  }
+
+  @Sse(':id/logs/stream')
+  @RequireScopes(ApiKeyScope.LOGS_READ)
+  @ApiOperation({
+    summary: 'Stream build logs',
+    description:
+      'Follow the output of an image build over Server-Sent Events. ' +
+      'Each event carries one line of output. The stream starts with the output written so far ' +
+      'and completes when the build finishes; for a finished build it replays the stored output. ' +
+      '\n\n**Required scope**: `LOGS_READ`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Build ID',
+    example: 'clx777bld123abc',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Event stream of build output lines',
+    content: {
+      'text/event-stream': {
+        example: 'data: Step 2/6 : WORKDIR /app\n\n',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Missing LOGS_READ scope',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Build not found',
+  })
+  async streamBuildLogs(
+    @CurrentUser() user: User,
+    @Param('id') buildId: string,
+  ): Promise<Observable<MessageEvent>> {
+    const lines = await this.buildsService.streamBuildLogs(user.id, buildId);
+    return lines.pipe(map((line) => ({ data: line })));
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { BuildsService } from './builds.service';
+import { BuildsController } from './builds.controller';
+import { DockerModule } from '../../integrations/docker/docker.module';
+import { GitModule } from '../../integrations/git/git.module';
+
+@Module({
+  imports: [DockerModule, GitModule],
+  providers: [BuildsService],
+  controllers: [BuildsController],
+  exports: [BuildsService],
+})
+export class BuildsModule {}
@@ -0,0 +1,251 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Observable, Subject, concat, defer, from } from 'rxjs';
+import { PrismaService } from '../../core/database/prisma.service';
+import { ContainerService } from '../../integrations/docker/container.service';
+import type { GitBuildOptions } from '../../integrations/docker/container.service';
+import { GitService } from '../../integrations/git/git.service';
+import { BuildStatus } from '@prisma/client';
+import type { Build } from '@prisma/client';
+
+export interface BuildStep {
+  name: string; // e.g. "Step 2/6 : RUN yarn install"
+  startedAt: string;
+  durationMs?: number;
+}
+
+// Output of a build running in this process, kept for live streaming
+interface ActiveBuild {
+  lines: string[];
+  truncated: boolean;
+  steps: BuildStep[];
+  output: Subject<string>;
+}
+
+@Injectable()
+export class BuildsService {
+  private readonly logger = new Logger(BuildsService.name);
+  private readonly MAX_LOG_LINES = 20000;
+  private readonly FLUSH_INTERVAL_MS = 2000;
+  private readonly activeBuilds = new Map<string, ActiveBuild>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly containerService: ContainerService,
+    private readonly gitService: GitService,
+  ) {}
+
+  /**
+   * Build the image of a Git deployment and record it as a Build with the
+   * resolved commit, detected build plan, full output and step timing. Output
+   * is flushed to the database while the build runs. Build failures are
+   * rethrown.
+   */
+  async runBuild(
+    deploymentId: string,
+    options: Omit<GitBuildOptions, 'onOutput'>,
+  ): Promise<Build> {
+    const branch = options.branch ?? 'main';
+    const commitSha = await this.gitService
+      .resolveCommitSha(options.gitUrl, branch, options.auth)
+      .catch((error) => {
+        this.logger.warn(
+          `Failed to resolve commit of ${options.gitUrl}#${branch}: ${error.message}`,
+        );
+        return null;
+      });
+
+    const build = await this.prisma.build.create({
+      data: {
+        deploymentId,
+        gitUrl: options.gitUrl,
+        gitBranch: branch,
+        commitSha,
+        image: `${options.imageName}:${options.tag ?? 'latest'}`,
+      },
+    });
+
+    this.logger.log(
+      `Build ${build.id} started for deployment ${deploymentId} (${branch}@${commitSha ?? 'unknown'})`,
+    );
+
+    const active: ActiveBuild = {
+      lines: [],
+      truncated: false,
+      steps: [],
+      output: new Subject<string>(),
+    };
+    this.activeBuilds.set(build.id, active);
+
+    const flushInterval = setInterval(() => {
+      this.flushBuild(build.id, active).catch((error) => {
+        this.logger.warn(
+          `Failed to flush logs of build ${build.id}: ${error.message}`,
+        );
+      });
+    }, this.FLUSH_INTERVAL_MS);
+
+    try {
+      const { buildPlan } = await this.containerService.buildImageFromGit({
+        ...options,
+        branch,
+        onOutput: (line) => this.appendOutput(active, line),
+      });
+
+      this.finishCurrentStep(active);
+      return await this.prisma.build.update({
+        where: { id: build.id },
+        data: {
+          status: BuildStatus.SUCCEEDED,
+          logs: this.getLogText(active),
+          steps: active.steps as any,
+          buildPlan: (buildPlan ?? undefined) as any,
+          completedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      this.finishCurrentStep(active);
+      await this.prisma.build.update({
+        where: { id: build.id },
+        data: {
+          status: BuildStatus.FAILED,
+          logs: this.getLogText(active),
+          steps: active.steps as any,
+          errorMessage: error.message,
+          completedAt: new Date(),
+        },
+      });
+      throw error;
+    } finally {
+      clearInterval(flushInterval);
+      active.output.complete();
+      this.activeBuilds.delete(build.id);
+    }
+  }
+
+  /**
+   * Mark RUNNING builds this process is not running as FAILED. They were
+   * interrupted by a restart and their output stream is gone.
+   */
+  async failInterruptedBuilds(): Promise<void> {
+    const { count } = await this.prisma.build.updateMany({
+      where: {
+        status: BuildStatus.RUNNING,
+        id: { notIn: [...this.activeBuilds.keys()] },
+      },
+      data: {
+        status: BuildStatus.FAILED,
+        errorMessage: 'Build interrupted by an API restart',
+        completedAt: new Date(),
+      },
+    });
+
+    if (count > 0) {
+      this.logger.warn(`Marked ${count} interrupted build(s) as failed`);
+    }
+  }
+
+  async listDeploymentBuilds(userId: string, deploymentId: string) {
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    const builds = await this.prisma.build.findMany({
+      where: { deploymentId },
+      orderBy: { startedAt: 'desc' },
+      omit: { logs: true },
+    });
+
+    return { builds };
+  }
+
+  async getBuildLogs(userId: string, buildId: string) {
+    const build = await this.findBuild(userId, buildId);
+    const active = this.activeBuilds.get(build.id);
+
+    return {
+      buildId: build.id,
+      status: build.status,
+      logs: active ? this.getLogText(active) : build.logs,
+    };
+  }
+
+  /**
+   * Stream build output: everything written so far, then new lines while the
+   * build runs in this process. Completes when the build finishes.
+   */
+  async streamBuildLogs(
+    userId: string,
+    buildId: string,
+  ): Promise<Observable<string>> {
+    const build = await this.findBuild(userId, buildId);
+
+    return defer(() => {
+      const active = this.activeBuilds.get(build.id);
+      if (!active) {
+        return from(build.logs ? build.logs.split('\n') : []);
+      }
+
+      return concat(from(active.lines.slice()), active.output);
+    });
+  }
+
+  private async findBuild(userId: string, buildId: string): Promise<Build> {
+    const build = await this.prisma.build.findFirst({
+      where: {
+        id: buildId,
+        deployment: { environment: { userId } },
+      },
+    });
+
+    if (!build) {
+      throw new NotFoundException('Build not found');
+    }
+
+    return build;
+  }
+
+  private appendOutput(active: ActiveBuild, line: string): void {
+    // Classic builder output marks the start of every Dockerfile step
+    if (/^Step \d+\/\d+ : /.test(line)) {
+      this.finishCurrentStep(active);
+      active.steps.push({ name: line, startedAt: new Date().toISOString() });
+    }
+
+    active.lines.push(line);
+    if (active.lines.length > this.MAX_LOG_LINES) {
+      active.lines.shift();
+      active.truncated = true;
+    }
+
+    active.output.next(line);
+  }
+
+  private finishCurrentStep(active: ActiveBuild): void {
+    const step = active.steps[active.steps.length - 1];
+    if (step && step.durationMs === undefined) {
+      step.durationMs = Date.now() - Date.parse(step.startedAt);
+    }
+  }
+
+  private getLogText(active: ActiveBuild): string {
+    const text = active.lines.join('\n');
+    return active.truncated ? `[earlier output truncated]\n${text}` : text;
+  }
+
+  private async flushBuild(buildId: string, active: ActiveBuild) {
+    await this.prisma.build.update({
+      where: { id: buildId },
+      data: {
+        logs: this.getLogText(active),
+        steps: active.steps as any,
+      },
+    });
+  }
+}
@@ -0,0 +1,166 @@
+import { Controller, Post, Body, Param, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { ComposeService } from './compose.service';
+import type { ComposeImportDto } from './compose.service';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { ScopesGuard } from '../../common/guards/scopes.guard';
+import { RequireScopes } from '../../common/decorators/require-scopes.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import type { User } from '@prisma/client';
+import { ApiKeyScope } from '@prisma/client';
+
+const COMPOSE_EXAMPLE = `services:
+  db:
+    image: postgres:16
+    environment:
+      POSTGRES_DB: app
+    secrets: [DB_PASSWORD]
+    volumes:
+      - db-data:/var/lib/postgresql/data
+    healthcheck:
+      test: ["CMD", "pg_isready", "-U", "postgres"]
+      interval: 10s
+  api:
+    image: ghcr.io/acme/api:1.4.2
+    ports:
+      - "3000"
+    deploy:
+      replicas: 2
+      resources:
+        limits:
+          cpus: "0.5"
+          memory: 512m
+    depends_on:
+      db:
+        condition: service_healthy
+volumes:
+  db-data:
+secrets:
+  DB_PASSWORD:
+    external: true
+`;
+
+@Controller('environments')
+@UseGuards(ApiKeyGuard, ScopesGuard)
+@ApiTags('Compose')
+@ApiSecurity('api-key')
+export class ComposeController {
+  constructor(private readonly composeService: ComposeService) {}
+
+  @Post(':id/compose')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @Throttle({ default: { limit: 3, ttl: 60000 } }) // 3 imports per minute
+  @ApiOperation({
+    summary: 'Import compose file',
+    description:
+      'Create a deployment per service of a docker-compose file, named after the service. ' +
+      'Supported service fields: `image`, `environment`, `ports`, `expose`, named `volumes`, `secrets`, ' +
+      '`deploy.replicas`, `deploy.resources` limits and reservations, `healthcheck` and `depends_on`. ' +
+      'Volumes must be declared under the top-level `volumes` without options, ' +
+      'secrets under the top-level `secrets` with `external: true` and exist as environment secrets. ' +
+      'Other fields, such as `build`, `privileged`, `network_mode`, bind mounts or variable substitution, ' +
+      'are rejected with the path of the offending field. `restart` and `container_name` are ignored with a warning. ' +
+      'Every service is validated, quota included, before anything is created. ' +
+      'If a creation still fails, the deployments already created are deleted, keeping their volumes, before the error is returned. ' +
+      'A service with `depends_on` stays PENDING until the services it depends on are RUNNING, healthy when they ' +
+      'have a health check, and fails if one of them fails. ' +
+      'With `dryRun`, the translated deployments are returned without creating them. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE`' +
+      '\n\n**Rate limit**: 3 requests per minute',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Environment ID',
+    example: 'clx123abc456def',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['compose'],
+      properties: {
+        compose: {
+          type: 'string',
+          description: 'Content of the compose file',
+          example: COMPOSE_EXAMPLE,
+        },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'Translate and validate the file without creating deployments (default: false)',
+          example: false,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Deployments created in dependency order, or the translated deployments of a dry run',
+    schema: {
+      example: {
+        environmentId: 'clx123abc456def',
+        dryRun: false,
+        deployments: [
+          {
+            name: 'db',
+            dependsOn: [],
+            jobId: 'k3j2h1g0f9e8d7c6',
+            deploymentId: 'clx456def789ghi',
+            status: 'PENDING',
+          },
+          {
+            name: 'api',
+            dependsOn: ['db'],
+            jobId: 'a1b2c3d4e5f6g7h8',
+            deploymentId: 'clx654fed987ihg',
+            status: 'PENDING',
+          },
+        ],
+        warnings: [
+          'services.api.restart is ignored, Swarm restarts failed tasks',
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid or unsupported compose file, dependency cycle, or environment not ACTIVE',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Missing DEPLOYMENTS_WRITE scope or quota exceeded',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Environment not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A deployment named after a service already exists',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests - Rate limit exceeded',
+  })
+  async importCompose(
+    @CurrentUser() user: User,
+    @Param('id') environmentId: string,
+    @Body() dto: ComposeImportDto,
+  ) {
+    return this.composeService.importCompose(user.id, environmentId, dto);
+  }
+}
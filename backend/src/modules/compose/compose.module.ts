@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ComposeService } from './compose.service';
+import { ComposeController } from './compose.controller';
+import { DatabaseModule } from '../../core/database/database.module';
+import { EnvironmentsModule } from '../environments/environments.module';
+import { DeploymentsModule } from '../deployments/deployments.module';
+import { QuotasModule } from '../quotas/quotas.module';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    EnvironmentsModule,
+    DeploymentsModule,
+    QuotasModule,
+  ],
+  providers: [ComposeService],
+  controllers: [ComposeController],
+  exports: [ComposeService],
+})
+export class ComposeModule {}
@@ -0,0 +1,1136 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as yaml from 'js-yaml';
+import { PrismaService } from '../../core/database/prisma.service';
+import { EnvironmentsService } from '../environments/environments.service';
+import {
+  DeploymentsService,
+  DEPLOYMENT_NAME_PATTERN,
+} from '../deployments/deployments.service';
+import type {
+  CreateDeploymentDto,
+  DeploymentConfig,
+  DeploymentHealthCheck,
+  DeploymentResources,
+} from '../deployments/deployments.service';
+import { QuotasService } from '../quotas/quotas.service';
+import {
+  DEFAULT_SENSITIVE_ENV_PATTERNS,
+  compileEnvPatterns,
+  redactEnvVars,
+} from '../../common/utils/redaction';
+import { EnvironmentStatus } from '@prisma/client';
+import type { Environment } from '@prisma/client';
+
+export interface ComposeImportDto {
+  compose: string; // docker-compose.yml content
+  dryRun?: boolean; // Translate and validate without creating anything
+}
+
+// Deployment translated from a compose service
+interface ComposeDeployment {
+  name: string;
+  dependsOn: string[]; // Service names
+  dto: CreateDeploymentDto;
+}
+
+type ComposeObject = Record<string, any>;
+
+const TOP_LEVEL_FIELDS = ['version', 'name', 'services', 'volumes', 'secrets'];
+
+const SERVICE_FIELDS = [
+  'image',
+  'environment',
+  'ports',
+  'expose',
+  'volumes',
+  'secrets',
+  'deploy',
+  'healthcheck',
+  'depends_on',
+  'networks',
+  'privileged',
+];
+
+// Accepted but without effect on the platform
+const IGNORED_SERVICE_FIELDS: Record<string, string> = {
+  restart: 'Swarm restarts failed tasks',
+  container_name: 'containers are named by the platform',
+};
+
+// Common fields the platform cannot honour, with the reason
+const UNSUPPORTED_SERVICE_FIELDS: Record<string, string> = {
+  build:
+    'images are not built from compose files, push the image to a registry or deploy it from Git',
+  network_mode:
+    'host and custom network modes are not supported, services share the environment network',
+  command: 'overriding the image command is not supported, set it in the image',
+  entrypoint:
+    'overriding the image entrypoint is not supported, set it in the image',
+  env_file:
+    'env files are not read, list the variables under environment instead',
+  cap_add: 'extra kernel capabilities are not supported',
+  devices: 'host devices are not supported',
+  pid: 'sharing the PID namespace is not supported',
+  ipc: 'sharing the IPC namespace is not supported',
+  userns_mode: 'user namespace modes are not supported',
+  extends: 'extending other compose files is not supported',
+  links: 'links are not supported, services reach each other by name',
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  us: 0.000001,
+  ms: 0.001,
+  s: 1,
+  m: 60,
+  h: 3600,
+};
+
+const MEMORY_UNITS: Record<string, number> = {
+  b: 1 / (1024 * 1024),
+  k: 1 / 1024,
+  m: 1,
+  g: 1024,
+};
+
+@Injectable()
+export class ComposeService {
+  private readonly logger = new Logger(ComposeService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly environmentsService: EnvironmentsService,
+    private readonly deploymentsService: DeploymentsService,
+    private readonly quotasService: QuotasService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Create a deployment per service of a compose file. Every service is
+   * translated and validated, quota included, before anything is created.
+   * Services wait for the ones they depend on to be RUNNING before they are
+   * deployed.
+   */
+  async importCompose(
+    userId: string,
+    environmentId: string,
+    dto: ComposeImportDto,
+  ) {
+    const environment = await this.environmentsService.getEnvironment(
+      userId,
+      environmentId,
+    );
+
+    if (environment.status !== EnvironmentStatus.ACTIVE) {
+      throw new BadRequestException(
+        'Environment must be in ACTIVE status to import a compose file',
+      );
+    }
+
+    const { deployments, warnings } = this.translate(
+      environment.id,
+      dto.compose,
+    );
+
+    const taken = await this.prisma.deployment.findMany({
+      where: {
+        environmentId: environment.id,
+        name: { in: deployments.map((deployment) => deployment.name) },
+      },
+      select: { name: true },
+    });
+
+    if (taken.length > 0) {
+      throw new ConflictException(
+        `Deployments named ${taken.map((deployment) => deployment.name).join(', ')} already exist in this environment`,
+      );
+    }
+
+    const targets = await this.previewDeployments(environment, deployments);
+
+    await this.quotasService.assertDeploymentsWithinQuota(
+      userId,
+      targets.map((target) => ({
+        environmentId: environment.id,
+        replicas: target.replicas,
+        resources: target.resources,
+        volumes: target.volumes ?? null,
+      })),
+    );
+
+    if (dto.dryRun) {
+      const patterns = compileEnvPatterns(
+        this.configService.get<string>(
+          'redaction.sensitiveEnvPatterns',
+          DEFAULT_SENSITIVE_ENV_PATTERNS,
+        ),
+      );
+
+      return {
+        environmentId: environment.id,
+        dryRun: true,
+        deployments: deployments.map((deployment, index) => ({
+          name: deployment.name,
+          dependsOn: deployment.dependsOn,
+          config: {
+            ...targets[index],
+            envVars: redactEnvVars(targets[index].envVars, patterns, []),
+          },
+        })),
+        warnings,
+      };
+    }
+
+    const deploymentIds = new Map<string, string>();
+    const results: Array<Record<string, unknown>> = [];
+
+    for (const deployment of deployments) {
+      try {
+        const created = await this.deploymentsService.createDeployment(
+          userId,
+          deployment.dto,
+          {
+            dependsOn: deployment.dependsOn.map(
+              (name) => deploymentIds.get(name)!,
+            ),
+          },
+        );
+        deploymentIds.set(deployment.name, created.deploymentId);
+        results.push({
+          name: deployment.name,
+          dependsOn: deployment.dependsOn,
+          ...created,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Compose import into environment ${environment.id} stopped at service ${deployment.name}: ${error.message}`,
+        );
+        await this.removeCreated(userId, [...deploymentIds.values()]);
+        throw error;
+      }
+    }
+
+    this.logger.log(
+      `Imported ${results.length} compose service(s) into environment ${environment.id}`,
+    );
+
+    return {
+      environmentId: environment.id,
+      dryRun: false,
+      deployments: results,
+      warnings,
+    };
+  }
+
+  /**
+   * Delete the deployments of a failed import, dependents first. Volumes are
+   * kept, a compose volume may be shared with an existing deployment.
+   */
+  private async removeCreated(
+    userId: string,
+    deploymentIds: string[],
+  ): Promise<void> {
+    for (const deploymentId of [...deploymentIds].reverse()) {
+      try {
+        await this.deploymentsService.deleteDeployment(
+          userId,
+          deploymentId,
+          true,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to remove deployment ${deploymentId} of a failed compose import: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private async previewDeployments(
+    environment: Environment,
+    deployments: ComposeDeployment[],
+  ): Promise<DeploymentConfig[]> {
+    const targets: DeploymentConfig[] = [];
+
+    for (const deployment of deployments) {
+      try {
+        targets.push(
+          await this.deploymentsService.previewDeployment(
+            environment,
+            deployment.dto,
+          ),
+        );
+      } catch (error) {
+        if (error instanceof BadRequestException) {
+          throw new BadRequestException(
+            `services.${deployment.name}: ${error.message}`,
+          );
+        }
+        throw error;
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Translate a compose file into deployments, ordered so every service comes
+   * after the ones it depends on.
+   */
+  private translate(
+    environmentId: string,
+    input: unknown,
+  ): { deployments: ComposeDeployment[]; warnings: string[] } {
+    if (typeof input !== 'string' || !input.trim()) {
+      throw new BadRequestException(
+        'compose must be the content of a compose file',
+      );
+    }
+
+    let compose: unknown;
+    try {
+      // No timestamps, tags like 2024-01-01 stay strings
+      compose = yaml.load(input, { schema: yaml.CORE_SCHEMA });
+    } catch (error) {
+      throw new BadRequestException(`Invalid compose file: ${error.message}`);
+    }
+
+    if (!this.isObject(compose) || !this.isObject(compose.services)) {
+      throw new BadRequestException('Compose file must have a services map');
+    }
+
+    for (const key of Object.keys(compose)) {
+      if (!TOP_LEVEL_FIELDS.includes(key) && !key.startsWith('x-')) {
+        throw new BadRequestException(
+          key === 'networks'
+            ? 'networks: custom networks are not supported, services share the environment network'
+            : `${key}: top-level field not supported`,
+        );
+      }
+    }
+
+    this.assertNoInterpolation(compose, '');
+
+    const volumes = this.parseTopLevelVolumes(compose.volumes);
+    const secrets = this.parseTopLevelSecrets(compose.secrets);
+    const warnings: string[] = [];
+
+    const services = Object.entries(compose.services);
+    if (services.length === 0) {
+      throw new BadRequestException(
+        'services: at least one service is required',
+      );
+    }
+
+    const deployments = services.map(([name, service]) =>
+      this.translateService(
+        environmentId,
+        name,
+        service,
+        volumes,
+        secrets,
+        warnings,
+      ),
+    );
+
+    for (const deployment of deployments) {
+      for (const dependency of deployment.dependsOn) {
+        if (!compose.services[dependency]) {
+          throw new BadRequestException(
+            `services.${deployment.name}.depends_on: unknown service ${dependency}`,
+          );
+        }
+        if (dependency === deployment.name) {
+          throw new BadRequestException(
+            `services.${deployment.name}.depends_on: a service cannot depend on itself`,
+          );
+        }
+      }
+    }
+
+    return { deployments: this.orderByDependencies(deployments), warnings };
+  }
+
+  private translateService(
+    environmentId: string,
+    name: string,
+    service: unknown,
+    volumes: Set<string>,
+    secrets: Set<string>,
+    warnings: string[],
+  ): ComposeDeployment {
+    const path = `services.${name}`;
+
+    if (!DEPLOYMENT_NAME_PATTERN.test(name)) {
+      throw new BadRequestException(
+        `${path}: service names must be lowercase letters, digits and hyphens, starting with a letter or digit (max 63), they become deployment names`,
+      );
+    }
+
+    if (!this.isObject(service)) {
+      throw new BadRequestException(`${path} must be a map`);
+    }
+
+    for (const key of Object.keys(service)) {
+      if (key.startsWith('x-') || SERVICE_FIELDS.includes(key)) {
+        continue;
+      }
+      if (IGNORED_SERVICE_FIELDS[key]) {
+        warnings.push(
+          `${path}.${key} is ignored, ${IGNORED_SERVICE_FIELDS[key]}`,
+        );
+        continue;
+      }
+      throw new BadRequestException(
+        `${path}.${key}: ${UNSUPPORTED_SERVICE_FIELDS[key] ?? 'not supported'}`,
+      );
+    }
+
+    if (service.privileged !== undefined && service.privileged !== false) {
+      throw new BadRequestException(
+        `${path}.privileged: privileged containers are not supported`,
+      );
+    }
+
+    this.validateNetworks(path, service.networks);
+
+    if (typeof service.image !== 'string' || !service.image) {
+      throw new BadRequestException(`${path}.image is required`);
+    }
+
+    const { image, tag } = this.parseImage(`${path}.image`, service.image);
+    const deploy = this.parseDeploy(path, service.deploy, warnings);
+
+    return {
+      name,
+      dependsOn: this.parseDependsOn(path, service.depends_on),
+      dto: {
+        environmentId,
+        name,
+        image,
+        tag,
+        replicas: deploy.replicas,
+        ports: this.parsePorts(path, service.ports, service.expose),
+        envVars: this.parseEnvironment(path, service.environment),
+        volumes: this.parseVolumes(path, service.volumes, volumes),
+        secrets: this.parseSecrets(path, service.secrets, secrets),
+        resources: deploy.resources,
+        healthCheck: this.parseHealthCheck(path, service.healthcheck),
+      },
+    };
+  }
+
+  private parseImage(
+    path: string,
+    value: string,
+  ): { image: string; tag: string | undefined } {
+    if (value.includes('@')) {
+      throw new BadRequestException(
+        `${path}: image digests are not supported, use a tag`,
+      );
+    }
+
+    // A colon after the last slash separates the tag, earlier ones are a
+    // registry port
+    const colon = value.lastIndexOf(':');
+    if (colon > value.lastIndexOf('/')) {
+      return {
+        image: value.substring(0, colon),
+        tag: value.substring(colon + 1),
+      };
+    }
+
+    return { image: value, tag: undefined };
+  }
+
+  private parseEnvironment(
+    path: string,
+    environment: unknown,
+  ): Record<string, string> | undefined {
+    if (environment === undefined || environment === null) {
+      return undefined;
+    }
+
+    const envVars: Record<string, string> = {};
+
+    if (Array.isArray(environment)) {
+      environment.forEach((entry: unknown, index) => {
+        const separator = typeof entry === 'string' ? entry.indexOf('=') : -1;
+        if (separator < 1) {
+          throw new BadRequestException(
+            `${path}.environment[${index}] must be KEY=VALUE, values are not read from the host`,
+          );
+        }
+        const entryString = entry as string;
+        envVars[entryString.substring(0, separator)] = this.unescapeDollars(
+          entryString.substring(separator + 1),
+        );
+      });
+      return envVars;
+    }
+
+    if (!this.isObject(environment)) {
+      throw new BadRequestException(
+        `${path}.environment must be a map or a list`,
+      );
+    }
+
+    for (const [key, value] of Object.entries(environment)) {
+      if (
+        typeof value !== 'string' &&
+        typeof value !== 'number' &&
+        typeof value !== 'boolean'
+      ) {
+        throw new BadRequestException(
+          `${path}.environment.${key} needs a value, values are not read from the host`,
+        );
+      }
+      envVars[key] = this.unescapeDollars(String(value));
+    }
+
+    return envVars;
+  }
+
+  private parsePorts(
+    path: string,
+    ports: unknown,
+    expose: unknown,
+  ): CreateDeploymentDto['ports'] {
+    const result: NonNullable<CreateDeploymentDto['ports']> = [];
+
+    if (ports !== undefined && ports !== null) {
+      if (!Array.isArray(ports)) {
+        throw new BadRequestException(`${path}.ports must be a list`);
+      }
+
+      ports.forEach((entry: unknown, index) => {
+        result.push(this.parsePort(`${path}.ports[${index}]`, entry));
+      });
+    }
+
+    if (expose !== undefined && expose !== null) {
+      if (!Array.isArray(expose)) {
+        throw new BadRequestException(`${path}.expose must be a list`);
+      }
+
+      expose.forEach((entry: unknown, index) => {
+        const port = this.parsePort(`${path}.expose[${index}]`, entry);
+        if (port.host !== undefined) {
+          throw new BadRequestException(
+            `${path}.expose[${index}] must be a container port`,
+          );
+        }
+        if (!result.some((existing) => existing.container === port.container)) {
+          result.push(port);
+        }
+      });
+    }
+
+    return result.length > 0 ? result : undefined;
+  }
+
+  private parsePort(
+    path: string,
+    entry: unknown,
+  ): { container: number; host?: number; protocol?: 'tcp' | 'udp' } {
+    let container: unknown;
+    let host: unknown;
+    let protocol: unknown;
+
+    if (typeof entry === 'number') {
+      container = entry;
+    } else if (typeof entry === 'string') {
+      const [mapping, proto] = entry.split('/');
+      const parts = mapping.split(':');
+
+      if (parts.length > 2) {
+        throw new BadRequestException(
+          `${path}: binding to a host IP is not supported`,
+        );
+      }
+      if (mapping.includes('-')) {
+        throw new BadRequestException(`${path}: port ranges are not supported`);
+      }
+
+      container = Number(parts[parts.length - 1]);
+      host = parts.length === 2 && parts[0] ? Number(parts[0]) : undefined;
+      protocol = proto;
+    } else if (this.isObject(entry)) {
+      for (const key of Object.keys(entry)) {
+        if (!['target', 'published', 'protocol', 'mode'].includes(key)) {
+          throw new BadRequestException(
+            key === 'host_ip'
+              ? `${path}.host_ip: binding to a host IP is not supported`
+              : `${path}.${key}: not supported`,
+          );
+        }
+      }
+
+      container = entry.target;
+      host =
+        entry.published === undefined || entry.published === ''
+          ? undefined
+          : Number(entry.published);
+      protocol = entry.protocol;
+    } else {
+      throw new BadRequestException(
+        `${path} must be a port number, a "HOST:CONTAINER" string or a map`,
+      );
+    }
+
+    for (const [label, port] of [
+      ['container port', container],
+      ['published port', host],
+    ] as const) {
+      if (
+        port !== undefined &&
+        (!Number.isInteger(port) ||
+          (port as number) < 1 ||
+          (port as number) > 65535)
+      ) {
+        throw new BadRequestException(`${path}: invalid ${label}`);
+      }
+    }
+
+    if (protocol !== undefined && protocol !== 'tcp' && protocol !== 'udp') {
+      throw new BadRequestException(`${path}: protocol must be tcp or udp`);
+    }
+
+    return {
+      container: container as number,
+      ...(host !== undefined ? { host: host as number } : {}),
+      ...(protocol !== undefined ? { protocol } : {}),
+    };
+  }
+
+  private parseVolumes(
+    path: string,
+    mounts: unknown,
+    declared: Set<string>,
+  ): CreateDeploymentDto['volumes'] {
+    if (mounts === undefined || mounts === null) {
+      return undefined;
+    }
+
+    if (!Array.isArray(mounts)) {
+      throw new BadRequestException(`${path}.volumes must be a list`);
+    }
+
+    return mounts.map((mount: unknown, index) => {
+      const mountPath = `${path}.volumes[${index}]`;
+      let source: unknown;
+      let target: unknown;
+      let readOnly = false;
+
+      if (typeof mount === 'string') {
+        const parts = mount.split(':');
+        if (parts.length === 1) {
+          throw new BadRequestException(
+            `${mountPath}: anonymous volumes are not supported, name the volume`,
+          );
+        }
+        if (
+          parts.length > 3 ||
+          (parts[2] && !['ro', 'rw'].includes(parts[2]))
+        ) {
+          throw new BadRequestException(
+            `${mountPath}: only the ro and rw modes are supported`,
+          );
+        }
+        [source, target] = parts;
+        readOnly = parts[2] === 'ro';
+      } else if (this.isObject(mount)) {
+        for (const key of Object.keys(mount)) {
+          if (!['type', 'source', 'target', 'read_only'].includes(key)) {
+            throw new BadRequestException(`${mountPath}.${key}: not supported`);
+          }
+        }
+        if (mount.type === 'bind') {
+          throw new BadRequestException(
+            `${mountPath}: bind mounts are not supported, use a named volume`,
+          );
+        }
+        if (mount.type !== 'volume') {
+          throw new BadRequestException(
+            `${mountPath}.type: only named volumes are supported`,
+          );
+        }
+        source = mount.source;
+        target = mount.target;
+        readOnly = mount.read_only === true;
+      } else {
+        throw new BadRequestException(
+          `${mountPath} must be a "VOLUME:PATH" string or a map`,
+        );
+      }
+
+      if (typeof source !== 'string' || !source) {
+        throw new BadRequestException(
+          `${mountPath}: anonymous volumes are not supported, name the volume`,
+        );
+      }
+      if (/^[./~]/.test(source)) {
+        throw new BadRequestException(
+          `${mountPath}: bind mounts (${source}) are not supported, use a named volume`,
+        );
+      }
+      if (!declared.has(source)) {
+        throw new BadRequestException(
+          `${mountPath}: volume ${source} is not declared under the top-level volumes`,
+        );
+      }
+      if (typeof target !== 'string' || !target.startsWith('/')) {
+        throw new BadRequestException(
+          `${mountPath}: the mount path must be absolute`,
+        );
+      }
+
+      return {
+        name: source,
+        path: target,
+        ...(readOnly ? { readOnly } : {}),
+      };
+    });
+  }
+
+  private parseSecrets(
+    path: string,
+    references: unknown,
+    declared: Set<string>,
+  ): string[] | undefined {
+    if (references === undefined || references === null) {
+      return undefined;
+    }
+
+    if (!Array.isArray(references)) {
+      throw new BadRequestException(`${path}.secrets must be a list`);
+    }
+
+    return references.map((reference: unknown, index) => {
+      const referencePath = `${path}.secrets[${index}]`;
+      let source: unknown = reference;
+
+      if (this.isObject(reference)) {
+        for (const key of Object.keys(reference)) {
+          if (!['source', 'target'].includes(key)) {
+            throw new BadRequestException(
+              `${referencePath}.${key}: not supported`,
+            );
+          }
+        }
+        if (
+          reference.target !== undefined &&
+          reference.target !== reference.source
+        ) {
+          throw new BadRequestException(
+            `${referencePath}.target: secrets are mounted under their own name in /run/secrets`,
+          );
+        }
+        source = reference.source;
+      }
+
+      if (typeof source !== 'string' || !declared.has(source)) {
+        throw new BadRequestException(
+          `${referencePath}: secret ${String(source)} is not declared under the top-level secrets`,
+        );
+      }
+
+      return source;
+    });
+  }
+
+  private parseDeploy(
+    path: string,
+    deploy: unknown,
+    warnings: string[],
+  ): { replicas?: number; resources?: DeploymentResources } {
+    if (deploy === undefined || deploy === null) {
+      return {};
+    }
+
+    if (!this.isObject(deploy)) {
+      throw new BadRequestException(`${path}.deploy must be a map`);
+    }
+
+    for (const key of Object.keys(deploy)) {
+      if (key === 'restart_policy') {
+        warnings.push(
+          `${path}.deploy.restart_policy is ignored, Swarm restarts failed tasks`,
+        );
+      } else if (!['mode', 'replicas', 'resources'].includes(key)) {
+        throw new BadRequestException(`${path}.deploy.${key}: not supported`);
+      }
+    }
+
+    if (deploy.mode !== undefined && deploy.mode !== 'replicated') {
+      throw new BadRequestException(
+        `${path}.deploy.mode: only replicated services are supported`,
+      );
+    }
+
+    if (
+      deploy.replicas !== undefined &&
+      (!Number.isInteger(deploy.replicas) || deploy.replicas < 1)
+    ) {
+      throw new BadRequestException(
+        `${path}.deploy.replicas must be a positive integer`,
+      );
+    }
+
+    if (deploy.resources === undefined) {
+      return { replicas: deploy.replicas as number | undefined };
+    }
+
+    if (!this.isObject(deploy.resources)) {
+      throw new BadRequestException(`${path}.deploy.resources must be a map`);
+    }
+
+    const resources: DeploymentResources = {};
+
+    for (const [section, value] of Object.entries(deploy.resources)) {
+      const sectionPath = `${path}.deploy.resources.${section}`;
+      if (section !== 'limits' && section !== 'reservations') {
+        throw new BadRequestException(`${sectionPath}: not supported`);
+      }
+      if (!this.isObject(value)) {
+        throw new BadRequestException(`${sectionPath} must be a map`);
+      }
+
+      for (const [key, amount] of Object.entries(value)) {
+        if (key === 'cpus') {
+          const cpus = Number(amount);
+          if (typeof amount === 'boolean' || !(cpus > 0)) {
+            throw new BadRequestException(
+              `${sectionPath}.cpus must be a positive number of CPUs`,
+            );
+          }
+          resources[section === 'limits' ? 'cpuLimit' : 'cpuReservation'] =
+            cpus;
+        } else if (key === 'memory') {
+          resources[
+            section === 'limits' ? 'memoryLimit' : 'memoryReservation'
+          ] = this.parseMemory(`${sectionPath}.memory`, amount);
+        } else {
+          throw new BadRequestException(`${sectionPath}.${key}: not supported`);
+        }
+      }
+    }
+
+    return { replicas: deploy.replicas as number | undefined, resources };
+  }
+
+  // Compose byte values (512m, 1g, 1073741824), rounded up to whole MiB
+  private parseMemory(path: string, value: unknown): number {
+    const match =
+      typeof value === 'number'
+        ? ['', String(value), 'b']
+        : typeof value === 'string'
+          ? /^(\d+(?:\.\d+)?)\s*([bkmg])?b?$/i.exec(value.trim())
+          : null;
+
+    if (!match) {
+      throw new BadRequestException(
+        `${path} must be a byte value like 512m or 1g`,
+      );
+    }
+
+    const mebibytes = Math.ceil(
+      Number(match[1]) * MEMORY_UNITS[(match[2] ?? 'b').toLowerCase()],
+    );
+    if (mebibytes < 1) {
+      throw new BadRequestException(`${path} must be at least 1 MiB`);
+    }
+
+    return mebibytes;
+  }
+
+  private parseHealthCheck(
+    path: string,
+    healthcheck: unknown,
+  ): DeploymentHealthCheck | undefined {
+    if (healthcheck === undefined || healthcheck === null) {
+      return undefined;
+    }
+
+    const checkPath = `${path}.healthcheck`;
+    if (!this.isObject(healthcheck)) {
+      throw new BadRequestException(`${checkPath} must be a map`);
+    }
+
+    for (const key of Object.keys(healthcheck)) {
+      if (
+        ![
+          'test',
+          'interval',
+          'timeout',
+          'retries',
+          'start_period',
+          'disable',
+        ].includes(key)
+      ) {
+        throw new BadRequestException(`${checkPath}.${key}: not supported`);
+      }
+    }
+
+    const test: unknown = healthcheck.test;
+    if (
+      healthcheck.disable === true ||
+      (Array.isArray(test) && test[0] === 'NONE')
+    ) {
+      return undefined;
+    }
+
+    let command: string;
+    if (typeof test === 'string') {
+      command = test;
+    } else if (
+      Array.isArray(test) &&
+      test[0] === 'CMD-SHELL' &&
+      test.length === 2 &&
+      typeof test[1] === 'string'
+    ) {
+      command = test[1];
+    } else if (
+      Array.isArray(test) &&
+      test[0] === 'CMD' &&
+      test.length > 1 &&
+      test.every((arg) => typeof arg === 'string')
+    ) {
+      command = test
+        .slice(1)
+        .map((arg) => this.quoteShellArg(arg))
+        .join(' ');
+    } else {
+      throw new BadRequestException(
+        `${checkPath}.test must be a command string or a CMD, CMD-SHELL or NONE list`,
+      );
+    }
+
+    if (
+      healthcheck.retries !== undefined &&
+      (!Number.isInteger(healthcheck.retries) || healthcheck.retries < 1)
+    ) {
+      throw new BadRequestException(
+        `${checkPath}.retries must be a positive integer`,
+      );
+    }
+
+    return {
+      type: 'COMMAND',
+      command,
+      interval: this.parseDuration(
+        `${checkPath}.interval`,
+        healthcheck.interval,
+      ),
+      timeout: this.parseDuration(`${checkPath}.timeout`, healthcheck.timeout),
+      retries: healthcheck.retries as number | undefined,
+      startPeriod: this.parseDuration(
+        `${checkPath}.start_period`,
+        healthcheck.start_period,
+      ),
+    };
+  }
+
+  // Compose durations (30s, 1m30s, 500ms), rounded up to whole seconds
+  private parseDuration(path: string, value: unknown): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    if (
+      typeof value !== 'string' ||
+      !/^(\d+(\.\d+)?(us|ms|s|m|h))+$/.test(value)
+    ) {
+      throw new BadRequestException(
+        `${path} must be a duration like 30s or 1m30s`,
+      );
+    }
+
+    let seconds = 0;
+    for (const [, amount, , unit] of value.matchAll(
+      /(\d+(\.\d+)?)(us|ms|s|m|h)/g,
+    )) {
+      seconds += Number(amount) * DURATION_UNITS[unit];
+    }
+
+    return Math.max(1, Math.ceil(seconds));
+  }
+
+  private parseDependsOn(path: string, dependsOn: unknown): string[] {
+    if (dependsOn === undefined || dependsOn === null) {
+      return [];
+    }
+
+    if (Array.isArray(dependsOn)) {
+      if (!dependsOn.every((name) => typeof name === 'string')) {
+        throw new BadRequestException(
+          `${path}.depends_on must list service names`,
+        );
+      }
+      return [...new Set(dependsOn)];
+    }
+
+    if (!this.isObject(dependsOn)) {
+      throw new BadRequestException(
+        `${path}.depends_on must be a list or a map`,
+      );
+    }
+
+    for (const [name, options] of Object.entries(dependsOn)) {
+      const condition: unknown = this.isObject(options)
+        ? options.condition
+        : undefined;
+      // A dependency is waited for until RUNNING, which includes its health
+      // check when it has one
+      if (
+        condition !== undefined &&
+        condition !== 'service_started' &&
+        condition !== 'service_healthy'
+      ) {
+        throw new BadRequestException(
+          `${path}.depends_on.${name}.condition: only service_started and service_healthy are supported`,
+        );
+      }
+    }
+
+    return Object.keys(dependsOn);
+  }
+
+  private validateNetworks(path: string, networks: unknown): void {
+    if (networks === undefined || networks === null) {
+      return;
+    }
+
+    const names = Array.isArray(networks)
+      ? networks
+      : this.isObject(networks)
+        ? Object.keys(networks)
+        : null;
+
+    if (!names || names.some((name) => name !== 'default')) {
+      throw new BadRequestException(
+        `${path}.networks: custom networks are not supported, services share the environment network`,
+      );
+    }
+  }
+
+  private parseTopLevelVolumes(volumes: unknown): Set<string> {
+    if (volumes === undefined || volumes === null) {
+      return new Set();
+    }
+
+    if (!this.isObject(volumes)) {
+      throw new BadRequestException('volumes must be a map');
+    }
+
+    for (const [name, options] of Object.entries(volumes)) {
+      if (
+        options === null ||
+        (this.isObject(options) && !Object.keys(options).length)
+      ) {
+        continue;
+      }
+
+      throw new BadRequestException(
+        this.isObject(options) && options.external
+          ? `volumes.${name}: external volumes are not supported, volumes are created in the environment`
+          : `volumes.${name}: volume options are not supported, volumes are created by the platform`,
+      );
+    }
+
+    return new Set(Object.keys(volumes));
+  }
+
+  private parseTopLevelSecrets(secrets: unknown): Set<string> {
+    if (secrets === undefined || secrets === null) {
+      return new Set();
+    }
+
+    if (!this.isObject(secrets)) {
+      throw new BadRequestException('secrets must be a map');
+    }
+
+    for (const [name, options] of Object.entries(secrets)) {
+      if (!this.isObject(options) || options.external !== true) {
+        throw new BadRequestException(
+          `secrets.${name}: only external secrets are supported, store it as an environment secret and declare it with external: true`,
+        );
+      }
+    }
+
+    return new Set(Object.keys(secrets));
+  }
+
+  // Values are not interpolated from the host, a ${VAR} left in the file
+  // would be deployed as is
+  private assertNoInterpolation(value: unknown, path: string): void {
+    if (typeof value === 'string') {
+      if (/\$\{[^}]*\}/.test(value.replace(/\$\$/g, ''))) {
+        throw new BadRequestException(
+          `${path}: variable substitution is not supported, write the value in the file`,
+        );
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) =>
+        this.assertNoInterpolation(item, `${path}[${index}]`),
+      );
+    } else if (this.isObject(value)) {
+      for (const [key, item] of Object.entries(value)) {
+        this.assertNoInterpolation(item, path ? `${path}.${key}` : key);
+      }
+    }
+  }
+
+  /**
+   * Order deployments so dependencies come first, keeping the file order
+   * otherwise.
+   */
+  private orderByDependencies(
+    deployments: ComposeDeployment[],
+  ): ComposeDeployment[] {
+    const ordered: ComposeDeployment[] = [];
+    const placed = new Set<string>();
+    let remaining = deployments;
+
+    while (remaining.length > 0) {
+      const ready = remaining.filter((deployment) =>
+        deployment.dependsOn.every((name) => placed.has(name)),
+      );
+
+      if (ready.length === 0) {
+        throw new BadRequestException(
+          `depends_on: dependency cycle among services ${remaining.map((deployment) => deployment.name).join(', ')}`,
+        );
+      }
+
+      for (const deployment of ready) {
+        ordered.push(deployment);
+        placed.add(deployment.name);
+      }
+      remaining = remaining.filter(
+        (deployment) => !placed.has(deployment.name),
+      );
+    }
+
+    return ordered;
+  }
+
+  // $$ is how compose files write a literal $
+  private unescapeDollars(value: string): string {
+    return value.replace(/\$\$/g, () => '$');
+  }
+
+  private quoteShellArg(arg: string): string {
+    return /^[\w@%+=:,./-]+$/.test(arg)
+      ? arg
+      : `'${arg.replace(/'/g, `'\\''`)}'`;
+  }
+
+  private isObject(value: unknown): value is ComposeObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
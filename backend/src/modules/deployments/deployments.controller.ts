@@ -2,12 +2,17 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Put,
   Delete,
   Body,
   Param,
   Query,
+  Sse,
   UseGuards,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable, map } from 'rxjs';
 import { Throttle } from '@nestjs/throttler';
 import {
   ApiTags,
@@ -22,12 +27,21 @@ import { DeploymentsService } from './deployments.service';
 import type {
   CreateDeploymentDto,
   CreateDeploymentFromGitDto,
+  UpdateDeploymentDto,
+  RollbackDeploymentDto,
+  ScaleDeploymentDto,
+  DeploymentLogsQuery,
+  GitPollingDto,
+  SensitiveEnvKeysDto,
 } from './deployments.service';
+import { BuildsService } from '../builds/builds.service';
 import { ApiKeyGuard } from '../../common/guards/api-key.guard';
 import { ScopesGuard } from '../../common/guards/scopes.guard';
 import { RequireScopes } from '../../common/decorators/require-scopes.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
-import type { User } from '@prisma/client';
+import { ApiKeyDecorator } from '../../common/decorators/api-key.decorator';
+import { RevealSensitive } from '../../common/decorators/reveal-sensitive.decorator';
+import type { ApiKey, User } from '@prisma/client';
 import { ApiKeyScope } from '@prisma/client';
 
 @Controller('deployments')
@@ -35,7 +49,10 @@ import { ApiKeyScope } from '@prisma/client';
 @ApiTags('Deployments')
 @ApiSecurity('api-key')
 export class DeploymentsController {
-  constructor(private readonly deploymentsService: DeploymentsService) {}
+  constructor(
+    private readonly deploymentsService: DeploymentsService,
+    private readonly buildsService: BuildsService,
+  ) {}
 
   @Post()
   @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
@@ -58,6 +75,13 @@ export class DeploymentsController {
           description: 'Target environment ID',
           example: 'clx123abc456def',
         },
+        name: {
+          type: 'string',
+          description:
+            'Name unique in the environment, used to match manifest entries',
+          example: 'api',
+          pattern: '^[a-z0-9][a-z0-9-]{0,62}$',
+        },
         image: {
           type: 'string',
           description: 'Docker image name',
@@ -108,6 +132,77 @@ export class DeploymentsController {
             },
           },
         },
+        secrets: {
+          type: 'array',
+          description:
+            'Environment secrets (see PUT /environments/:id/secrets/:name) mounted at /run/secrets/{name}, ' +
+            'with {name}_FILE pointing to the file',
+          items: { type: 'string' },
+          example: ['DB_PASSWORD'],
+        },
+        sensitiveEnvKeys: {
+          type: 'array',
+          description:
+            'Env vars masked in API responses, logs and notifications, in addition to SENSITIVE_ENV_PATTERNS',
+          items: { type: 'string' },
+          example: ['STRIPE_WEBHOOK'],
+        },
+        resources: {
+          type: 'object',
+          description:
+            'CPU and memory limits and reservations. Omitted fields use the platform defaults (DEFAULT_CPU_LIMIT, DEFAULT_MEMORY_LIMIT_MB, ...); values above MAX_CPU_LIMIT or MAX_MEMORY_LIMIT_MB are rejected',
+          properties: {
+            cpuLimit: { type: 'number', description: 'CPUs', example: 0.5 },
+            memoryLimit: { type: 'number', description: 'MiB', example: 512 },
+            cpuReservation: {
+              type: 'number',
+              description: 'CPUs',
+              example: 0.25,
+            },
+            memoryReservation: {
+              type: 'number',
+              description: 'MiB',
+              example: 256,
+            },
+          },
+        },
+        healthCheck: {
+          type: 'object',
+          description:
+            'Probe run inside the containers. The deployment only becomes RUNNING once every replica passes it ' +
+            '(HTTP uses wget or curl, TCP uses nc or bash, which must exist in the image)',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['HTTP', 'TCP', 'COMMAND'],
+              example: 'HTTP',
+            },
+            path: {
+              type: 'string',
+              description: 'HTTP path, defaults to "/"',
+              example: '/health',
+            },
+            port: {
+              type: 'number',
+              description:
+                'HTTP/TCP port, defaults to virtualPort or the first container port',
+              example: 3000,
+            },
+            command: {
+              type: 'string',
+              description: 'COMMAND probe run with /bin/sh -c',
+              example: 'pg_isready -U postgres',
+            },
+            interval: { type: 'number', description: 'Seconds', default: 30 },
+            timeout: { type: 'number', description: 'Seconds', default: 10 },
+            retries: { type: 'number', default: 3 },
+            startPeriod: {
+              type: 'number',
+              description: 'Seconds during which failures are not counted',
+              default: 0,
+            },
+          },
+        },
         virtualHost: {
           type: 'string',
           description:
@@ -133,13 +228,18 @@ export class DeploymentsController {
       },
     },
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid configuration or resources above the platform maxima',
+  })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized',
   })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - Missing DEPLOYMENTS_WRITE scope',
+    description:
+      'Forbidden - Missing DEPLOYMENTS_WRITE scope or quota exceeded',
   })
   @ApiResponse({
     status: 404,
@@ -163,7 +263,10 @@ export class DeploymentsController {
     summary: 'Create deployment from Git repository',
     description:
       'Clone a Git repository, build a Docker image, and deploy it. ' +
-      'Supports custom build commands for Node.js, Python, Go, etc. ' +
+      'Builds with the Dockerfile of the repository when it has one, honouring the build context, build args and target. ' +
+      'Otherwise a Dockerfile is generated from a build plan detected from the repository files ' +
+      '(Node.js, Python, Go, Rust or a static site); baseImage and the commands override the detected values. ' +
+      'The plan is returned as `buildPlan` when polling the deployment. ' +
       'This operation is resource-intensive and has a lower rate limit. ' +
       '\n\n**Required scope**: `DEPLOYMENTS_WRITE`' +
       '\n\n**Rate limit**: 3 requests per minute',
@@ -178,11 +281,25 @@ export class DeploymentsController {
           description: 'Target environment ID',
           example: 'clx123abc456def',
         },
+        name: {
+          type: 'string',
+          description:
+            'Name unique in the environment, used to match manifest entries',
+          example: 'api',
+          pattern: '^[a-z0-9][a-z0-9-]{0,62}$',
+        },
         gitUrl: {
           type: 'string',
-          description: 'Git repository URL (HTTP/HTTPS)',
+          description:
+            'Git repository URL (HTTPS or SSH). Must not contain credentials, use gitCredentialId for private repositories',
           example: 'https://github.com/user/repo.git',
         },
+        gitCredentialId: {
+          type: 'string',
+          description:
+            'ID of a Git credential (see POST /git-credentials) used to clone a private repository',
+          example: 'clx888gcr123abc',
+        },
         branch: {
           type: 'string',
           description: 'Git branch to checkout',
@@ -191,34 +308,47 @@ export class DeploymentsController {
         },
         baseImage: {
           type: 'string',
-          description: 'Base Docker image',
+          description:
+            'Base Docker image of the generated Dockerfile (detected when omitted)',
           example: 'node:22-alpine',
-          default: 'node:22-alpine',
         },
         buildContext: {
           type: 'string',
-          description: 'Build context directory',
+          description: 'Repository directory used as build context',
           example: '.',
           default: '.',
         },
         dockerfile: {
           type: 'string',
-          description: 'Path to Dockerfile (optional)',
+          description:
+            'Path to the Dockerfile, relative to the build context. When omitted and the context has no Dockerfile, one is generated from baseImage and the commands',
           example: 'Dockerfile',
+          default: 'Dockerfile',
+        },
+        buildArgs: {
+          type: 'object',
+          description: 'Build arguments passed to the Dockerfile',
+          example: { NODE_ENV: 'production' },
+        },
+        target: {
+          type: 'string',
+          description: 'Stage to build in a multi-stage Dockerfile',
+          example: 'production',
         },
         installCommand: {
           type: 'string',
-          description: 'Dependency installation command',
+          description:
+            'Dependency installation command (detected when omitted)',
           example: 'yarn install',
         },
         buildCommand: {
           type: 'string',
-          description: 'Build command',
+          description: 'Build command (detected when omitted)',
           example: 'yarn build',
         },
         startCommand: {
           type: 'string',
-          description: 'Start command',
+          description: 'Start command (detected when omitted)',
           example: 'yarn start',
         },
         replicas: {
@@ -260,6 +390,77 @@ export class DeploymentsController {
             },
           },
         },
+        secrets: {
+          type: 'array',
+          description:
+            'Environment secrets (see PUT /environments/:id/secrets/:name) mounted at /run/secrets/{name}, ' +
+            'with {name}_FILE pointing to the file',
+          items: { type: 'string' },
+          example: ['DB_PASSWORD'],
+        },
+        sensitiveEnvKeys: {
+          type: 'array',
+          description:
+            'Env vars masked in API responses, logs and notifications, in addition to SENSITIVE_ENV_PATTERNS',
+          items: { type: 'string' },
+          example: ['STRIPE_WEBHOOK'],
+        },
+        resources: {
+          type: 'object',
+          description:
+            'CPU and memory limits and reservations. Omitted fields use the platform defaults (DEFAULT_CPU_LIMIT, DEFAULT_MEMORY_LIMIT_MB, ...); values above MAX_CPU_LIMIT or MAX_MEMORY_LIMIT_MB are rejected',
+          properties: {
+            cpuLimit: { type: 'number', description: 'CPUs', example: 0.5 },
+            memoryLimit: { type: 'number', description: 'MiB', example: 512 },
+            cpuReservation: {
+              type: 'number',
+              description: 'CPUs',
+              example: 0.25,
+            },
+            memoryReservation: {
+              type: 'number',
+              description: 'MiB',
+              example: 256,
+            },
+          },
+        },
+        healthCheck: {
+          type: 'object',
+          description:
+            'Probe run inside the containers. The deployment only becomes RUNNING once every replica passes it ' +
+            '(HTTP uses wget or curl, TCP uses nc or bash, which must exist in the image)',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['HTTP', 'TCP', 'COMMAND'],
+              example: 'HTTP',
+            },
+            path: {
+              type: 'string',
+              description: 'HTTP path, defaults to "/"',
+              example: '/health',
+            },
+            port: {
+              type: 'number',
+              description:
+                'HTTP/TCP port, defaults to virtualPort or the first container port',
+              example: 3000,
+            },
+            command: {
+              type: 'string',
+              description: 'COMMAND probe run with /bin/sh -c',
+              example: 'pg_isready -U postgres',
+            },
+            interval: { type: 'number', description: 'Seconds', default: 30 },
+            timeout: { type: 'number', description: 'Seconds', default: 10 },
+            retries: { type: 'number', default: 3 },
+            startPeriod: {
+              type: 'number',
+              description: 'Seconds during which failures are not counted',
+              default: 0,
+            },
+          },
+        },
         virtualHost: {
           type: 'string',
           description:
@@ -271,6 +472,18 @@ export class DeploymentsController {
           description: 'Container port to expose (required if virtualHost set)',
           example: 80,
         },
+        autoRebuild: {
+          type: 'boolean',
+          description:
+            'Rebuild and redeploy on pushes to the branch. The response includes the webhook URL and secret to configure in the Git provider',
+          default: false,
+        },
+        pollInterval: {
+          type: 'number',
+          description:
+            'Also check the branch for new commits every N seconds, for Git servers that cannot deliver webhooks (requires autoRebuild, minimum 60)',
+          example: 300,
+        },
       },
     },
   })
@@ -282,20 +495,28 @@ export class DeploymentsController {
         jobId: 'xyz789abc123',
         deploymentId: 'clx789ghi123jkl',
         status: 'PENDING',
+        webhook: {
+          url: 'https://api.example.com/webhooks/git/clx789ghi123jkl',
+          secret: '3f9a1c...e07b',
+        },
       },
     },
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid configuration or resources above the platform maxima',
+  })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized',
   })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden',
+    description: 'Forbidden or quota exceeded',
   })
   @ApiResponse({
     status: 404,
-    description: 'Environment not found',
+    description: 'Environment or Git credential not found',
   })
   @ApiResponse({
     status: 429,
@@ -314,7 +535,9 @@ export class DeploymentsController {
     summary: 'Get deployment status',
     description:
       'Poll deployment status by job ID. Use this to track async deployment progress. ' +
-      'Status progression: PENDING → PULLING_IMAGE → CREATING_VOLUMES → STARTING_CONTAINERS → RUNNING ' +
+      'Status progression: PENDING → PULLING_IMAGE → CREATING_VOLUMES → STARTING_CONTAINERS → RUNNING. ' +
+      'STARTING_CONTAINERS lasts until every replica runs and passes its health check, ' +
+      'deployments that do not get there within DEPLOYMENT_HEALTH_TIMEOUT_SECONDS fail. ' +
       '\n\n**Required scope**: `DEPLOYMENTS_READ`',
   })
   @ApiParam({
@@ -437,6 +660,7 @@ export class DeploymentsController {
     summary: 'Get deployment logs',
     description:
       'Retrieve service logs from a deployment. Returns logs from the deployment service. ' +
+      'Use GET /deployments/:id/logs/stream to follow logs in real time. ' +
       '\n\n**Required scope**: `LOGS_READ`',
   })
   @ApiParam({
@@ -451,6 +675,30 @@ export class DeploymentsController {
     example: 100,
     schema: { type: 'number', default: 100 },
   })
+  @ApiQuery({
+    name: 'since',
+    required: false,
+    description: 'Only logs after this time (Unix timestamp or ISO 8601 date)',
+    example: '2026-02-03T12:00:00Z',
+  })
+  @ApiQuery({
+    name: 'until',
+    required: false,
+    description: 'Only logs before this time (Unix timestamp or ISO 8601 date)',
+    example: '2026-02-03T13:00:00Z',
+  })
+  @ApiQuery({
+    name: 'stdout',
+    required: false,
+    description: 'Include stdout lines',
+    schema: { type: 'boolean', default: true },
+  })
+  @ApiQuery({
+    name: 'stderr',
+    required: false,
+    description: 'Include stderr lines',
+    schema: { type: 'boolean', default: true },
+  })
   @ApiResponse({
     status: 200,
     description: 'Service logs',
@@ -458,10 +706,14 @@ export class DeploymentsController {
       example: {
         logs:
           '2026-02-03T12:00:00.000Z [INFO] Server started on port 80\n' +
-          '2026-02-03T12:01:00.000Z [INFO] Request: GET /\n',
+          '2026-02-03T12:01:00.000Z [INFO] Request: GET /',
       },
     },
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid log filters',
+  })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized',
@@ -477,17 +729,1179 @@ export class DeploymentsController {
   async getDeploymentLogs(
     @CurrentUser() user: User,
     @Param('id') deploymentId: string,
-    @Query('tail') tail?: string,
+    @Query() query: DeploymentLogsQuery,
   ) {
-    const tailNum = tail ? parseInt(tail, 10) : 100;
     const logs = await this.deploymentsService.getDeploymentLogs(
       user.id,
       deploymentId,
-      tailNum,
+      query,
     );
     return { logs };
   }
 
+  @Sse(':id/logs/stream')
+  @RequireScopes(ApiKeyScope.LOGS_READ)
+  @ApiOperation({
+    summary: 'Stream deployment logs',
+    description:
+      'Follow service logs in real time over Server-Sent Events. ' +
+      'Each event carries one log line as JSON with its stream (stdout or stderr), timestamp and message. ' +
+      'The stream starts with the last `tail` lines and stays open until the client disconnects or the service is removed. ' +
+      '\n\n**Required scope**: `LOGS_READ`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiQuery({
+    name: 'tail',
+    required: false,
+    description: 'Number of log lines to retrieve',
+    example: 100,
+    schema: { type: 'number', default: 100 },
+  })
+  @ApiQuery({
+    name: 'since',
+    required: false,
+    description: 'Only logs after this time (Unix timestamp or ISO 8601 date)',
+    example: '2026-02-03T12:00:00Z',
+  })
+  @ApiQuery({
+    name: 'until',
+    required: false,
+    description: 'Only logs before this time (Unix timestamp or ISO 8601 date)',
+    example: '2026-02-03T13:00:00Z',
+  })
+  @ApiQuery({
+    name: 'stdout',
+    required: false,
+    description: 'Include stdout lines',
+    schema: { type: 'boolean', default: true },
+  })
+  @ApiQuery({
+    name: 'stderr',
+    required: false,
+    description: 'Include stderr lines',
+    schema: { type: 'boolean', default: true },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Event stream of log lines',
+    content: {
+      'text/event-stream': {
+        example:
+          'data: {"stream":"stdout","timestamp":"2026-02-03T12:00:00.000Z","message":"Server started on port 80"}\n\n',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid log filters',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Missing LOGS_READ scope',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment or service not found',
+  })
+  async streamDeploymentLogs(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+    @Query() query: DeploymentLogsQuery,
+  ): Promise<Observable<MessageEvent>> {
+    const lines = await this.deploymentsService.streamDeploymentLogs(
+      user.id,
+      deploymentId,
+      query,
+    );
+    return lines.pipe(map((line) => ({ data: line })));
+  }
+
+  @Patch(':id')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 5 updates per minute
+  @ApiOperation({
+    summary: 'Update deployment in place',
+    description:
+      'Change the image, tag, replicas, ports, environment variables or volumes of a running deployment. ' +
+      'The requested configuration is diffed against the current one and recorded as a new version. ' +
+      'With the default IN_PLACE strategy the Swarm service is updated in place, keeping the jobId, service name and volumes. ' +
+      'Deployments with a virtualHost can use the BLUE_GREEN strategy: a second service is started, ' +
+      'the domain is moved to it once healthy and only then is the old service removed. ' +
+      'The update is asynchronous - use GET /deployments/:id/versions to track its status. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE`' +
+      '\n\n**Rate limit**: 5 requests per minute',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID to update',
+    example: 'clx456def789ghi',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        strategy: {
+          type: 'string',
+          description: 'Update strategy (BLUE_GREEN requires virtualHost)',
+          enum: ['IN_PLACE', 'BLUE_GREEN'],
+          default: 'IN_PLACE',
+        },
+        image: {
+          type: 'string',
+          description: 'Docker image name',
+          example: 'nginx',
+        },
+        tag: {
+          type: 'string',
+          description: 'Image tag',
+          example: '1.27-alpine',
+        },
+        replicas: {
+          type: 'number',
+          description: 'Number of container replicas',
+          example: 2,
+        },
+        ports: {
+          type: 'array',
+          description: 'Port mappings (replaces the current list)',
+          items: {
+            type: 'object',
+            properties: {
+              container: { type: 'number', example: 80 },
+              host: { type: 'number', example: 8080 },
+              protocol: {
+                type: 'string',
+                enum: ['tcp', 'udp'],
+                default: 'tcp',
+              },
+            },
+          },
+        },
+        envVars: {
+          type: 'object',
+          description: 'Environment variables (replaces the current set)',
+          example: { NODE_ENV: 'production', PORT: '3030' },
+        },
+        volumes: {
+          type: 'array',
+          description: 'Volume mounts (replaces the current list)',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', example: 'app-data' },
+              path: { type: 'string', example: '/data' },
+              readOnly: { type: 'boolean', default: false },
+            },
+          },
+        },
+        secrets: {
+          type: 'array',
+          description:
+            'Environment secrets to mount (replaces the current list)',
+          items: { type: 'string' },
+          example: ['DB_PASSWORD'],
+        },
+        resources: {
+          type: 'object',
+          description:
+            'Resource fields to change, merged into the current limits and reservations',
+          properties: {
+            cpuLimit: { type: 'number', description: 'CPUs', example: 0.5 },
+            memoryLimit: { type: 'number', description: 'MiB', example: 512 },
+            cpuReservation: {
+              type: 'number',
+              description: 'CPUs',
+              example: 0.25,
+            },
+            memoryReservation: {
+              type: 'number',
+              description: 'MiB',
+              example: 256,
+            },
+          },
+        },
+        healthCheck: {
+          type: 'object',
+          nullable: true,
+          description: 'Replaces the health check, null removes it',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['HTTP', 'TCP', 'COMMAND'],
+              example: 'HTTP',
+            },
+            path: {
+              type: 'string',
+              description: 'HTTP path, defaults to "/"',
+              example: '/health',
+            },
+            port: {
+              type: 'number',
+              description:
+                'HTTP/TCP port, defaults to virtualPort or the first container port',
+              example: 3000,
+            },
+            command: {
+              type: 'string',
+              description: 'COMMAND probe run with /bin/sh -c',
+              example: 'pg_isready -U postgres',
+            },
+            interval: { type: 'number', description: 'Seconds', default: 30 },
+            timeout: { type: 'number', description: 'Seconds', default: 10 },
+            retries: { type: 'number', default: 3 },
+            startPeriod: {
+              type: 'number',
+              description: 'Seconds during which failures are not counted',
+              default: 0,
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Update initiated successfully',
+    schema: {
+      example: {
+        deploymentId: 'clx456def789ghi',
+        updateId: 'clx999upd123abc',
+        fromVersion: 1,
+        toVersion: 2,
+        strategy: 'IN_PLACE',
+        status: 'PENDING',
+        changes: {
+          tag: { from: 'alpine', to: '1.27-alpine' },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Deployment not RUNNING, no changes detected, strategy not applicable or resources above the platform maxima',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Missing DEPLOYMENTS_WRITE scope or quota exceeded',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Another update is already in progress',
+  })
+  async updateDeployment(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+    @Body() dto: UpdateDeploymentDto,
+  ) {
+    return this.deploymentsService.updateDeployment(user.id, deploymentId, dto);
+  }
+
+  @Post(':id/rollback')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 5 rollbacks per minute
+  @ApiOperation({
+    summary: 'Roll back deployment to a previous version',
+    description:
+      'Re-apply the stored configuration snapshot of a previous version in place. ' +
+      'Defaults to the version right before the current one. ' +
+      'The rollback is recorded in the update history with status ROLLED_BACK once applied. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE`' +
+      '\n\n**Rate limit**: 5 requests per minute',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID to roll back',
+    example: 'clx456def789ghi',
+  })
+  @ApiBody({
+    required: false,
+    schema: {
+      type: 'object',
+      properties: {
+        toVersion: {
+          type: 'number',
+          description:
+            'Version to roll back to (defaults to the previous version)',
+          example: 1,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rollback initiated successfully',
+    schema: {
+      example: {
+        deploymentId: 'clx456def789ghi',
+        updateId: 'clx999upd456def',
+        fromVersion: 2,
+        toVersion: 1,
+        status: 'PENDING',
+        changes: {
+          tag: { from: '1.27-alpine', to: 'alpine' },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Deployment not RUNNING, already at the requested version, or the version exceeds the resource limits or uses a missing secret',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Missing DEPLOYMENTS_WRITE scope or quota exceeded',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment or version not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Another update is already in progress',
+  })
+  async rollbackDeployment(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+    @Body() dto: RollbackDeploymentDto,
+  ) {
+    return this.deploymentsService.rollbackDeployment(
+      user.id,
+      deploymentId,
+      dto?.toVersion,
+    );
+  }
+
+  @Post(':id/scale')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 scale operations per minute
+  @ApiOperation({
+    summary: 'Scale deployment',
+    description:
+      'Change the number of replicas of a running deployment in place. Running tasks are kept. ' +
+      'The change is recorded as a new version and checked against the replica, CPU and memory quotas. ' +
+      'The response reports the tasks right after the change; poll GET /deployments/:id/tasks until `converged` is true. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE`' +
+      '\n\n**Rate limit**: 10 requests per minute',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID to scale',
+    example: 'clx456def789ghi',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['replicas'],
+      properties: {
+        replicas: {
+          type: 'number',
+          description: 'New number of replicas',
+          example: 2,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Service scaled',
+    schema: {
+      example: {
+        deploymentId: 'clx456def789ghi',
+        updateId: 'clx999upd789ghi',
+        fromVersion: 2,
+        toVersion: 3,
+        fromReplicas: 1,
+        replicas: 2,
+        runningReplicas: 1,
+        converged: false,
+        tasks: [
+          {
+            id: 'x1y2z3task1',
+            slot: 1,
+            nodeId: 'n0d3abc123',
+            state: 'running',
+            desiredState: 'running',
+            error: null,
+            updatedAt: '2026-02-04T09:00:05.000Z',
+          },
+          {
+            id: 'x1y2z3task2',
+            slot: 2,
+            nodeId: 'n0d3def456',
+            state: 'preparing',
+            desiredState: 'running',
+            error: null,
+            updatedAt: '2026-02-04T09:00:06.000Z',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Deployment not RUNNING, invalid replica count or replicas unchanged',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Missing DEPLOYMENTS_WRITE scope or quota exceeded',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Another update is already in progress',
+  })
+  async scaleDeployment(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+    @Body() dto: ScaleDeploymentDto,
+  ) {
+    return this.deploymentsService.scaleDeployment(
+      user.id,
+      deploymentId,
+      dto?.replicas,
+    );
+  }
+
+  @Get(':id/tasks')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_READ)
+  @ApiOperation({
+    summary: 'Get deployment tasks',
+    description:
+      'List the Swarm tasks of a deployment with their state, including running tasks that are being shut down. ' +
+      '`converged` is true once exactly the desired number of replicas is running. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_READ`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Task status',
+    schema: {
+      example: {
+        deploymentId: 'clx456def789ghi',
+        replicas: 2,
+        runningReplicas: 1,
+        converged: false,
+        tasks: [
+          {
+            id: 'x1y2z3task1',
+            slot: 1,
+            nodeId: 'n0d3abc123',
+            state: 'running',
+            desiredState: 'running',
+            error: null,
+            updatedAt: '2026-02-04T09:00:05.000Z',
+          },
+          {
+            id: 'x1y2z3task2',
+            slot: 2,
+            nodeId: 'n0d3def456',
+            state: 'preparing',
+            desiredState: 'running',
+            error: null,
+            updatedAt: '2026-02-04T09:00:06.000Z',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Deployment has no running service',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  async getDeploymentTasks(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+  ) {
+    return this.deploymentsService.getDeploymentTasks(user.id, deploymentId);
+  }
+
+  @Post(':id/stop')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 stop requests per minute
+  @ApiOperation({
+    summary: 'Stop deployment',
+    description:
+      'Scale the service of a running or failed deployment to zero. The service, configuration, volumes ' +
+      'and version history are kept, and a stopped deployment does not count towards the replica, CPU and memory quota. ' +
+      'The deployment moves to STOPPING, then to STOPPED once no task runs any more. ' +
+      'Poll GET /deployments/job/:jobId for progress. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE`' +
+      '\n\n**Rate limit**: 10 requests per minute',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID to stop',
+    example: 'clx456def789ghi',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Stop queued',
+    schema: {
+      example: {
+        jobId: 'a1b2c3d4e5f6g7h8',
+        deploymentId: 'clx456def789ghi',
+        previousStatus: 'RUNNING',
+        status: 'STOPPING',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Deployment not RUNNING or FAILED',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Missing DEPLOYMENTS_WRITE scope',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Another update, stop, start or restart is already in progress',
+  })
+  async stopDeployment(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+  ) {
+    return this.deploymentsService.stopDeployment(user.id, deploymentId);
+  }
+
+  @Post(':id/start')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 start requests per minute
+  @ApiOperation({
+    summary: 'Start deployment',
+    description:
+      'Scale a stopped deployment back to its replica count, recreating its service if it was removed meanwhile. ' +
+      'The deployment moves to STARTING, then to RUNNING once its tasks are healthy, or to FAILED. ' +
+      'Fails with 403 when its replicas, CPU or memory no longer fit in the quota. ' +
+      'Poll GET /deployments/job/:jobId for progress. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE`' +
+      '\n\n**Rate limit**: 10 requests per minute',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID to start',
+    example: 'clx456def789ghi',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Start queued',
+    schema: {
+      example: {
+        jobId: 'a1b2c3d4e5f6g7h8',
+        deploymentId: 'clx456def789ghi',
+        previousStatus: 'STOPPED',
+        status: 'STARTING',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Deployment not STOPPED or environment not active',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Missing DEPLOYMENTS_WRITE scope or quota exceeded',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Another stop, start or restart is already in progress',
+  })
+  async startDeployment(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+  ) {
+    return this.deploymentsService.startDeployment(user.id, deploymentId);
+  }
+
+  @Post(':id/restart')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 restart requests per minute
+  @ApiOperation({
+    summary: 'Restart deployment',
+    description:
+      'Replace every task of a running deployment with a fresh one, following the rolling update settings of its service. ' +
+      'The configuration is not changed and no version is recorded. ' +
+      'The deployment moves to RESTARTING, then back to RUNNING once the new tasks are healthy, or to FAILED. ' +
+      'Poll GET /deployments/job/:jobId for progress. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE`' +
+      '\n\n**Rate limit**: 10 requests per minute',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID to restart',
+    example: 'clx456def789ghi',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Restart queued',
+    schema: {
+      example: {
+        jobId: 'a1b2c3d4e5f6g7h8',
+        deploymentId: 'clx456def789ghi',
+        previousStatus: 'RUNNING',
+        status: 'RESTARTING',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Deployment not RUNNING',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Missing DEPLOYMENTS_WRITE scope',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Another update, stop, start or restart is already in progress',
+  })
+  async restartDeployment(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+  ) {
+    return this.deploymentsService.restartDeployment(user.id, deploymentId);
+  }
+
+  @Get(':id/versions')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_READ)
+  @ApiOperation({
+    summary: 'Get deployment version history',
+    description:
+      'List the configuration versions of a deployment and the updates applied between them, newest first. ' +
+      'Updates made by the autoscaler carry the `reason` of the decision. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_READ`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Version history',
+    schema: {
+      example: {
+        currentVersion: 2,
+        versions: [
+          {
+            version: 2,
+            image: 'nginx',
+            tag: '1.27-alpine',
+            replicas: 1,
+            createdAt: '2026-02-04T09:00:00.000Z',
+          },
+          {
+            version: 1,
+            image: 'nginx',
+            tag: 'alpine',
+            replicas: 1,
+            createdAt: '2026-02-03T12:00:00.000Z',
+          },
+        ],
+        updates: [
+          {
+            id: 'clx999upd123abc',
+            fromVersion: 1,
+            toVersion: 2,
+            updateStrategy: 'IN_PLACE',
+            status: 'COMPLETED',
+            changes: {
+              tag: { from: 'alpine', to: '1.27-alpine' },
+            },
+            reason: null,
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  async getDeploymentHistory(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+  ) {
+    return this.deploymentsService.getDeploymentHistory(user.id, deploymentId);
+  }
+
+  @Put(':id/sensitive-env-keys')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @ApiOperation({
+    summary: 'Set sensitive env keys',
+    description:
+      'Mark env vars of a deployment as sensitive in addition to the keys matched by SENSITIVE_ENV_PATTERNS. ' +
+      'Their values are shown as `********` in API responses, logs and notifications; ' +
+      'logs and notifications mask the keys of every deployment, as they are not tied to one. ' +
+      'Replaces the current list. Removing a key unmasks its values in the history, ' +
+      'so it also requires the `DEPLOYMENTS_REVEAL` scope. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE` (and `DEPLOYMENTS_REVEAL` to remove keys)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['keys'],
+      properties: {
+        keys: {
+          type: 'array',
+          description: 'Env var names to mask',
+          items: { type: 'string' },
+          example: ['STRIPE_WEBHOOK', 'SMTP_URL'],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sensitive env keys updated',
+    schema: {
+      example: {
+        deploymentId: 'clx456def789ghi',
+        sensitiveEnvKeys: ['STRIPE_WEBHOOK', 'SMTP_URL'],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'keys is not an array of env var names',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Missing DEPLOYMENTS_WRITE scope, or DEPLOYMENTS_REVEAL scope to remove keys',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  async setSensitiveEnvKeys(
+    @CurrentUser() user: User,
+    @ApiKeyDecorator() apiKey: ApiKey,
+    @Param('id') deploymentId: string,
+    @Body() dto: SensitiveEnvKeysDto,
+  ) {
+    return this.deploymentsService.setSensitiveEnvKeys(
+      user.id,
+      deploymentId,
+      dto,
+      apiKey.scopes.includes(ApiKeyScope.DEPLOYMENTS_REVEAL) ||
+        apiKey.scopes.includes(ApiKeyScope.ADMIN),
+    );
+  }
+
+  @Get(':id/env')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_REVEAL)
+  @RevealSensitive()
+  @ApiOperation({
+    summary: 'Reveal deployment env vars',
+    description:
+      'Return the env vars of a deployment in clear text. Every other endpoint masks sensitive values. ' +
+      'Each call is logged. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_REVEAL`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Unmasked env vars',
+    schema: {
+      example: {
+        deploymentId: 'clx456def789ghi',
+        envVars: {
+          NODE_ENV: 'production',
+          DATABASE_PASSWORD: 's3cr3t',
+        },
+        sensitiveEnvKeys: [],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Missing DEPLOYMENTS_REVEAL scope',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  async revealEnvVars(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+  ) {
+    return this.deploymentsService.revealEnvVars(user.id, deploymentId);
+  }
+
+  @Get(':id/builds')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_READ)
+  @ApiOperation({
+    summary: 'List deployment builds',
+    description:
+      'List the image builds of a Git deployment, newest first, with the built commit, detected build plan and step timing. ' +
+      'Use GET /builds/:id/logs to read the output of a build. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_READ`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Builds of the deployment',
+    schema: {
+      example: {
+        builds: [
+          {
+            id: 'clx777bld123abc',
+            deploymentId: 'clx456def789ghi',
+            status: 'SUCCEEDED',
+            gitUrl: 'https://github.com/user/repo.git',
+            gitBranch: 'main',
+            commitSha: '9fceb02d0ae598e95dc970b74767f19372d61af8',
+            image: 'my-app:latest',
+            steps: [
+              {
+                name: 'Step 1/6 : FROM node:20-alpine',
+                startedAt: '2026-02-03T12:00:01.000Z',
+                durationMs: 2300,
+              },
+            ],
+            buildPlan: {
+              stack: 'node',
+              baseImage: 'node:22',
+              installCommand: 'yarn install --frozen-lockfile',
+              buildCommand: 'yarn run build',
+              startCommand: 'yarn start',
+              port: 3000,
+            },
+            errorMessage: null,
+            startedAt: '2026-02-03T12:00:00.000Z',
+            completedAt: '2026-02-03T12:01:30.000Z',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  async listDeploymentBuilds(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+  ) {
+    return this.buildsService.listDeploymentBuilds(user.id, deploymentId);
+  }
+
+  @Post(':id/webhook')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @ApiOperation({
+    summary: 'Enable push webhook',
+    description:
+      'Enable autoRebuild for a Git deployment and generate its webhook secret. ' +
+      'Configure the returned URL and secret as a push webhook in GitHub, GitLab or Gitea; ' +
+      'pushes to the deployment branch then rebuild and redeploy it as a new version. ' +
+      'Calling this again rotates the secret. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Webhook enabled',
+    schema: {
+      example: {
+        deploymentId: 'clx456def789ghi',
+        autoRebuild: true,
+        gitBranch: 'main',
+        url: 'https://api.example.com/webhooks/git/clx456def789ghi',
+        secret: '3f9a1c...e07b',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Not a Git deployment',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  async enableWebhook(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+  ) {
+    return this.deploymentsService.enableWebhook(user.id, deploymentId);
+  }
+
+  @Delete(':id/webhook')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @ApiOperation({
+    summary: 'Disable push webhook',
+    description:
+      'Revoke the webhook secret of a Git deployment. autoRebuild stays enabled while the branch is polled. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook disabled',
+    schema: {
+      example: {
+        deploymentId: 'clx456def789ghi',
+        autoRebuild: false,
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  async disableWebhook(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+  ) {
+    return this.deploymentsService.disableWebhook(user.id, deploymentId);
+  }
+
+  @Post(':id/polling')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @ApiOperation({
+    summary: 'Enable Git polling',
+    description:
+      'Enable autoRebuild for a Git deployment by checking its branch with git ls-remote every `interval` seconds. ' +
+      'Use it for Git servers that cannot reach the platform to deliver webhooks. ' +
+      'When the branch moved to a commit that was not built yet, the deployment is rebuilt and redeployed. ' +
+      'Unreachable remotes are retried with exponential backoff. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['interval'],
+      properties: {
+        interval: {
+          type: 'number',
+          description: 'Seconds between checks (minimum 60 by default)',
+          example: 300,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Polling enabled',
+    schema: {
+      example: {
+        deploymentId: 'clx456def789ghi',
+        autoRebuild: true,
+        gitBranch: 'main',
+        interval: 300,
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Not a Git deployment or invalid interval',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  async enablePolling(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+    @Body() dto: GitPollingDto,
+  ) {
+    return this.deploymentsService.enablePolling(user.id, deploymentId, dto);
+  }
+
+  @Delete(':id/polling')
+  @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
+  @ApiOperation({
+    summary: 'Disable Git polling',
+    description:
+      'Stop checking the branch of a Git deployment for new commits. ' +
+      'autoRebuild stays enabled while a push webhook is configured. ' +
+      '\n\n**Required scope**: `DEPLOYMENTS_WRITE`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Polling disabled',
+    schema: {
+      example: {
+        deploymentId: 'clx456def789ghi',
+        autoRebuild: false,
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found',
+  })
+  async disablePolling(
+    @CurrentUser() user: User,
+    @Param('id') deploymentId: string,
+  ) {
+    return this.deploymentsService.disablePolling(user.id, deploymentId);
+  }
+
   @Delete(':id')
   @RequireScopes(ApiKeyScope.DEPLOYMENTS_WRITE)
   @ApiOperation({
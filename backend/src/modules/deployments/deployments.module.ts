@@ -1,12 +1,29 @@
 import { Module } from '@nestjs/common';
 import { EventEmitterModule } from '@nestjs/event-emitter';
+import { BullModule } from '@nestjs/bullmq';
 import { DeploymentsService } from './deployments.service';
 import { DeploymentsController } from './deployments.controller';
+import { DeploymentsProcessor } from './deployments.processor';
+import { DEPLOYMENTS_QUEUE } from './deployments.queue';
 import { DockerModule } from '../../integrations/docker/docker.module';
+import { BuildsModule } from '../builds/builds.module';
+import { GitCredentialsModule } from '../git-credentials/git-credentials.module';
+import { RegistryCredentialsModule } from '../registry-credentials/registry-credentials.module';
+import { EnvironmentSecretsModule } from '../environment-secrets/environment-secrets.module';
+import { QuotasModule } from '../quotas/quotas.module';
 
 @Module({
-  imports: [DockerModule, EventEmitterModule],
-  providers: [DeploymentsService],
+  imports: [
+    DockerModule,
+    BuildsModule,
+    GitCredentialsModule,
+    RegistryCredentialsModule,
+    EnvironmentSecretsModule,
+    QuotasModule,
+    EventEmitterModule,
+    BullModule.registerQueue({ name: DEPLOYMENTS_QUEUE }),
+  ],
+  providers: [DeploymentsService, DeploymentsProcessor],
   controllers: [DeploymentsController],
   exports: [DeploymentsService],
 })
@@ -0,0 +1,123 @@
+import { Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { DeploymentsService } from './deployments.service';
+import {
+  DEPLOYMENTS_QUEUE,
+  DeploymentJobName,
+  DeployJobData,
+  UpdateJobData,
+} from './deployments.queue';
+
+@Processor(DEPLOYMENTS_QUEUE)
+export class DeploymentsProcessor
+  extends WorkerHost
+  implements OnApplicationBootstrap
+{
+  private readonly logger = new Logger(DeploymentsProcessor.name);
+
+  constructor(
+    private readonly deploymentsService: DeploymentsService,
+    private readonly configService: ConfigService,
+  ) {
+    super();
+  }
+
+  async onApplicationBootstrap() {
+    this.worker.concurrency = this.configService.get<number>(
+      'queue.concurrency',
+      2,
+    );
+
+    // Re-enqueue in-flight work whose queue job was lost
+    await this.deploymentsService.resumeInterruptedJobs().catch((error) => {
+      this.logger.error(`Failed to resume deployment jobs: ${error.message}`);
+    });
+  }
+
+  async process(job: Job): Promise<void> {
+    // Only the last attempt marks the deployment as FAILED
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+    this.logger.log(
+      `Processing ${job.name} job ${job.id} (attempt ${job.attemptsMade + 1}/${job.opts.attempts ?? 1})`,
+    );
+
+    switch (job.name as DeploymentJobName) {
+      case DeploymentJobName.DEPLOY:
+        return this.deploymentsService.processDeployment(
+          (job.data as DeployJobData).deploymentId,
+          finalAttempt,
+        );
+      case DeploymentJobName.DEPLOY_GIT:
+        return this.deploymentsService.processDeploymentFromGit(
+          (job.data as DeployJobData).deploymentId,
+          finalAttempt,
+        );
+      case DeploymentJobName.REBUILD:
+        return this.deploymentsService.processRebuild(
+          (job.data as DeployJobData).deploymentId,
+          finalAttempt,
+        );
+      case DeploymentJobName.STOP:
+        return this.deploymentsService.processStop(
+          (job.data as DeployJobData).deploymentId,
+          finalAttempt,
+        );
+      case DeploymentJobName.START:
+        return this.deploymentsService.processStart(
+          (job.data as DeployJobData).deploymentId,
+          finalAttempt,
+        );
+      case DeploymentJobName.RESTART:
+        return this.deploymentsService.processRestart(
+          (job.data as DeployJobData).deploymentId,
+          finalAttempt,
+        );
+      case DeploymentJobName.UPDATE: {
+        const { updateId, completedStatus } = job.data as UpdateJobData;
+        return this.deploymentsService.processDeploymentUpdate(
+          updateId,
+          completedStatus,
+          finalAttempt,
+        );
+      }
+      default:
+        throw new Error(`Unknown deployment job: ${job.name}`);
+    }
+  }
+
+  @OnWorkerEvent('completed')
+  async onCompleted(job: Job) {
+    if (job.name === (DeploymentJobName.REBUILD as string)) {
+      await this.resumePendingRebuild(job);
+    }
+  }
+
+  @OnWorkerEvent('failed')
+  async onFailed(job: Job | undefined, error: Error) {
+    this.logger.warn(
+      `${job?.name} job ${job?.id} failed (attempt ${job?.attemptsMade}): ${error.message}`,
+    );
+
+    if (
+      job?.name === (DeploymentJobName.REBUILD as string) &&
+      job.attemptsMade >= (job.opts.attempts ?? 1)
+    ) {
+      await this.resumePendingRebuild(job);
+    }
+  }
+
+  // Pushes received while a rebuild ran are built once its job has finished
+  private async resumePendingRebuild(job: Job) {
+    const { deploymentId } = job.data as DeployJobData;
+    await this.deploymentsService
+      .resumePendingRebuild(deploymentId)
+      .catch((error) => {
+        this.logger.error(
+          `Failed to queue pending rebuild of ${deploymentId}: ${error.message}`,
+        );
+      });
+  }
+}
@@ -0,0 +1,24 @@
+import type { DeploymentUpdateStatus } from '@prisma/client';
+
+export const DEPLOYMENTS_QUEUE = 'deployments';
+
+export enum DeploymentJobName {
+  DEPLOY = 'deploy', // Pull a registry image and create the service
+  DEPLOY_GIT = 'deploy-git', // Build from a Git repository and create the service
+  UPDATE = 'update', // Apply a DeploymentUpdate (update or rollback)
+  REBUILD = 'rebuild', // Rebuild a Git deployment after a push and roll it out
+  STOP = 'stop', // Scale the service to zero, keeping config and volumes
+  START = 'start', // Scale a stopped deployment back up
+  RESTART = 'restart', // Force a rolling restart of every task
+}
+
+export interface DeployJobData {
+  deploymentId: string;
+}
+
+export interface UpdateJobData {
+  updateId: string;
+  completedStatus: DeploymentUpdateStatus; // COMPLETED, or ROLLED_BACK for rollbacks
+}
+
+export type DeploymentJobData = DeployJobData | UpdateJobData;
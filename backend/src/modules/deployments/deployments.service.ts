@@ -4,43 +4,109 @@ import {
   NotFoundException,
   BadRequestException,
   ConflictException,
+  ForbiddenException,
+  OnApplicationBootstrap,
 } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
 import { PrismaService } from '../../core/database/prisma.service';
 import { ContainerService } from '../../integrations/docker/container.service';
+import type {
+  LogLine,
+  LogOptions,
+  ServiceConfig,
+  RegistryAuth,
+} from '../../integrations/docker/container.service';
 import { VolumeService } from '../../integrations/docker/volume.service';
+import { BuildsService } from '../builds/builds.service';
+import { GitCredentialsService } from '../git-credentials/git-credentials.service';
+import { RegistryCredentialsService } from '../registry-credentials/registry-credentials.service';
+import { EnvironmentSecretsService } from '../environment-secrets/environment-secrets.service';
+import { QuotasService } from '../quotas/quotas.service';
 import {
   DeploymentStatus,
+  DeploymentUpdatePhase,
+  DeploymentUpdateStatus,
+  DeploymentUpdateStrategy,
   ServiceStatus,
+  HealthStatus,
   EnvironmentStatus,
+  Prisma,
 } from '@prisma/client';
+import type { Deployment, Environment, Service } from '@prisma/client';
 import { nanoid } from 'nanoid';
+import * as crypto from 'crypto';
+import { Observable } from 'rxjs';
 import {
   DeploymentSuccessEvent,
   DeploymentFailedEvent,
   DeploymentStartedEvent,
   DeploymentStoppedEvent,
+  DeploymentResumedEvent,
+  DeploymentRestartedEvent,
 } from '../../common/events/notification.events';
+import {
+  DEFAULT_SENSITIVE_ENV_PATTERNS,
+  compileEnvPatterns,
+  redactEnvVars,
+  registerSensitiveEnvKeys,
+} from '../../common/utils/redaction';
+import {
+  DEPLOYMENTS_QUEUE,
+  DeploymentJobName,
+  DeploymentJobData,
+} from './deployments.queue';
+
+// CPU in CPUs (0.5 = half a CPU), memory in MiB
+export interface DeploymentResources {
+  cpuLimit?: number;
+  memoryLimit?: number;
+  cpuReservation?: number;
+  memoryReservation?: number;
+}
+
+// Probe run inside the containers, RUNNING is only set once it passes
+export interface DeploymentHealthCheck {
+  type: 'HTTP' | 'TCP' | 'COMMAND';
+  path?: string; // HTTP, defaults to "/"
+  port?: number; // HTTP/TCP, defaults to virtualPort or the first container port
+  command?: string; // COMMAND, run with /bin/sh -c, healthy on exit code 0
+  interval?: number; // Seconds between probes, defaults to 30
+  timeout?: number; // Seconds before a probe fails, defaults to 10
+  retries?: number; // Consecutive failures before unhealthy, defaults to 3
+  startPeriod?: number; // Seconds during which failures don't count, defaults to 0
+}
 
 export interface CreateDeploymentDto {
   environmentId: string;
+  name?: string; // Unique in the environment, e.g. "api"
   image: string;
   tag?: string;
   replicas?: number;
   ports?: Array<{ container: number; host?: number; protocol?: 'tcp' | 'udp' }>;
   envVars?: Record<string, string>;
   volumes?: Array<{ name: string; path: string; readOnly?: boolean }>;
+  secrets?: string[]; // Environment secrets mounted in /run/secrets
+  sensitiveEnvKeys?: string[]; // Masked in responses on top of SENSITIVE_ENV_PATTERNS
+  resources?: DeploymentResources; // Platform defaults apply to omitted fields
+  healthCheck?: DeploymentHealthCheck;
   virtualHost?: string; // Optional domain for public access
   virtualPort?: number; // Optional port for proxy
 }
 
 export interface CreateDeploymentFromGitDto {
   environmentId: string;
-  gitUrl: string;
+  name?: string; // Unique in the environment, e.g. "api"
+  gitUrl: string; // https:// or SSH URL, without embedded credentials
+  gitCredentialId?: string; // Stored credential for private repositories
   branch?: string;
   baseImage?: string; // e.g., "node:22", "python:3.11-alpine"
-  buildContext?: string;
-  dockerfile?: string;
+  buildContext?: string; // Repository directory to build, e.g. "services/api"
+  dockerfile?: string; // Relative to the build context, generated when absent
+  buildArgs?: Record<string, string>;
+  target?: string; // Multi-stage build target
   installCommand?: string; // e.g., "yarn install" or "pip install -r requirements.txt"
   buildCommand?: string; // e.g., "yarn run build" or "go build"
   startCommand?: string; // e.g., "yarn start" or "python app.py"
@@ -48,23 +114,159 @@ export interface CreateDeploymentFromGitDto {
   ports?: Array<{ container: number; host?: number; protocol?: 'tcp' | 'udp' }>;
   envVars?: Record<string, string>;
   volumes?: Array<{ name: string; path: string; readOnly?: boolean }>;
+  secrets?: string[]; // Environment secrets mounted in /run/secrets
+  sensitiveEnvKeys?: string[]; // Masked in responses on top of SENSITIVE_ENV_PATTERNS
+  resources?: DeploymentResources; // Platform defaults apply to omitted fields
+  healthCheck?: DeploymentHealthCheck;
   virtualHost?: string; // Optional domain for public access
   virtualPort?: number; // Optional port for proxy
+  autoRebuild?: boolean; // Rebuild and redeploy on pushes to the branch
+  pollInterval?: number; // Seconds between checks of the branch, requires autoRebuild
+}
+
+// Build options of a Git deployment, persisted so queued builds can be resumed
+export type GitBuildConfig = Pick<
+  CreateDeploymentFromGitDto,
+  | 'baseImage'
+  | 'buildContext'
+  | 'dockerfile'
+  | 'buildArgs'
+  | 'target'
+  | 'installCommand'
+  | 'buildCommand'
+  | 'startCommand'
+>;
+
+export interface UpdateDeploymentDto {
+  strategy?: DeploymentUpdateStrategy; // IN_PLACE (default) or BLUE_GREEN
+  image?: string;
+  tag?: string;
+  replicas?: number;
+  ports?: Array<{ container: number; host?: number; protocol?: 'tcp' | 'udp' }>;
+  envVars?: Record<string, string>;
+  volumes?: Array<{ name: string; path: string; readOnly?: boolean }>;
+  secrets?: string[];
+  resources?: DeploymentResources; // Merged into the current resources
+  healthCheck?: DeploymentHealthCheck | null; // null removes the health check
+}
+
+export interface SensitiveEnvKeysDto {
+  keys: string[];
+}
+
+export interface GitPollingDto {
+  interval: number; // Seconds between checks of the branch
 }
 
+export interface ScaleDeploymentDto {
+  replicas: number;
+}
+
+export interface RollbackDeploymentDto {
+  toVersion?: number; // Defaults to the previous version
+}
+
+// Raw query parameters of the log endpoints
+export interface DeploymentLogsQuery {
+  tail?: string;
+  since?: string; // Unix timestamp (seconds) or ISO 8601 date
+  until?: string;
+  stdout?: string; // "false" to hide stdout
+  stderr?: string; // "false" to hide stderr
+}
+
+// Configuration captured by each DeploymentVersion snapshot
+export interface DeploymentConfig {
+  image: string;
+  tag: string;
+  replicas: number;
+  ports: CreateDeploymentDto['ports'] | null;
+  envVars: Record<string, string> | null;
+  volumes: CreateDeploymentDto['volumes'] | null;
+  secrets: string[] | null;
+  resources: DeploymentResources | null;
+  healthCheck: DeploymentHealthCheck | null;
+}
+
+// Deployment names, unique in an environment
+export const DEPLOYMENT_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+// Data copied into a volume of a new deployment, from a full volume name
+export interface VolumeCopy {
+  from: string;
+  to: string; // Volume name as listed in the deployment's volumes
+}
+
+// Options of internal callers, never read from request bodies
+export interface CreateDeploymentOptions {
+  volumeCopies?: VolumeCopy[]; // Copied after the volumes are created
+  dependsOn?: string[]; // Deployment IDs, the job is queued once they are all RUNNING
+  replaces?: { deploymentId: string; preserveVolumes: boolean }; // Deleted once the new row holds its name, before the job is queued
+}
+
+export type DeploymentWithRelations = Deployment & {
+  environment: Environment;
+  service?: Service | null;
+};
+
 @Injectable()
-export class DeploymentsService {
+export class DeploymentsService implements OnApplicationBootstrap {
   private readonly logger = new Logger(DeploymentsService.name);
   private readonly JOB_ID_LENGTH = 16;
+  private readonly IN_FLIGHT_STATUSES: DeploymentStatus[] = [
+    DeploymentStatus.PENDING,
+    DeploymentStatus.PULLING_IMAGE,
+    DeploymentStatus.CREATING_VOLUMES,
+    DeploymentStatus.STARTING_CONTAINERS,
+  ];
+
+  // Lifecycle statuses and the queue job that moves a deployment out of them
+  private readonly LIFECYCLE_JOBS: Partial<
+    Record<DeploymentStatus, DeploymentJobName>
+  > = {
+    [DeploymentStatus.STOPPING]: DeploymentJobName.STOP,
+    [DeploymentStatus.STARTING]: DeploymentJobName.START,
+    [DeploymentStatus.RESTARTING]: DeploymentJobName.RESTART,
+  };
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly containerService: ContainerService,
     private readonly volumeService: VolumeService,
+    private readonly buildsService: BuildsService,
+    private readonly gitCredentialsService: GitCredentialsService,
+    private readonly registryCredentialsService: RegistryCredentialsService,
+    private readonly environmentSecretsService: EnvironmentSecretsService,
+    private readonly quotasService: QuotasService,
     private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
+    @InjectQueue(DEPLOYMENTS_QUEUE) private readonly deploymentsQueue: Queue,
   ) {}
 
-  async createDeployment(userId: string, dto: CreateDeploymentDto) {
+  async onApplicationBootstrap() {
+    // Log lines and notifications are masked with the keys of every deployment
+    const deployments = await this.prisma.deployment
+      .findMany({
+        where: { sensitiveEnvKeys: { not: Prisma.DbNull } },
+        select: { sensitiveEnvKeys: true },
+      })
+      .catch((error) => {
+        this.logger.error(
+          `Failed to load sensitive env keys: ${error.message}`,
+        );
+        return [];
+      });
+
+    for (const deployment of deployments) {
+      registerSensitiveEnvKeys(deployment.sensitiveEnvKeys as string[]);
+    }
+  }
+
+  async createDeployment(
+    userId: string,
+    dto: CreateDeploymentDto,
+    options: CreateDeploymentOptions = {},
+  ) {
     this.logger.log(`Creating deployment for environment ${dto.environmentId}`);
 
     // Verify environment exists and belongs to user
@@ -85,64 +287,126 @@ export class DeploymentsService {
       );
     }
 
-    // Validate virtual host configuration
-    if (dto.virtualHost || dto.virtualPort) {
-      if (dto.virtualHost && !dto.virtualPort) {
-        throw new BadRequestException(
-          'virtualPort is required when virtualHost is specified',
-        );
-      }
-
-      if (dto.virtualHost) {
-        // Validate domain format
-        if (!/^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(dto.virtualHost)) {
-          throw new BadRequestException('Invalid domain format');
-        }
-
-        // Check uniqueness - only RUNNING deployments
-        const existing = await this.prisma.deployment.findFirst({
-          where: {
-            virtualHost: dto.virtualHost,
-            status: DeploymentStatus.RUNNING,
-          },
-        });
-
-        if (existing) {
-          throw new ConflictException(
-            `Domain ${dto.virtualHost} is already in use by a running deployment`,
-          );
-        }
-      }
-    }
+    const replacedId = options.replaces?.deploymentId;
+    await this.validateDeploymentName(environment.id, dto.name, replacedId);
+    const { resources } = await this.previewDeployment(environment, dto);
+    this.validateSensitiveEnvKeys(dto.sensitiveEnvKeys);
+    await this.quotasService.assertDeploymentsWithinQuota(
+      userId,
+      [
+        {
+          environmentId: environment.id,
+          replicas: dto.replicas || 1,
+          resources,
+          volumes: dto.volumes ?? null,
+        },
+      ],
+      replacedId ? [replacedId] : [],
+    );
+    await this.assertDomainAvailable(dto.virtualHost, replacedId);
 
     // Generate job ID
     const jobId = nanoid(this.JOB_ID_LENGTH);
 
     // Create deployment record
-    const deployment = await this.prisma.deployment.create({
-      data: {
-        environmentId: dto.environmentId,
-        jobId,
-        image: dto.image,
-        tag: dto.tag || 'latest',
-        replicas: dto.replicas || 1,
-        ports: dto.ports as any,
-        envVars: dto.envVars as any,
-        volumes: dto.volumes as any,
-        virtualHost: dto.virtualHost || null,
-        virtualPort: dto.virtualPort || null,
-        status: DeploymentStatus.PENDING,
+    const data: Prisma.DeploymentUncheckedCreateInput = {
+      environmentId: dto.environmentId,
+      name: dto.name ?? null,
+      jobId,
+      image: dto.image,
+      tag: dto.tag || 'latest',
+      replicas: dto.replicas || 1,
+      ports: dto.ports as any,
+      envVars: dto.envVars as any,
+      volumes: dto.volumes as any,
+      secrets: dto.secrets as any,
+      sensitiveEnvKeys: dto.sensitiveEnvKeys as any,
+      resources: resources as any,
+      healthCheck: dto.healthCheck as any,
+      pendingVolumeCopies: options.volumeCopies?.length
+        ? (options.volumeCopies as any)
+        : undefined,
+      dependsOn: options.dependsOn?.length
+        ? (options.dependsOn as any)
+        : undefined,
+      virtualHost: dto.virtualHost || null,
+      virtualPort: dto.virtualPort || null,
+      status: DeploymentStatus.PENDING,
+      versions: {
+        create: {
+          version: 1,
+          image: dto.image,
+          tag: dto.tag || 'latest',
+          replicas: dto.replicas || 1,
+          ports: dto.ports as any,
+          envVars: dto.envVars as any,
+          volumes: (this.resolveVolumes(environment.name, dto.volumes) ??
+            undefined) as any,
+          secrets: dto.secrets as any,
+          resources: resources as any,
+          healthCheck: dto.healthCheck as any,
+          createdBy: userId,
+        },
       },
-    });
+    };
 
-    // Start async deployment process (fire and forget)
-    this.processDeployment(deployment.id, environment.overlayNetworkId).catch(
-      (error) => {
-        this.logger.error(
-          `Deployment processing failed for ${deployment.id}: ${error.message}`,
+    // A replacement takes the name over from the deployment it replaces
+    const deployment = replacedId
+      ? (
+          await this.prisma.$transaction([
+            this.prisma.deployment.update({
+              where: { id: replacedId },
+              data: { name: null },
+            }),
+            this.prisma.deployment.create({ data }),
+          ])
+        )[1]
+      : await this.prisma.deployment.create({ data });
+    if (dto.sensitiveEnvKeys) {
+      registerSensitiveEnvKeys(dto.sensitiveEnvKeys);
+    }
+
+    // Removed before the job is queued, so both never run side by side. The
+    // new row is dropped again if that fails.
+    if (options.replaces) {
+      try {
+        await this.deleteDeployment(
+          userId,
+          options.replaces.deploymentId,
+          options.replaces.preserveVolumes,
         );
-      },
-    );
+      } catch (error) {
+        await this.prisma
+          .$transaction([
+            this.prisma.deployment.delete({ where: { id: deployment.id } }),
+            this.prisma.deployment.updateMany({
+              where: { id: options.replaces.deploymentId },
+              data: { name: deployment.name },
+            }),
+          ])
+          .catch((undoError) => {
+            this.logger.error(
+              `Failed to undo deployment ${deployment.id}: ${undoError.message}`,
+            );
+          });
+        throw error;
+      }
+    }
+
+    // Hand the pipeline to the deployment queue, or wait for the
+    // dependencies to be running
+    if (options.dependsOn?.length) {
+      this.logger.log(
+        `Deployment ${deployment.id} waits for its dependencies: ${options.dependsOn.join(', ')}`,
+      );
+
+      // Dependencies may have settled before this row existed
+      await this.resolveWaitingDeployment({ ...deployment, environment });
+    } else {
+      await this.enqueueJob(DeploymentJobName.DEPLOY, deployment.jobId, {
+        deploymentId: deployment.id,
+      });
+    }
 
     return {
       jobId: deployment.jobId,
@@ -151,49 +415,100 @@ export class DeploymentsService {
     };
   }
 
-  private async processDeployment(
+  /**
+   * Validate the configuration of a new image deployment and resolve its
+   * defaults without creating anything. Quota and domain availability are
+   * left to the caller.
+   */
+  async previewDeployment(
+    environment: Environment,
+    dto: CreateDeploymentDto,
+  ): Promise<DeploymentConfig> {
+    await this.environmentSecretsService.validateSecretNames(
+      environment.id,
+      dto.secrets,
+    );
+    if (
+      dto.replicas !== undefined &&
+      (!Number.isInteger(dto.replicas) || dto.replicas < 1)
+    ) {
+      throw new BadRequestException('replicas must be a positive integer');
+    }
+    const resources = this.resolveResources(
+      dto.resources,
+      this.getDefaultResources(),
+    );
+    this.validateHealthCheck(dto.healthCheck, dto.virtualPort, dto.ports);
+    this.validateVirtualHost(dto.virtualHost, dto.virtualPort);
+
+    return {
+      image: dto.image,
+      tag: dto.tag || 'latest',
+      replicas: dto.replicas || 1,
+      ports: dto.ports ?? null,
+      envVars: dto.envVars ?? null,
+      volumes: this.resolveVolumes(environment.name, dto.volumes),
+      secrets: dto.secrets ?? null,
+      resources,
+      healthCheck: dto.healthCheck ?? null,
+    };
+  }
+
+  /**
+   * Run the image deployment pipeline. Called by the deployment queue worker;
+   * every step is safe to repeat so a retried or resumed job picks up where
+   * the previous attempt stopped.
+   */
+  async processDeployment(
     deploymentId: string,
-    networkName: string,
+    finalAttempt = true,
   ): Promise<void> {
     this.logger.log(`Processing deployment ${deploymentId}`);
 
-    try {
-      // Get deployment details
-      const deployment = await this.prisma.deployment.findUnique({
-        where: { id: deploymentId },
-        include: { environment: true },
-      });
+    // Get deployment details
+    const deployment = await this.prisma.deployment.findUnique({
+      where: { id: deploymentId },
+      include: { environment: true, service: true },
+    });
 
-      if (!deployment) {
-        throw new Error('Deployment not found');
-      }
+    if (!deployment || !this.IN_FLIGHT_STATUSES.includes(deployment.status)) {
+      this.logger.warn(`Deployment ${deploymentId} is no longer pending`);
+      return;
+    }
 
+    try {
       // Step 1: Update status to PULLING_IMAGE
       await this.prisma.deployment.update({
         where: { id: deploymentId },
         data: {
           status: DeploymentStatus.PULLING_IMAGE,
-          startedAt: new Date(),
+          startedAt: deployment.startedAt ?? new Date(),
         },
       });
 
       // Emit deployment started event
-      this.eventEmitter.emit(
-        'deployment.started',
-        new DeploymentStartedEvent(
-          deployment.environment.userId,
-          deploymentId,
-          deployment.environmentId,
-          deployment.environment.name,
-          deployment.image,
-          deployment.tag,
-          false, // isGitDeployment
-        ),
-      );
+      if (deployment.status === DeploymentStatus.PENDING) {
+        this.eventEmitter.emit(
+          'deployment.started',
+          new DeploymentStartedEvent(
+            deployment.environment.userId,
+            deploymentId,
+            deployment.environmentId,
+            deployment.environment.name,
+            deployment.image,
+            deployment.tag,
+            false, // isGitDeployment
+          ),
+        );
+      }
 
       // Pull image
       this.logger.log(`Pulling image ${deployment.image}:${deployment.tag}`);
-      await this.containerService.pullImage(deployment.image, deployment.tag);
+      await this.containerService.pullImage(
+        deployment.image,
+        deployment.tag,
+        await this.getRegistryAuth(deployment, deployment.image),
+      );
 
       // Step 2: Update status to CREATING_VOLUMES
       await this.prisma.deployment.update({
@@ -210,7 +525,10 @@ export class DeploymentsService {
 
       if (volumes && volumes.length > 0) {
         for (const volume of volumes) {
-          const volumeName = `vol_${deployment.environment.name}_${volume.name}`;
+          const volumeName = this.resolveVolumeName(
+            deployment.environment.name,
+            volume.name,
+          );
           this.logger.log(`Creating volume ${volumeName}`);
 
           await this.volumeService.createVolume(volumeName, {
@@ -229,63 +547,23 @@ export class DeploymentsService {
         });
       }
 
+      await this.copyPendingVolumes(deployment);
+
       // Step 3: Update status to STARTING_CONTAINERS
       await this.prisma.deployment.update({
         where: { id: deploymentId },
         data: { status: DeploymentStatus.STARTING_CONTAINERS },
       });
 
-      // Create service name using jobId (stays under 63 char limit)
-      const serviceName = `job_${deployment.environment.name}_${deployment.jobId}`;
-
       // Create Docker Swarm service
-      this.logger.log(`Creating service ${serviceName}`);
-
-      const ports = deployment.ports as any as Array<{
-        container: number;
-        host?: number;
-        protocol?: 'tcp' | 'udp';
-      }>;
-
-      const envVars = deployment.envVars as any as Record<string, string>;
-
-      // Add nginx-proxy env vars if deployment has virtualHost
-      if (deployment.virtualHost && deployment.virtualPort) {
-        envVars['VIRTUAL_HOST'] = deployment.virtualHost;
-        envVars['VIRTUAL_PORT'] = deployment.virtualPort.toString();
-        envVars['LETSENCRYPT_HOST'] = deployment.virtualHost;
-      }
-
-      // Prepare service labels
-      const labels: Record<string, string> = {
-        'com.deployment-platform.environment': deployment.environmentId,
-        'com.deployment-platform.deployment': deploymentId,
-        'com.deployment-platform.managed': 'true',
-      };
-
-      // Services stay on their environment's overlay network only
-      // nginx-proxy attaches to the environment network for isolation
-
-      await this.containerService.createService({
-        name: serviceName,
-        image: deployment.image,
-        tag: deployment.tag,
-        replicas: deployment.replicas,
-        env: envVars,
-        ports: ports,
-        volumes: volumes,
-        networks: [networkName],
-        labels,
-      });
+      const serviceConfig = await this.buildServiceConfig(
+        deployment,
+        this.getDeploymentConfig(deployment),
+      );
+      await this.ensureService(deployment, serviceConfig);
 
-      // Create service record
-      await this.prisma.service.create({
-        data: {
-          deploymentId: deployment.id,
-          name: serviceName,
-          status: ServiceStatus.RUNNING,
-        },
-      });
+      // Only report success once the tasks are up and pass their health check
+      await this.waitForHealthyService(deployment, serviceConfig.name);
 
       // Step 4: Update status to RUNNING
       await this.prisma.deployment.update({
@@ -313,7 +591,20 @@ export class DeploymentsService {
       );
 
       this.logger.log(`Deployment ${deploymentId} completed successfully`);
+
+      await this.resolveDependents(deploymentId);
     } catch (error) {
+      if (!finalAttempt) {
+        this.logger.warn(
+          `Deployment ${deploymentId} attempt failed, retrying: ${error.message}`,
+        );
+        await this.prisma.deployment.update({
+          where: { id: deploymentId },
+          data: { errorMessage: error.message },
+        });
+        throw error;
+      }
+
       this.logger.error(
         `Deployment ${deploymentId} failed: ${error.message}`,
         error.stack,
@@ -350,6 +641,10 @@ export class DeploymentsService {
           ),
         );
       }
+
+      await this.resolveDependents(deploymentId);
+
+      throw error;
     }
   }
 
@@ -359,6 +654,7 @@ export class DeploymentsService {
         jobId,
         environment: { userId },
       },
+      omit: { webhookSecret: true },
       include: {
         service: true,
         environment: {
@@ -393,6 +689,7 @@ export class DeploymentsService {
 
     return this.prisma.deployment.findMany({
       where: { environmentId },
+      omit: { webhookSecret: true },
       include: {
         service: true,
       },
@@ -405,7 +702,7 @@ export class DeploymentsService {
   async getDeploymentLogs(
     userId: string,
     deploymentId: string,
-    tail = 100,
+    query: DeploymentLogsQuery = {},
   ): Promise<string> {
     const deployment = await this.prisma.deployment.findFirst({
       where: {
@@ -428,10 +725,16 @@ export class DeploymentsService {
     }
 
     try {
-      return await this.containerService.getServiceLogs(
+      const lines = await this.containerService.getServiceLogs(
         deployment.service.name,
-        tail,
+        this.parseLogOptions(query),
       );
+
+      return lines
+        .map((line) =>
+          line.timestamp ? `${line.timestamp} ${line.message}` : line.message,
+        )
+        .join('\n');
     } catch (error) {
       this.logger.error(
         `Failed to get logs for deployment ${deploymentId}: ${error.message}`,
@@ -440,6 +743,33 @@ export class DeploymentsService {
     }
   }
 
+  async streamDeploymentLogs(
+    userId: string,
+    deploymentId: string,
+    query: DeploymentLogsQuery = {},
+  ): Promise<Observable<LogLine>> {
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+      include: { service: true },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    if (!deployment.service) {
+      throw new NotFoundException('No service found for this deployment');
+    }
+
+    return this.containerService.followServiceLogs(
+      deployment.service.name,
+      this.parseLogOptions(query),
+    );
+  }
+
   async deleteDeployment(
     userId: string,
     deploymentId: string,
@@ -478,6 +808,13 @@ export class DeploymentsService {
       );
     }
 
+    // Leave RUNNING first so the reconciler does not recreate the service
+    // removed below
+    await this.prisma.deployment.update({
+      where: { id: deploymentId },
+      data: { status: DeploymentStatus.DELETING },
+    });
+
     // Remove Docker service
     if (deployment.service?.name) {
       try {
@@ -499,12 +836,17 @@ export class DeploymentsService {
       }>;
 
       for (const volume of volumes) {
+        // Rows written before the names were persisted hold the short name
+        const volumeName = this.resolveVolumeName(
+          deployment.environment.name,
+          volume.name,
+        );
         try {
-          await this.volumeService.deleteVolume(volume.name);
-          this.logger.log(`Deleted volume ${volume.name}`);
+          await this.volumeService.deleteVolume(volumeName);
+          this.logger.log(`Deleted volume ${volumeName}`);
         } catch (error) {
           this.logger.warn(
-            `Failed to delete volume ${volume.name}: ${error.message}`,
+            `Failed to delete volume ${volumeName}: ${error.message}`,
           );
         }
       }
@@ -517,6 +859,8 @@ export class DeploymentsService {
 
     this.logger.log(`Deployment ${deploymentId} deleted successfully`);
 
+    await this.resolveDependents(deploymentId);
+
     return {
       message: preserveVolumes
         ? 'Deployment deleted successfully (volumes preserved)'
@@ -524,314 +868,3047 @@ export class DeploymentsService {
     };
   }
 
-  async createDeploymentFromGit(
+  async updateDeployment(
     userId: string,
-    dto: CreateDeploymentFromGitDto,
+    deploymentId: string,
+    dto: UpdateDeploymentDto,
   ) {
-    this.logger.log(
-      `Creating deployment from Git for environment ${dto.environmentId}`,
-    );
+    this.logger.log(`Updating deployment ${deploymentId}`);
 
-    // Verify environment exists and belongs to user
-    const environment = await this.prisma.environment.findFirst({
+    const deployment = await this.prisma.deployment.findFirst({
       where: {
-        id: dto.environmentId,
-        userId,
+        id: deploymentId,
+        environment: { userId },
+      },
+      include: {
+        service: true,
+        environment: true,
       },
     });
 
-    if (!environment) {
-      throw new NotFoundException('Environment not found');
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
     }
 
-    if (environment.status !== EnvironmentStatus.ACTIVE) {
-      throw new BadRequestException('Environment is not active');
+    if (deployment.status !== DeploymentStatus.RUNNING || !deployment.service) {
+      throw new BadRequestException(
+        'Deployment must be in RUNNING status to update',
+      );
+    }
+
+    const strategy = dto.strategy ?? DeploymentUpdateStrategy.IN_PLACE;
+    if (!Object.values(DeploymentUpdateStrategy).includes(strategy)) {
+      throw new BadRequestException(
+        `strategy must be one of: ${Object.values(DeploymentUpdateStrategy).join(', ')}`,
+      );
+    }
+
+    const { target, changes } = await this.prepareUpdate(deployment, dto);
+    if (Object.keys(changes).length === 0) {
+      throw new BadRequestException('No changes detected');
     }
 
-    // Validate virtual host configuration
-    if (dto.virtualHost || dto.virtualPort) {
-      if (dto.virtualHost && !dto.virtualPort) {
+    if (changes.replicas || changes.resources || changes.volumes) {
+      await this.quotasService.assertDeploymentWithinQuota(userId, {
+        environmentId: deployment.environmentId,
+        deploymentId: deployment.id,
+        replicas: target.replicas,
+        resources: target.resources,
+        volumes: target.volumes ?? null,
+      });
+    }
+
+    if (strategy === DeploymentUpdateStrategy.BLUE_GREEN) {
+      if (!deployment.virtualHost || !deployment.virtualPort) {
         throw new BadRequestException(
-          'virtualPort is required when virtualHost is specified',
+          'Blue-green updates require a deployment with virtualHost',
         );
       }
 
-      if (dto.virtualHost) {
-        // Validate domain format
-        if (!/^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(dto.virtualHost)) {
-          throw new BadRequestException('Invalid domain format');
-        }
-
-        // Check uniqueness - only RUNNING deployments
-        const existing = await this.prisma.deployment.findFirst({
-          where: {
-            virtualHost: dto.virtualHost,
-            status: DeploymentStatus.RUNNING,
-          },
-        });
-
-        if (existing) {
-          throw new ConflictException(
-            `Domain ${dto.virtualHost} is already in use by a running deployment`,
-          );
-        }
+      // Both services run side by side, so host ports would collide
+      if (target.ports?.some((port) => port.host)) {
+        throw new BadRequestException(
+          'Blue-green updates are not supported for deployments publishing host ports',
+        );
       }
     }
 
-    // Generate job ID and image name
-    const jobId = nanoid(this.JOB_ID_LENGTH);
-    const timestampSeconds = Math.floor(Date.now() / 1000);
-    const imageName =
-      `img_${environment.name}_${timestampSeconds}`.toLowerCase();
-    const tag = dto.branch || 'latest';
+    const update = await this.recordDeploymentUpdate(
+      deployment,
+      changes,
+      strategy,
+      { config: target, createdBy: userId },
+    );
 
-    // Create deployment record
-    const deployment = await this.prisma.deployment.create({
-      data: {
-        environmentId: dto.environmentId,
-        jobId,
-        image: imageName,
-        tag,
-        replicas: dto.replicas || 1,
-        ports: dto.ports || [],
-        envVars: dto.envVars || {},
-        volumes: dto.volumes || undefined,
-        virtualHost: dto.virtualHost || null,
-        virtualPort: dto.virtualPort || null,
-        status: DeploymentStatus.PENDING,
-        // Git deployment metadata
-        gitUrl: dto.gitUrl,
-        gitBranch: dto.branch || 'main',
-        autoRebuild: false,
+    // Apply the update through the deployment queue
+    await this.enqueueJob(
+      DeploymentJobName.UPDATE,
+      this.getUpdateJobId(deployment.jobId, update.id),
+      {
+        updateId: update.id,
+        completedStatus: DeploymentUpdateStatus.COMPLETED,
       },
-    });
-
-    // Start async deployment process
-    this.processDeploymentFromGit(
-      deployment.id,
-      environment.overlayNetworkId,
-      dto.gitUrl,
-      dto.branch,
-      dto.baseImage,
-      dto.buildContext,
-      dto.dockerfile,
-      dto.installCommand,
-      dto.buildCommand,
-      dto.startCommand,
-    ).catch((error) => {
-      this.logger.error(`Deployment ${deployment.id} failed: ${error.message}`);
-    });
+    );
 
     return {
-      jobId,
       deploymentId: deployment.id,
-      status: deployment.status,
+      updateId: update.id,
+      fromVersion: update.fromVersion,
+      toVersion: update.toVersion,
+      strategy: update.updateStrategy,
+      status: update.status,
+      changes,
     };
   }
 
-  private async processDeploymentFromGit(
+  /**
+   * Validate the changes of an update without recording it. Returns the
+   * configuration the deployment would move to and the masked diff, empty
+   * when nothing changes. The status of the deployment is not checked.
+   */
+  async previewUpdate(
+    userId: string,
     deploymentId: string,
-    networkName: string,
-    gitUrl: string,
-    branch?: string,
-    baseImage?: string,
-    buildContext?: string,
-    dockerfile?: string,
-    installCommand?: string,
-    buildCommand?: string,
-    startCommand?: string,
-  ): Promise<void> {
-    this.logger.log(`Processing deployment from Git: ${deploymentId}`);
-    try {
-      const deployment = await this.prisma.deployment.findUnique({
-        where: { id: deploymentId },
-        include: { environment: true },
-      });
+    dto: UpdateDeploymentDto,
+  ) {
+    const deployment = await this.findOwnedDeployment(userId, deploymentId);
+    return this.prepareUpdate(deployment, dto);
+  }
 
-      if (!deployment) {
-        throw new Error('Deployment not found');
-      }
+  private async prepareUpdate(
+    deployment: DeploymentWithRelations,
+    dto: UpdateDeploymentDto,
+  ): Promise<{
+    target: DeploymentConfig;
+    changes: Record<string, { from: unknown; to: unknown }>;
+  }> {
+    if (
+      dto.replicas !== undefined &&
+      (!Number.isInteger(dto.replicas) || dto.replicas < 1)
+    ) {
+      throw new BadRequestException('replicas must be a positive integer');
+    }
+
+    const config = this.getDeploymentConfig(deployment);
+    const current: DeploymentConfig = {
+      ...config,
+      volumes: this.resolveVolumes(deployment.environment.name, config.volumes),
+    };
+    const target: DeploymentConfig = {
+      image: dto.image ?? current.image,
+      tag: dto.tag ?? current.tag,
+      replicas: dto.replicas ?? current.replicas,
+      ports: dto.ports ?? current.ports,
+      envVars: dto.envVars ?? current.envVars,
+      volumes: this.resolveVolumes(
+        deployment.environment.name,
+        dto.volumes ?? current.volumes,
+      ),
+      secrets: dto.secrets ?? current.secrets,
+      resources: dto.resources
+        ? this.resolveResources(
+            dto.resources,
+            current.resources ?? this.getDefaultResources(),
+          )
+        : current.resources,
+      healthCheck:
+        dto.healthCheck !== undefined ? dto.healthCheck : current.healthCheck,
+    };
+
+    await this.environmentSecretsService.validateSecretNames(
+      deployment.environmentId,
+      dto.secrets,
+    );
+    this.validateHealthCheck(
+      target.healthCheck,
+      deployment.virtualPort,
+      target.ports,
+    );
+
+    return {
+      target,
+      changes: this.diffDeploymentConfig(
+        current,
+        target,
+        deployment.sensitiveEnvKeys,
+      ),
+    };
+  }
+
+  async rollbackDeployment(
+    userId: string,
+    deploymentId: string,
+    toVersion?: number,
+  ) {
+    this.logger.log(`Rolling back deployment ${deploymentId}`);
+
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+      include: {
+        service: true,
+        environment: true,
+      },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    if (deployment.status !== DeploymentStatus.RUNNING || !deployment.service) {
+      throw new BadRequestException(
+        'Deployment must be in RUNNING status to roll back',
+      );
+    }
+
+    if (
+      toVersion !== undefined &&
+      (!Number.isInteger(toVersion) || toVersion < 1)
+    ) {
+      throw new BadRequestException('toVersion must be a positive integer');
+    }
+
+    if (toVersion === deployment.currentVersion) {
+      throw new BadRequestException(
+        `Deployment is already at version ${toVersion}`,
+      );
+    }
+
+    // Default to the version right before the current one
+    const version =
+      toVersion !== undefined
+        ? await this.prisma.deploymentVersion.findUnique({
+            where: {
+              deploymentId_version: { deploymentId, version: toVersion },
+            },
+          })
+        : await this.prisma.deploymentVersion.findFirst({
+            where: {
+              deploymentId,
+              version: { lt: deployment.currentVersion },
+            },
+            orderBy: { version: 'desc' },
+          });
+
+    if (!version) {
+      throw new NotFoundException(
+        toVersion !== undefined
+          ? `Version ${toVersion} not found`
+          : 'No previous version to roll back to',
+      );
+    }
+
+    const config = this.getDeploymentConfig(deployment);
+    const current: DeploymentConfig = {
+      ...config,
+      volumes: this.resolveVolumes(deployment.environment.name, config.volumes),
+    };
+    const target = this.getDeploymentConfig(version);
+    const changes = this.diffDeploymentConfig(
+      current,
+      target,
+      deployment.sensitiveEnvKeys,
+    );
+
+    // Limits, secrets and quota may have changed since the version was recorded
+    if (target.resources) {
+      this.resolveResources(target.resources, {});
+    }
+    await this.environmentSecretsService.validateSecretNames(
+      deployment.environmentId,
+      target.secrets,
+    );
+    if (changes.replicas || changes.resources || changes.volumes) {
+      await this.quotasService.assertDeploymentWithinQuota(userId, {
+        environmentId: deployment.environmentId,
+        deploymentId: deployment.id,
+        replicas: target.replicas,
+        resources: target.resources,
+        volumes: target.volumes ?? null,
+      });
+    }
+
+    const update = await this.recordDeploymentUpdate(
+      deployment,
+      changes,
+      DeploymentUpdateStrategy.IN_PLACE,
+      { existing: version.version },
+    );
+
+    // Apply the rollback through the deployment queue
+    await this.enqueueJob(
+      DeploymentJobName.UPDATE,
+      this.getUpdateJobId(deployment.jobId, update.id),
+      {
+        updateId: update.id,
+        completedStatus: DeploymentUpdateStatus.ROLLED_BACK,
+      },
+    );
+
+    return {
+      deploymentId: deployment.id,
+      updateId: update.id,
+      fromVersion: update.fromVersion,
+      toVersion: update.toVersion,
+      status: update.status,
+      changes,
+    };
+  }
+
+  /**
+   * Change the replica count of a running deployment in place. The change is
+   * recorded as a new version and applied right away, without going through
+   * the update queue. Returns the task status right after the change.
+   */
+  async scaleDeployment(
+    userId: string,
+    deploymentId: string,
+    replicas: number,
+  ) {
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+      include: {
+        service: true,
+        environment: true,
+      },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    if (!Number.isInteger(replicas) || replicas < 1) {
+      throw new BadRequestException('replicas must be a positive integer');
+    }
+
+    return this.applyScale(deployment, replicas, userId);
+  }
+
+  /**
+   * Scale a deployment on behalf of its autoscaling policy. The reason is
+   * stored on the recorded update so the decision shows in the history.
+   */
+  async autoscaleDeployment(
+    deploymentId: string,
+    replicas: number,
+    reason: string,
+  ) {
+    const deployment = await this.prisma.deployment.findUnique({
+      where: { id: deploymentId },
+      include: {
+        service: true,
+        environment: true,
+      },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    return this.applyScale(deployment, replicas, 'autoscaler', reason);
+  }
+
+  private async applyScale(
+    deployment: DeploymentWithRelations,
+    replicas: number,
+    createdBy: string,
+    reason?: string,
+  ) {
+    if (deployment.status !== DeploymentStatus.RUNNING || !deployment.service) {
+      throw new BadRequestException(
+        'Deployment must be in RUNNING status to scale',
+      );
+    }
+
+    if (replicas === deployment.replicas) {
+      throw new BadRequestException(
+        `Deployment already runs ${replicas} replica(s)`,
+      );
+    }
+
+    const config = this.getDeploymentConfig(deployment);
+    const current: DeploymentConfig = {
+      ...config,
+      volumes: this.resolveVolumes(deployment.environment.name, config.volumes),
+    };
+    const target: DeploymentConfig = { ...current, replicas };
+
+    await this.quotasService.assertDeploymentWithinQuota(
+      deployment.environment.userId,
+      {
+        environmentId: deployment.environmentId,
+        deploymentId: deployment.id,
+        replicas,
+        resources: target.resources,
+        volumes: target.volumes ?? null,
+      },
+    );
+
+    const update = await this.recordDeploymentUpdate(
+      deployment,
+      this.diffDeploymentConfig(current, target, deployment.sensitiveEnvKeys),
+      DeploymentUpdateStrategy.IN_PLACE,
+      {
+        config: target,
+        createdBy,
+        gitCommitSha: deployment.gitCommitSha,
+        reason,
+      },
+    );
+    const startedAt = new Date();
+
+    try {
+      await this.containerService.scaleService(
+        deployment.service.name,
+        replicas,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to scale deployment ${deployment.id}: ${error.message}`,
+      );
+      await this.prisma.deploymentUpdate.update({
+        where: { id: update.id },
+        data: {
+          status: DeploymentUpdateStatus.FAILED,
+          errorMessage: error.message,
+          startedAt,
+          completedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.deployment.update({
+        where: { id: deployment.id },
+        data: {
+          replicas,
+          currentVersion: update.toVersion,
+        },
+      }),
+      this.prisma.deploymentUpdate.update({
+        where: { id: update.id },
+        data: {
+          status: DeploymentUpdateStatus.COMPLETED,
+          startedAt,
+          completedAt: new Date(),
+        },
+      }),
+    ]);
+
+    this.logger.log(
+      `Deployment ${deployment.id} scaled from ${deployment.replicas} to ${replicas} replicas` +
+        (reason ? ` (${reason})` : ''),
+    );
+
+    return {
+      deploymentId: deployment.id,
+      updateId: update.id,
+      fromVersion: update.fromVersion,
+      toVersion: update.toVersion,
+      fromReplicas: deployment.replicas,
+      ...(await this.getTaskConvergence(deployment.service.name, replicas)),
+    };
+  }
+
+  /**
+   * Per-task status of a deployment's service, to follow a scale or update
+   * until every replica runs.
+   */
+  async getDeploymentTasks(userId: string, deploymentId: string) {
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+      include: { service: true },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    if (!deployment.service) {
+      throw new BadRequestException('Deployment has no running service');
+    }
+
+    return {
+      deploymentId: deployment.id,
+      ...(await this.getTaskConvergence(
+        deployment.service.name,
+        deployment.replicas,
+      )),
+    };
+  }
+
+  /**
+   * Stop a running or failed deployment by scaling its service to zero. The
+   * service, configuration and volumes are kept so it can be started again.
+   */
+  async stopDeployment(userId: string, deploymentId: string) {
+    const deployment = await this.findOwnedDeployment(userId, deploymentId);
+
+    if (
+      (deployment.status !== DeploymentStatus.RUNNING &&
+        deployment.status !== DeploymentStatus.FAILED) ||
+      !deployment.service
+    ) {
+      throw new BadRequestException(
+        'Deployment must be in RUNNING or FAILED status to stop',
+      );
+    }
+
+    await this.assertNoUpdateInProgress(deployment.id);
+
+    return this.requestLifecycleAction(deployment, DeploymentStatus.STOPPING);
+  }
+
+  /**
+   * Scale a stopped deployment back to its replica count. Stopped deployments
+   * don't count towards the replica, CPU and memory quota, so it is checked
+   * again.
+   */
+  async startDeployment(userId: string, deploymentId: string) {
+    const deployment = await this.findOwnedDeployment(userId, deploymentId);
+
+    if (deployment.status !== DeploymentStatus.STOPPED) {
+      throw new BadRequestException(
+        'Deployment must be in STOPPED status to start',
+      );
+    }
+
+    if (deployment.environment.status !== EnvironmentStatus.ACTIVE) {
+      throw new BadRequestException('Environment is not active');
+    }
+
+    const config = this.getDeploymentConfig(deployment);
+    await this.quotasService.assertDeploymentWithinQuota(userId, {
+      environmentId: deployment.environmentId,
+      deploymentId: deployment.id,
+      replicas: config.replicas,
+      resources: config.resources,
+      volumes:
+        this.resolveVolumes(deployment.environment.name, config.volumes) ??
+        null,
+    });
+
+    return this.requestLifecycleAction(deployment, DeploymentStatus.STARTING);
+  }
+
+  /**
+   * Replace every task of a running deployment, one batch at a time as set by
+   * the service's update config. The configuration is unchanged.
+   */
+  async restartDeployment(userId: string, deploymentId: string) {
+    const deployment = await this.findOwnedDeployment(userId, deploymentId);
+
+    if (deployment.status !== DeploymentStatus.RUNNING || !deployment.service) {
+      throw new BadRequestException(
+        'Deployment must be in RUNNING status to restart',
+      );
+    }
+
+    await this.assertNoUpdateInProgress(deployment.id);
+
+    return this.requestLifecycleAction(deployment, DeploymentStatus.RESTARTING);
+  }
+
+  async getDeploymentHistory(userId: string, deploymentId: string) {
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+      include: {
+        versions: { orderBy: { version: 'desc' } },
+        updates: { orderBy: { createdAt: 'desc' } },
+      },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    return {
+      currentVersion: deployment.currentVersion,
+      // Applies to the env vars of every version when masking the response
+      sensitiveEnvKeys: deployment.sensitiveEnvKeys,
+      versions: deployment.versions,
+      updates: deployment.updates,
+    };
+  }
+
+  /**
+   * Replace the sensitive env keys of a deployment. Keys can only be removed
+   * by callers allowed to reveal env vars.
+   */
+  async setSensitiveEnvKeys(
+    userId: string,
+    deploymentId: string,
+    dto: SensitiveEnvKeysDto,
+    canRemoveKeys = false,
+  ) {
+    if (dto.keys === undefined) {
+      throw new BadRequestException('keys is required');
+    }
+    this.validateSensitiveEnvKeys(dto.keys);
+
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    // Unmasking a key exposes its value in the history, like revealing it
+    const keys = [...new Set(dto.keys)];
+    const removed = (
+      (deployment.sensitiveEnvKeys as string[] | null) ?? []
+    ).filter((key) => !keys.includes(key));
+    if (removed.length > 0 && !canRemoveKeys) {
+      throw new ForbiddenException(
+        `Removing sensitive env keys requires the DEPLOYMENTS_REVEAL scope: ${removed.join(', ')}`,
+      );
+    }
+
+    const updated = await this.prisma.deployment.update({
+      where: { id: deployment.id },
+      data: { sensitiveEnvKeys: keys },
+    });
+    registerSensitiveEnvKeys(keys);
+
+    return {
+      deploymentId: updated.id,
+      sensitiveEnvKeys: updated.sensitiveEnvKeys,
+    };
+  }
+
+  /**
+   * Env vars of a deployment without masking, for holders of the
+   * DEPLOYMENTS_REVEAL scope.
+   */
+  async revealEnvVars(userId: string, deploymentId: string) {
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    this.logger.log(
+      `Env vars of deployment ${deployment.id} revealed to user ${userId}`,
+    );
+
+    return {
+      deploymentId: deployment.id,
+      envVars: deployment.envVars ?? {},
+      sensitiveEnvKeys: deployment.sensitiveEnvKeys ?? [],
+    };
+  }
+
+  /**
+   * Apply a recorded DeploymentUpdate. Called by the deployment queue worker;
+   * updates that already finished are skipped.
+   */
+  async processDeploymentUpdate(
+    updateId: string,
+    completedStatus: DeploymentUpdateStatus = DeploymentUpdateStatus.COMPLETED,
+    finalAttempt = true,
+  ): Promise<void> {
+    const update = await this.prisma.deploymentUpdate.findUnique({
+      where: { id: updateId },
+      include: {
+        deployment: {
+          include: { environment: true, service: true },
+        },
+      },
+    });
+
+    if (
+      !update ||
+      (update.status !== DeploymentUpdateStatus.PENDING &&
+        update.status !== DeploymentUpdateStatus.IN_PROGRESS)
+    ) {
+      this.logger.warn(`Update ${updateId} is no longer pending`);
+      return;
+    }
+
+    const { deployment } = update;
+    this.logger.log(
+      `Processing update ${updateId} for deployment ${deployment.id} (v${update.fromVersion} → v${update.toVersion})`,
+    );
+
+    await this.prisma.deploymentUpdate.update({
+      where: { id: updateId },
+      data: {
+        status: DeploymentUpdateStatus.IN_PROGRESS,
+        startedAt: new Date(),
+      },
+    });
+
+    try {
+      const version = await this.prisma.deploymentVersion.findUnique({
+        where: {
+          deploymentId_version: {
+            deploymentId: deployment.id,
+            version: update.toVersion,
+          },
+        },
+      });
+
+      if (!version) {
+        throw new Error(`Version ${update.toVersion} not found`);
+      }
+
+      if (!deployment.service) {
+        throw new Error('Deployment has no service to update');
+      }
+
+      const target = this.getDeploymentConfig(version);
+
+      // Git deployments use locally built images, only registry images are pulled
+      if (
+        !deployment.gitUrl &&
+        (target.image !== deployment.image || target.tag !== deployment.tag)
+      ) {
+        await this.containerService.pullImage(
+          target.image,
+          target.tag,
+          await this.getRegistryAuth(deployment, target.image),
+        );
+      }
+
+      await this.ensureVolumes(deployment, target.volumes);
+
+      if (update.updateStrategy === DeploymentUpdateStrategy.BLUE_GREEN) {
+        await this.applyBlueGreenUpdate(
+          updateId,
+          { ...deployment, service: deployment.service },
+          target,
+          update.toVersion,
+        );
+      } else {
+        await this.containerService.updateService(
+          deployment.service.name,
+          await this.buildServiceConfig(deployment, target),
+        );
+      }
+
+      await this.prisma.$transaction([
+        this.prisma.deployment.update({
+          where: { id: deployment.id },
+          data: {
+            image: target.image,
+            tag: target.tag,
+            replicas: target.replicas,
+            ports: (target.ports ?? undefined) as any,
+            envVars: (target.envVars ?? undefined) as any,
+            volumes: (target.volumes ?? undefined) as any,
+            secrets: (target.secrets ?? Prisma.DbNull) as any,
+            resources: (target.resources ?? Prisma.DbNull) as any,
+            healthCheck: (target.healthCheck ?? Prisma.DbNull) as any,
+            gitCommitSha: version.gitCommitSha ?? undefined,
+            currentVersion: update.toVersion,
+          },
+        }),
+        this.prisma.deploymentUpdate.update({
+          where: { id: updateId },
+          data: {
+            status: completedStatus,
+            phase:
+              update.updateStrategy === DeploymentUpdateStrategy.BLUE_GREEN
+                ? DeploymentUpdatePhase.DONE
+                : undefined,
+            completedAt: new Date(),
+          },
+        }),
+      ]);
+
+      this.logger.log(
+        `Deployment ${deployment.id} updated to version ${update.toVersion}`,
+      );
+    } catch (error) {
+      if (!finalAttempt) {
+        this.logger.warn(
+          `Update ${updateId} for deployment ${deployment.id} attempt failed, retrying: ${error.message}`,
+        );
+        await this.prisma.deploymentUpdate.update({
+          where: { id: updateId },
+          data: { errorMessage: error.message },
+        });
+        throw error;
+      }
+
+      this.logger.error(
+        `Update ${updateId} for deployment ${deployment.id} failed: ${error.message}`,
+        error.stack,
+      );
+
+      await this.prisma.deploymentUpdate.update({
+        where: { id: updateId },
+        data: {
+          status: DeploymentUpdateStatus.FAILED,
+          errorMessage: error.message,
+          completedAt: new Date(),
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Start the new version as a second service, wait for it to become healthy,
+   * move the virtual host over and only then remove the old service. Until the
+   * cleanup phase the old service keeps serving traffic, so any failure just
+   * removes the new service again.
+   */
+  private async applyBlueGreenUpdate(
+    updateId: string,
+    deployment: DeploymentWithRelations & { service: Service },
+    target: DeploymentConfig,
+    toVersion: number,
+  ): Promise<void> {
+    const oldServiceName = deployment.service.name;
+    const newServiceName = `job_${deployment.environment.name}_${deployment.jobId}_v${toVersion}`;
+    let newServiceCreated = false;
+
+    const setPhase = (phase: DeploymentUpdatePhase) =>
+      this.prisma.deploymentUpdate.update({
+        where: { id: updateId },
+        data: { phase },
+      });
+
+    // An interrupted attempt may have already switched the service record over
+    if (oldServiceName === newServiceName) {
+      return;
+    }
+
+    // ... or left the new service behind
+    if (await this.containerService.serviceExists(newServiceName)) {
+      if (!(await this.containerService.serviceExists(oldServiceName))) {
+        // Cutover and cleanup finished, only the service record is missing
+        await this.prisma.service.update({
+          where: { id: deployment.service.id },
+          data: { name: newServiceName },
+        });
+        return;
+      }
+
+      this.logger.warn(
+        `Removing ${newServiceName} left behind by an interrupted update`,
+      );
+      await this.containerService.removeService(newServiceName);
+    }
+
+    try {
+      // Phase 1: start the new version without routing any traffic to it
+      await setPhase(DeploymentUpdatePhase.STARTING_NEW);
+      await this.containerService.createService(
+        await this.buildServiceConfig(deployment, target, {
+          name: newServiceName,
+          routeTraffic: false,
+        }),
+      );
+      newServiceCreated = true;
+
+      // Phase 2: wait until all replicas of the new version are running
+      await setPhase(DeploymentUpdatePhase.HEALTH_CHECK);
+      await this.containerService.waitForServiceHealthy(
+        newServiceName,
+        target.replicas,
+      );
+
+      // Phase 3: assign VIRTUAL_HOST/LETSENCRYPT_HOST to the new version.
+      // The env change restarts its tasks, so wait for them once more.
+      await setPhase(DeploymentUpdatePhase.CUTOVER);
+      await this.containerService.updateService(
+        newServiceName,
+        await this.buildServiceConfig(deployment, target, {
+          name: newServiceName,
+        }),
+      );
+      await this.containerService.waitForServiceHealthy(
+        newServiceName,
+        target.replicas,
+      );
+
+      // Phase 4: retire the old version
+      await setPhase(DeploymentUpdatePhase.CLEANUP);
+      await this.containerService.removeService(oldServiceName);
+    } catch (error) {
+      if (newServiceCreated) {
+        this.logger.warn(
+          `Blue-green update of ${deployment.id} failed, removing ${newServiceName}`,
+        );
+        await this.containerService
+          .removeService(newServiceName)
+          .catch((removeError) => {
+            this.logger.error(
+              `Failed to remove service ${newServiceName}: ${removeError.message}`,
+            );
+          });
+      }
+      throw error;
+    }
+
+    await this.prisma.service.update({
+      where: { id: deployment.service.id },
+      data: { name: newServiceName },
+    });
+
+    this.logger.log(
+      `Blue-green cutover of ${deployment.id} completed: ${oldServiceName} → ${newServiceName}`,
+    );
+  }
+
+  private async recordDeploymentUpdate(
+    deployment: DeploymentWithRelations,
+    changes: Record<string, { from: unknown; to: unknown }>,
+    strategy: DeploymentUpdateStrategy,
+    version:
+      | {
+          config: DeploymentConfig;
+          createdBy: string;
+          gitCommitSha?: string | null;
+          reason?: string;
+        }
+      | { existing: number },
+  ) {
+    await this.assertNoUpdateInProgress(deployment.id);
+
+    // Deployments created before version tracking have no snapshot of their
+    // current configuration yet
+    const current = this.getDeploymentConfig(deployment);
+    await this.prisma.deploymentVersion.upsert({
+      where: {
+        deploymentId_version: {
+          deploymentId: deployment.id,
+          version: deployment.currentVersion,
+        },
+      },
+      update: {},
+      create: {
+        deploymentId: deployment.id,
+        version: deployment.currentVersion,
+        image: current.image,
+        tag: current.tag,
+        replicas: current.replicas,
+        ports: (current.ports ?? undefined) as any,
+        envVars: (current.envVars ?? undefined) as any,
+        volumes: (current.volumes ?? undefined) as any,
+        secrets: (current.secrets ?? undefined) as any,
+        resources: (current.resources ?? undefined) as any,
+        healthCheck: (current.healthCheck ?? undefined) as any,
+      },
+    });
+
+    if ('existing' in version) {
+      return this.prisma.deploymentUpdate.create({
+        data: {
+          deploymentId: deployment.id,
+          fromVersion: deployment.currentVersion,
+          toVersion: version.existing,
+          updateStrategy: strategy,
+          status: DeploymentUpdateStatus.PENDING,
+          changes: changes as any,
+        },
+      });
+    }
+
+    // Failed updates keep their version row, so number from the latest one
+    const latest = await this.prisma.deploymentVersion.findFirst({
+      where: { deploymentId: deployment.id },
+      orderBy: { version: 'desc' },
+    });
+    const toVersion = (latest?.version ?? deployment.currentVersion) + 1;
+    const { config: target, createdBy, gitCommitSha, reason } = version;
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.deploymentVersion.create({
+        data: {
+          deploymentId: deployment.id,
+          version: toVersion,
+          image: target.image,
+          tag: target.tag,
+          replicas: target.replicas,
+          ports: (target.ports ?? undefined) as any,
+          envVars: (target.envVars ?? undefined) as any,
+          volumes: (target.volumes ?? undefined) as any,
+          secrets: (target.secrets ?? undefined) as any,
+          resources: (target.resources ?? undefined) as any,
+          healthCheck: (target.healthCheck ?? undefined) as any,
+          gitCommitSha,
+          createdBy,
+        },
+      });
+
+      return tx.deploymentUpdate.create({
+        data: {
+          deploymentId: deployment.id,
+          fromVersion: deployment.currentVersion,
+          toVersion,
+          updateStrategy: strategy,
+          status: DeploymentUpdateStatus.PENDING,
+          changes: changes as any,
+          reason,
+        },
+      });
+    });
+  }
+
+  private async assertNoUpdateInProgress(deploymentId: string): Promise<void> {
+    const pending = await this.prisma.deploymentUpdate.findFirst({
+      where: {
+        deploymentId,
+        status: {
+          in: [
+            DeploymentUpdateStatus.PENDING,
+            DeploymentUpdateStatus.IN_PROGRESS,
+          ],
+        },
+      },
+    });
+
+    if (pending) {
+      throw new ConflictException(
+        'Another update is already in progress for this deployment',
+      );
+    }
+  }
+
+  async createDeploymentFromGit(
+    userId: string,
+    dto: CreateDeploymentFromGitDto,
+    options: CreateDeploymentOptions = {},
+  ) {
+    this.logger.log(
+      `Creating deployment from Git for environment ${dto.environmentId}`,
+    );
+
+    // Verify environment exists and belongs to user
+    const environment = await this.prisma.environment.findFirst({
+      where: {
+        id: dto.environmentId,
+        userId,
+      },
+    });
+
+    if (!environment) {
+      throw new NotFoundException('Environment not found');
+    }
+
+    if (environment.status !== EnvironmentStatus.ACTIVE) {
+      throw new BadRequestException('Environment is not active');
+    }
+
+    this.validateGitUrl(dto.gitUrl);
+    this.validateBuildConfig(dto);
+    await this.validateDeploymentName(environment.id, dto.name);
+    await this.environmentSecretsService.validateSecretNames(
+      environment.id,
+      dto.secrets,
+    );
+    this.validateSensitiveEnvKeys(dto.sensitiveEnvKeys);
+    if (
+      dto.replicas !== undefined &&
+      (!Number.isInteger(dto.replicas) || dto.replicas < 1)
+    ) {
+      throw new BadRequestException('replicas must be a positive integer');
+    }
+    const resources = this.resolveResources(
+      dto.resources,
+      this.getDefaultResources(),
+    );
+    await this.quotasService.assertDeploymentWithinQuota(userId, {
+      environmentId: environment.id,
+      replicas: dto.replicas || 1,
+      resources,
+      volumes: dto.volumes ?? null,
+    });
+    this.validateHealthCheck(dto.healthCheck, dto.virtualPort, dto.ports);
+    this.validateVirtualHost(dto.virtualHost, dto.virtualPort);
+
+    if (dto.gitCredentialId) {
+      // Throws when the credential does not belong to the user
+      await this.gitCredentialsService.findCredential(
+        userId,
+        dto.gitCredentialId,
+      );
+    }
+
+    await this.assertDomainAvailable(dto.virtualHost);
+
+    // Generate job ID and image name
+    const jobId = nanoid(this.JOB_ID_LENGTH);
+    const timestampSeconds = Math.floor(Date.now() / 1000);
+    const imageName =
+      `img_${environment.name}_${timestampSeconds}`.toLowerCase();
+    const tag = dto.branch || 'latest';
+
+    // Create deployment record
+    const deployment = await this.prisma.deployment.create({
+      data: {
+        environmentId: dto.environmentId,
+        name: dto.name ?? null,
+        jobId,
+        image: imageName,
+        tag,
+        replicas: dto.replicas || 1,
+        ports: dto.ports || [],
+        envVars: dto.envVars || {},
+        volumes: dto.volumes || undefined,
+        secrets: dto.secrets as any,
+        sensitiveEnvKeys: dto.sensitiveEnvKeys as any,
+        resources: resources as any,
+        healthCheck: dto.healthCheck as any,
+        pendingVolumeCopies: options.volumeCopies?.length
+          ? (options.volumeCopies as any)
+          : undefined,
+        virtualHost: dto.virtualHost || null,
+        virtualPort: dto.virtualPort || null,
+        status: DeploymentStatus.PENDING,
+        // Git deployment metadata
+        gitUrl: dto.gitUrl,
+        gitBranch: dto.branch || 'main',
+        gitCredentialId: dto.gitCredentialId ?? null,
+        autoRebuild: dto.autoRebuild ?? false,
+        webhookSecret: dto.autoRebuild ? this.generateWebhookSecret() : null,
+        gitPollInterval: dto.pollInterval ?? null,
+        buildConfig: {
+          baseImage: dto.baseImage,
+          buildContext: dto.buildContext,
+          dockerfile: dto.dockerfile,
+          buildArgs: dto.buildArgs,
+          target: dto.target,
+          installCommand: dto.installCommand,
+          buildCommand: dto.buildCommand,
+          startCommand: dto.startCommand,
+        } satisfies GitBuildConfig,
+        versions: {
+          create: {
+            version: 1,
+            image: imageName,
+            tag,
+            replicas: dto.replicas || 1,
+            ports: dto.ports || [],
+            envVars: dto.envVars || {},
+            volumes: (this.resolveVolumes(environment.name, dto.volumes) ??
+              undefined) as any,
+            secrets: dto.secrets as any,
+            resources: resources as any,
+            healthCheck: dto.healthCheck as any,
+            createdBy: userId,
+          },
+        },
+      },
+    });
+    if (dto.sensitiveEnvKeys) {
+      registerSensitiveEnvKeys(dto.sensitiveEnvKeys);
+    }
+
+    // Hand the build to the deployment queue
+    await this.enqueueJob(DeploymentJobName.DEPLOY_GIT, jobId, {
+      deploymentId: deployment.id,
+    });
+
+    return {
+      jobId,
+      deploymentId: deployment.id,
+      status: deployment.status,
+      webhook: deployment.webhookSecret
+        ? {
+            url: this.getWebhookUrl(deployment.id),
+            secret: deployment.webhookSecret,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Run the Git build and deployment pipeline. Called by the deployment queue
+   * worker with the build options persisted on the deployment.
+   */
+  async processDeploymentFromGit(
+    deploymentId: string,
+    finalAttempt = true,
+  ): Promise<void> {
+    this.logger.log(`Processing deployment from Git: ${deploymentId}`);
+
+    const deployment = await this.prisma.deployment.findUnique({
+      where: { id: deploymentId },
+      include: { environment: true, service: true },
+    });
+
+    if (!deployment || !this.IN_FLIGHT_STATUSES.includes(deployment.status)) {
+      this.logger.warn(`Deployment ${deploymentId} is no longer pending`);
+      return;
+    }
+
+    try {
+      if (!deployment.gitUrl) {
+        throw new Error('Deployment has no Git repository');
+      }
+
+      const buildConfig = (deployment.buildConfig ?? {}) as GitBuildConfig;
+
+      // Step 1: Update status to BUILDING
+      await this.prisma.deployment.update({
+        where: { id: deploymentId },
+        data: {
+          status: DeploymentStatus.PULLING_IMAGE, // Reusing status for building
+          startedAt: deployment.startedAt ?? new Date(),
+        },
+      });
+
+      // Emit deployment started event
+      if (deployment.status === DeploymentStatus.PENDING) {
+        this.eventEmitter.emit(
+          'deployment.started',
+          new DeploymentStartedEvent(
+            deployment.environment.userId,
+            deploymentId,
+            deployment.environmentId,
+            deployment.environment.name,
+            deployment.image,
+            deployment.tag || 'latest',
+            true, // isGitDeployment
+          ),
+        );
+      }
+
+      // Build image from Git, recorded as a Build with its full output
+      const build = await this.buildsService.runBuild(deploymentId, {
+        ...buildConfig,
+        gitUrl: deployment.gitUrl,
+        imageName: deployment.image,
+        tag: deployment.tag || 'latest',
+        branch: deployment.gitBranch ?? undefined,
+        auth: await this.gitCredentialsService.getGitAuth(
+          deployment.gitCredentialId,
+        ),
+      });
+
+      await this.prisma.$transaction([
+        this.prisma.deployment.update({
+          where: { id: deploymentId },
+          data: {
+            gitCommitSha: build.commitSha ?? undefined,
+            buildPlan: (build.buildPlan ?? Prisma.DbNull) as any,
+          },
+        }),
+        this.prisma.deploymentVersion.updateMany({
+          where: { deploymentId, version: deployment.currentVersion },
+          data: { gitCommitSha: build.commitSha },
+        }),
+      ]);
+
+      // Step 2: Create volumes if needed
+      if (deployment.volumes && Array.isArray(deployment.volumes)) {
+        await this.prisma.deployment.update({
+          where: { id: deploymentId },
+          data: { status: DeploymentStatus.CREATING_VOLUMES },
+        });
+
+        const volumes = deployment.volumes as any[];
+        for (const volume of volumes) {
+          const volumeName = this.resolveVolumeName(
+            deployment.environment.name,
+            volume.name,
+          );
+          await this.volumeService.createVolume(volumeName, {
+            'com.deployment-platform.environment': deployment.environmentId,
+            'com.deployment-platform.deployment': deploymentId,
+          });
+
+          // Update volume reference to use full name
+          volume.name = volumeName;
+        }
+
+        // Update deployment with full volume names
+        await this.prisma.deployment.update({
+          where: { id: deploymentId },
+          data: { volumes: volumes as any },
+        });
+
+        await this.copyPendingVolumes(deployment);
+      }
+
+      // Step 3: Create service
+      await this.prisma.deployment.update({
+        where: { id: deploymentId },
+        data: { status: DeploymentStatus.STARTING_CONTAINERS },
+      });
+
+      // Create service
+      const serviceConfig = await this.buildServiceConfig(
+        deployment,
+        this.getDeploymentConfig(deployment),
+      );
+      await this.ensureService(deployment, serviceConfig);
+
+      // Only report success once the tasks are up and pass their health check
+      await this.waitForHealthyService(deployment, serviceConfig.name);
+
+      // Step 4: Update status to RUNNING
+      await this.prisma.deployment.update({
+        where: { id: deploymentId },
+        data: {
+          status: DeploymentStatus.RUNNING,
+          completedAt: new Date(),
+        },
+      });
+
+      // Emit deployment success event
+      this.eventEmitter.emit(
+        'deployment.success',
+        new DeploymentSuccessEvent(
+          deployment.environment.userId,
+          deploymentId,
+          deployment.environmentId,
+          deployment.environment.name,
+          deployment.image,
+          deployment.tag || 'latest',
+          true, // isGitDeployment
+          deployment.virtualHost || undefined,
+          deployment.virtualPort || undefined,
+        ),
+      );
+
+      this.logger.log(
+        `Deployment ${deploymentId} from Git completed successfully`,
+      );
+    } catch (error) {
+      if (!finalAttempt) {
+        this.logger.warn(
+          `Deployment ${deploymentId} from Git attempt failed, retrying: ${error.message}`,
+        );
+        await this.prisma.deployment.update({
+          where: { id: deploymentId },
+          data: { errorMessage: error.message },
+        });
+        throw error;
+      }
+
+      this.logger.error(
+        `Deployment ${deploymentId} from Git failed: ${error.message}`,
+        error.stack,
+      );
+
+      // Get deployment details for event
+      const failedDeployment = await this.prisma.deployment.findUnique({
+        where: { id: deploymentId },
+        include: { environment: true },
+      });
+
+      // Update status to FAILED
+      await this.prisma.deployment.update({
+        where: { id: deploymentId },
+        data: {
+          status: DeploymentStatus.FAILED,
+          errorMessage: error.message,
+          completedAt: new Date(),
+        },
+      });
+
+      // Emit deployment failed event
+      if (failedDeployment) {
+        this.eventEmitter.emit(
+          'deployment.failed',
+          new DeploymentFailedEvent(
+            failedDeployment.environment.userId,
+            deploymentId,
+            failedDeployment.environmentId,
+            failedDeployment.environment.name,
+            failedDeployment.image,
+            error.message,
+            true, // isGitDeployment
+          ),
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Enable rebuilds on push for a Git deployment, generating a new webhook
+   * secret. Calling it again rotates the secret.
+   */
+  async enableWebhook(userId: string, deploymentId: string) {
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    if (!deployment.gitUrl) {
+      throw new BadRequestException(
+        'Webhooks are only available for Git deployments',
+      );
+    }
+
+    const updated = await this.prisma.deployment.update({
+      where: { id: deploymentId },
+      data: {
+        autoRebuild: true,
+        webhookSecret: this.generateWebhookSecret(),
+      },
+    });
+
+    this.logger.log(`Webhook enabled for deployment ${deploymentId}`);
+
+    return {
+      deploymentId,
+      autoRebuild: updated.autoRebuild,
+      gitBranch: updated.gitBranch,
+      url: this.getWebhookUrl(deploymentId),
+      secret: updated.webhookSecret,
+    };
+  }
+
+  async disableWebhook(userId: string, deploymentId: string) {
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    // Keep rebuilding on new commits if the branch is still polled
+    const autoRebuild = deployment.gitPollInterval !== null;
+
+    await this.prisma.deployment.update({
+      where: { id: deploymentId },
+      data: {
+        autoRebuild,
+        webhookSecret: null,
+        rebuildPending: autoRebuild ? undefined : false,
+      },
+    });
+
+    this.logger.log(`Webhook disabled for deployment ${deploymentId}`);
+
+    return { deploymentId, autoRebuild };
+  }
+
+  /**
+   * Poll the branch of a Git deployment for new commits and rebuild it when
+   * it moved. For Git servers that cannot deliver webhooks.
+   */
+  async enablePolling(
+    userId: string,
+    deploymentId: string,
+    dto: GitPollingDto,
+  ) {
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    if (!deployment.gitUrl) {
+      throw new BadRequestException(
+        'Polling is only available for Git deployments',
+      );
+    }
+
+    this.validatePollInterval(dto.interval);
+
+    const updated = await this.prisma.deployment.update({
+      where: { id: deploymentId },
+      data: {
+        autoRebuild: true,
+        gitPollInterval: dto.interval,
+        gitPollFailures: 0,
+        nextGitPollAt: new Date(),
+      },
+    });
+
+    this.logger.log(
+      `Polling enabled for deployment ${deploymentId} every ${dto.interval}s`,
+    );
+
+    return {
+      deploymentId,
+      autoRebuild: updated.autoRebuild,
+      gitBranch: updated.gitBranch,
+      interval: updated.gitPollInterval,
+    };
+  }
+
+  async disablePolling(userId: string, deploymentId: string) {
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    // Keep rebuilding on pushes if a webhook is still configured
+    const autoRebuild = deployment.webhookSecret !== null;
+
+    await this.prisma.deployment.update({
+      where: { id: deploymentId },
+      data: {
+        autoRebuild,
+        gitPollInterval: null,
+        gitPollFailures: 0,
+        nextGitPollAt: null,
+        rebuildPending: autoRebuild ? undefined : false,
+      },
+    });
+
+    this.logger.log(`Polling disabled for deployment ${deploymentId}`);
+
+    return { deploymentId, autoRebuild };
+  }
+
+  /**
+   * Request a rebuild of a Git deployment after a push. Pushes that arrive
+   * while a rebuild is queued or running are coalesced into one follow-up
+   * rebuild of the latest commit. Returns false when the push was debounced.
+   */
+  async requestRebuild(deployment: Deployment): Promise<boolean> {
+    await this.prisma.deployment.update({
+      where: { id: deployment.id },
+      data: { rebuildPending: true },
+    });
+
+    const jobId = this.getRebuildJobId(deployment.jobId);
+    if (await this.hasLiveJob(jobId)) {
+      this.logger.log(
+        `Rebuild of deployment ${deployment.id} already queued or running, push debounced`,
+      );
+      return false;
+    }
+
+    await this.enqueueJob(DeploymentJobName.REBUILD, jobId, {
+      deploymentId: deployment.id,
+    });
+
+    this.logger.log(`Rebuild of deployment ${deployment.id} queued`);
+    return true;
+  }
+
+  /**
+   * Rebuild a running Git deployment from the head of its branch and roll the
+   * new image out as a new version. Called by the deployment queue worker.
+   */
+  async processRebuild(
+    deploymentId: string,
+    finalAttempt = true,
+  ): Promise<void> {
+    const deployment = await this.prisma.deployment.findUnique({
+      where: { id: deploymentId },
+      include: { environment: true, service: true },
+    });
+
+    if (
+      !deployment?.gitUrl ||
+      deployment.status !== DeploymentStatus.RUNNING ||
+      !deployment.service
+    ) {
+      this.logger.warn(
+        `Deployment ${deploymentId} is not running, skipping rebuild`,
+      );
+      return;
+    }
+
+    // The build clones the branch head, so it covers every push so far
+    await this.prisma.deployment.update({
+      where: { id: deploymentId },
+      data: { rebuildPending: false },
+    });
+
+    try {
+      const pendingUpdate = await this.prisma.deploymentUpdate.findFirst({
+        where: {
+          deploymentId,
+          status: {
+            in: [
+              DeploymentUpdateStatus.PENDING,
+              DeploymentUpdateStatus.IN_PROGRESS,
+            ],
+          },
+        },
+      });
+
+      if (pendingUpdate) {
+        throw new Error('Another update is in progress for this deployment');
+      }
+
+      const buildConfig = (deployment.buildConfig ?? {}) as GitBuildConfig;
+      const tag = `build-${Math.floor(Date.now() / 1000)}`;
+
+      const build = await this.buildsService.runBuild(deploymentId, {
+        ...buildConfig,
+        gitUrl: deployment.gitUrl,
+        imageName: deployment.image,
+        tag,
+        branch: deployment.gitBranch ?? undefined,
+        auth: await this.gitCredentialsService.getGitAuth(
+          deployment.gitCredentialId,
+        ),
+      });
+
+      const config = this.getDeploymentConfig(deployment);
+      const current: DeploymentConfig = {
+        ...config,
+        volumes: this.resolveVolumes(
+          deployment.environment.name,
+          config.volumes,
+        ),
+      };
+      const target: DeploymentConfig = { ...current, tag };
+
+      const update = await this.recordDeploymentUpdate(
+        deployment,
+        this.diffDeploymentConfig(current, target, deployment.sensitiveEnvKeys),
+        DeploymentUpdateStrategy.IN_PLACE,
+        {
+          config: target,
+          createdBy: deployment.environment.userId,
+          gitCommitSha: build.commitSha,
+        },
+      );
+
+      await this.prisma.deployment.update({
+        where: { id: deploymentId },
+        data: { buildPlan: (build.buildPlan ?? Prisma.DbNull) as any },
+      });
+
+      await this.enqueueJob(
+        DeploymentJobName.UPDATE,
+        this.getUpdateJobId(deployment.jobId, update.id),
+        {
+          updateId: update.id,
+          completedStatus: DeploymentUpdateStatus.COMPLETED,
+        },
+      );
+
+      this.logger.log(
+        `Deployment ${deploymentId} rebuilt at ${build.commitSha ?? 'unknown commit'}, rolling out version ${update.toVersion}`,
+      );
+    } catch (error) {
+      if (!finalAttempt) {
+        this.logger.warn(
+          `Rebuild of deployment ${deploymentId} attempt failed, retrying: ${error.message}`,
+        );
+        throw error;
+      }
+
+      this.logger.error(
+        `Rebuild of deployment ${deploymentId} failed: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Scale a stopping deployment to zero and wait for its tasks to exit.
+   * Called by the deployment queue worker.
+   */
+  async processStop(deploymentId: string, finalAttempt = true): Promise<void> {
+    const deployment = await this.prisma.deployment.findUnique({
+      where: { id: deploymentId },
+      include: { environment: true, service: true },
+    });
+
+    if (deployment?.status !== DeploymentStatus.STOPPING) {
+      this.logger.warn(`Deployment ${deploymentId} is no longer stopping`);
+      return;
+    }
+
+    try {
+      const serviceName = this.getServiceName(deployment);
+      if (await this.containerService.serviceExists(serviceName)) {
+        await this.containerService.scaleService(serviceName, 0);
+        await this.containerService.waitForServiceStopped(serviceName);
+      }
+
+      await this.prisma.$transaction([
+        this.prisma.service.updateMany({
+          where: { deploymentId },
+          data: {
+            status: ServiceStatus.STOPPED,
+            healthStatus: HealthStatus.NONE,
+          },
+        }),
+        this.prisma.deployment.update({
+          where: { id: deploymentId },
+          data: { status: DeploymentStatus.STOPPED },
+        }),
+      ]);
+
+      this.eventEmitter.emit(
+        'deployment.stopped',
+        new DeploymentStoppedEvent(
+          deployment.environment.userId,
+          deploymentId,
+          deployment.environmentId,
+          deployment.environment.name,
+          deployment.image,
+          deployment.tag,
+        ),
+      );
+
+      this.logger.log(`Deployment ${deploymentId} stopped`);
+    } catch (error) {
+      await this.failLifecycleAction(deployment, 'Stop', error, finalAttempt);
+    }
+  }
+
+  /**
+   * Scale a starting deployment back up, recreating its service if it was
+   * removed while stopped, and wait for healthy tasks. Called by the
+   * deployment queue worker.
+   */
+  async processStart(deploymentId: string, finalAttempt = true): Promise<void> {
+    const deployment = await this.prisma.deployment.findUnique({
+      where: { id: deploymentId },
+      include: { environment: true, service: true },
+    });
+
+    if (deployment?.status !== DeploymentStatus.STARTING) {
+      this.logger.warn(`Deployment ${deploymentId} is no longer starting`);
+      return;
+    }
+
+    try {
+      let serviceName = this.getServiceName(deployment);
+      if (await this.containerService.serviceExists(serviceName)) {
+        await this.containerService.scaleService(
+          serviceName,
+          deployment.replicas,
+        );
+        await this.prisma.service.updateMany({
+          where: { deploymentId },
+          data: {
+            status: ServiceStatus.RUNNING,
+            healthStatus: HealthStatus.STARTING,
+          },
+        });
+      } else {
+        this.logger.warn(
+          `Service ${serviceName} of stopped deployment ${deploymentId} is gone, recreating it`,
+        );
+        serviceName = await this.restoreService(deployment);
+      }
+
+      await this.waitForHealthyService(deployment, serviceName);
+
+      await this.prisma.deployment.update({
+        where: { id: deploymentId },
+        data: { status: DeploymentStatus.RUNNING },
+      });
+
+      this.eventEmitter.emit(
+        'deployment.resumed',
+        new DeploymentResumedEvent(
+          deployment.environment.userId,
+          deploymentId,
+          deployment.environmentId,
+          deployment.environment.name,
+          deployment.image,
+          deployment.tag,
+          deployment.replicas,
+        ),
+      );
+
+      this.logger.log(
+        `Deployment ${deploymentId} started with ${deployment.replicas} replicas`,
+      );
+    } catch (error) {
+      await this.failLifecycleAction(deployment, 'Start', error, finalAttempt);
+    }
+  }
+
+  /**
+   * Force a rolling restart of the tasks of a restarting deployment and wait
+   * until the new tasks are healthy. Called by the deployment queue worker.
+   */
+  async processRestart(
+    deploymentId: string,
+    finalAttempt = true,
+  ): Promise<void> {
+    const deployment = await this.prisma.deployment.findUnique({
+      where: { id: deploymentId },
+      include: { environment: true, service: true },
+    });
+
+    if (deployment?.status !== DeploymentStatus.RESTARTING) {
+      this.logger.warn(`Deployment ${deploymentId} is no longer restarting`);
+      return;
+    }
+
+    try {
+      const serviceName = this.getServiceName(deployment);
+      const timeoutSeconds = this.configService.get<number>(
+        'queue.healthTimeoutSeconds',
+        300,
+      );
+
+      await this.containerService.restartService(serviceName);
+      await this.prisma.service.updateMany({
+        where: { deploymentId },
+        data: { healthStatus: HealthStatus.STARTING },
+      });
+      await this.containerService.waitForServiceUpdated(
+        serviceName,
+        timeoutSeconds * 1000,
+      );
+      await this.waitForHealthyService(deployment, serviceName);
+
+      await this.prisma.deployment.update({
+        where: { id: deploymentId },
+        data: { status: DeploymentStatus.RUNNING },
+      });
+
+      this.eventEmitter.emit(
+        'deployment.restarted',
+        new DeploymentRestartedEvent(
+          deployment.environment.userId,
+          deploymentId,
+          deployment.environmentId,
+          deployment.environment.name,
+          deployment.image,
+          deployment.tag,
+          deployment.replicas,
+        ),
+      );
+
+      this.logger.log(`Deployment ${deploymentId} restarted`);
+    } catch (error) {
+      await this.failLifecycleAction(
+        deployment,
+        'Restart',
+        error,
+        finalAttempt,
+      );
+    }
+  }
+
+  /**
+   * Queue the rebuild for pushes that arrived while the previous rebuild job
+   * was running. Called once that job has finished.
+   */
+  async resumePendingRebuild(deploymentId: string): Promise<void> {
+    const deployment = await this.prisma.deployment.findUnique({
+      where: { id: deploymentId },
+    });
+
+    if (deployment?.autoRebuild && deployment.rebuildPending) {
+      await this.requestRebuild(deployment);
+    }
+  }
+
+  /**
+   * Re-enqueue deployments and updates that are still in flight but have no
+   * live job in the queue, e.g. because they were created before the queue
+   * existed or Redis lost its data. Jobs still in Redis resume on their own.
+   */
+  async resumeInterruptedJobs(): Promise<void> {
+    // Builds of the jobs resumed below start over as new Build rows
+    await this.buildsService.failInterruptedBuilds();
+
+    const deployments = await this.prisma.deployment.findMany({
+      where: { status: { in: this.IN_FLIGHT_STATUSES } },
+      include: { environment: true },
+    });
+
+    for (const deployment of deployments) {
+      // Waiting deployments have no job yet, a dependency may have settled
+      // while the API was down
+      if (deployment.dependsOn) {
+        await this.resolveWaitingDeployment(deployment);
+        continue;
+      }
+
+      if (await this.hasLiveJob(deployment.jobId)) {
+        continue;
+      }
+
+      this.logger.log(`Resuming interrupted deployment ${deployment.id}`);
+      await this.enqueueJob(
+        deployment.gitUrl
+          ? DeploymentJobName.DEPLOY_GIT
+          : DeploymentJobName.DEPLOY,
+        deployment.jobId,
+        { deploymentId: deployment.id },
+      );
+    }
+
+    const lifecycle = await this.prisma.deployment.findMany({
+      where: {
+        status: {
+          in: Object.keys(this.LIFECYCLE_JOBS) as DeploymentStatus[],
+        },
+      },
+    });
+
+    for (const deployment of lifecycle) {
+      const jobId = this.getLifecycleJobId(deployment.jobId);
+      if (await this.hasLiveJob(jobId)) {
+        continue;
+      }
+
+      this.logger.log(
+        `Resuming interrupted ${deployment.status} of deployment ${deployment.id}`,
+      );
+      await this.enqueueJob(this.LIFECYCLE_JOBS[deployment.status]!, jobId, {
+        deploymentId: deployment.id,
+      });
+    }
+
+    const updates = await this.prisma.deploymentUpdate.findMany({
+      where: {
+        status: {
+          in: [
+            DeploymentUpdateStatus.PENDING,
+            DeploymentUpdateStatus.IN_PROGRESS,
+          ],
+        },
+      },
+      include: {
+        deployment: {
+          include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+        },
+      },
+    });
+
+    const rebuilds = await this.prisma.deployment.findMany({
+      where: {
+        status: DeploymentStatus.RUNNING,
+        autoRebuild: true,
+        rebuildPending: true,
+      },
+    });
+
+    for (const deployment of rebuilds) {
+      this.logger.log(`Resuming pending rebuild of ${deployment.id}`);
+      await this.requestRebuild(deployment);
+    }
+
+    for (const update of updates) {
+      const jobId = this.getUpdateJobId(update.deployment.jobId, update.id);
+      if (await this.hasLiveJob(jobId)) {
+        continue;
+      }
+
+      // Updates always create the newest version, rollbacks re-apply an older one
+      const isRollback =
+        update.toVersion !== update.deployment.versions[0]?.version;
+
+      this.logger.log(`Resuming interrupted update ${update.id}`);
+      await this.enqueueJob(DeploymentJobName.UPDATE, jobId, {
+        updateId: update.id,
+        completedStatus: isRollback
+          ? DeploymentUpdateStatus.ROLLED_BACK
+          : DeploymentUpdateStatus.COMPLETED,
+      });
+    }
+  }
+
+  private async enqueueJob(
+    name: DeploymentJobName,
+    jobId: string,
+    data: DeploymentJobData,
+  ): Promise<void> {
+    await this.deploymentsQueue.add(name, data, {
+      jobId,
+      attempts: this.configService.get<number>('queue.attempts', 3),
+      backoff: {
+        type: 'exponential',
+        delay: this.configService.get<number>('queue.backoffDelay', 10000),
+      },
+      removeOnComplete: { age: 24 * 3600 },
+      removeOnFail: { age: 7 * 24 * 3600 },
+    });
+  }
+
+  private async hasLiveJob(jobId: string): Promise<boolean> {
+    const job = await this.deploymentsQueue.getJob(jobId);
+    if (!job) {
+      return false;
+    }
+
+    // A finished job for an in-flight row is stale, drop it so it can be re-added
+    const state = await job.getState();
+    if (state === 'completed' || state === 'failed') {
+      await job.remove();
+      return false;
+    }
+
+    return true;
+  }
+
+  private getUpdateJobId(jobId: string, updateId: string): string {
+    return `${jobId}-update-${updateId}`;
+  }
+
+  private getRebuildJobId(jobId: string): string {
+    return `${jobId}-rebuild`;
+  }
+
+  private getLifecycleJobId(jobId: string): string {
+    return `${jobId}-lifecycle`;
+  }
+
+  private async findOwnedDeployment(
+    userId: string,
+    deploymentId: string,
+  ): Promise<DeploymentWithRelations> {
+    const deployment = await this.prisma.deployment.findFirst({
+      where: {
+        id: deploymentId,
+        environment: { userId },
+      },
+      include: {
+        service: true,
+        environment: true,
+      },
+    });
+
+    if (!deployment) {
+      throw new NotFoundException('Deployment not found');
+    }
+
+    return deployment;
+  }
+
+  private async requestLifecycleAction(
+    deployment: DeploymentWithRelations,
+    status: DeploymentStatus,
+  ) {
+    const jobId = this.getLifecycleJobId(deployment.jobId);
+    if (await this.hasLiveJob(jobId)) {
+      throw new ConflictException(
+        'Another stop, start or restart is already in progress for this deployment',
+      );
+    }
+
+    await this.prisma.deployment.update({
+      where: { id: deployment.id },
+      data: { status, errorMessage: null },
+    });
+
+    await this.enqueueJob(this.LIFECYCLE_JOBS[status]!, jobId, {
+      deploymentId: deployment.id,
+    });
+
+    this.logger.log(`Deployment ${deployment.id} is ${status}`);
+
+    return {
+      jobId: deployment.jobId,
+      deploymentId: deployment.id,
+      previousStatus: deployment.status,
+      status,
+    };
+  }
+
+  /**
+   * Retry a failed stop, start or restart, or mark the deployment FAILED on
+   * the last attempt.
+   */
+  private async failLifecycleAction(
+    deployment: DeploymentWithRelations,
+    action: string,
+    error: Error,
+    finalAttempt: boolean,
+  ): Promise<never> {
+    if (!finalAttempt) {
+      this.logger.warn(
+        `${action} of deployment ${deployment.id} attempt failed, retrying: ${error.message}`,
+      );
+      await this.prisma.deployment.update({
+        where: { id: deployment.id },
+        data: { errorMessage: error.message },
+      });
+      throw error;
+    }
+
+    const errorMessage = `${action} failed: ${error.message}`;
+    this.logger.error(
+      `${action} of deployment ${deployment.id} failed: ${error.message}`,
+      error.stack,
+    );
+
+    await this.prisma.deployment.update({
+      where: { id: deployment.id },
+      data: {
+        status: DeploymentStatus.FAILED,
+        errorMessage,
+      },
+    });
+
+    this.eventEmitter.emit(
+      'deployment.failed',
+      new DeploymentFailedEvent(
+        deployment.environment.userId,
+        deployment.id,
+        deployment.environmentId,
+        deployment.environment.name,
+        deployment.image,
+        errorMessage,
+        !!deployment.gitUrl,
+      ),
+    );
+
+    throw error;
+  }
+
+  private generateWebhookSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  private getWebhookUrl(deploymentId: string): string {
+    const baseUrl = this.configService.get<string>('app.baseUrl');
+    return `${baseUrl}/webhooks/git/${deploymentId}`;
+  }
+
+  /**
+   * Create the Swarm service and its record. A retried job may find the
+   * service it created before being interrupted, which is updated instead.
+   */
+  private async ensureService(
+    deployment: DeploymentWithRelations,
+    serviceConfig: ServiceConfig,
+  ): Promise<void> {
+    if (await this.containerService.serviceExists(serviceConfig.name)) {
+      this.logger.log(`Updating existing service ${serviceConfig.name}`);
+      await this.containerService.updateService(
+        serviceConfig.name,
+        serviceConfig,
+      );
+    } else {
+      this.logger.log(`Creating service ${serviceConfig.name}`);
+      await this.containerService.createService(serviceConfig);
+    }
+
+    await this.prisma.service.upsert({
+      where: { deploymentId: deployment.id },
+      create: {
+        deploymentId: deployment.id,
+        name: serviceConfig.name,
+        status: ServiceStatus.RUNNING,
+        healthStatus: HealthStatus.STARTING,
+      },
+      update: {
+        name: serviceConfig.name,
+        status: ServiceStatus.RUNNING,
+        healthStatus: HealthStatus.STARTING,
+      },
+    });
+  }
+
+  /**
+   * Wait until every replica of a new deployment runs and passes its health
+   * check, keeping the health status of the service record in sync.
+   */
+  private async waitForHealthyService(
+    deployment: DeploymentWithRelations,
+    serviceName: string,
+  ): Promise<void> {
+    const timeoutSeconds = this.configService.get<number>(
+      'queue.healthTimeoutSeconds',
+      300,
+    );
+
+    try {
+      await this.containerService.waitForServiceHealthy(
+        serviceName,
+        deployment.replicas,
+        timeoutSeconds * 1000,
+      );
+    } catch (error) {
+      await this.prisma.service.update({
+        where: { deploymentId: deployment.id },
+        data: { healthStatus: HealthStatus.UNHEALTHY },
+      });
+      throw error;
+    }
+
+    await this.prisma.service.update({
+      where: { deploymentId: deployment.id },
+      data: { healthStatus: HealthStatus.HEALTHY },
+    });
+  }
+
+  /**
+   * Recreate the Swarm service of a running deployment from its stored
+   * configuration, using the same spec as the deploy path. Returns the
+   * service name.
+   */
+  async restoreService(deployment: DeploymentWithRelations): Promise<string> {
+    const config = this.getDeploymentConfig(deployment);
+    const serviceConfig = await this.buildServiceConfig(deployment, config);
+
+    await this.ensureVolumes(deployment, config.volumes);
+    await this.ensureService(deployment, serviceConfig);
+
+    return serviceConfig.name;
+  }
+
+  getServiceName(deployment: DeploymentWithRelations): string {
+    // The service record is authoritative (blue-green updates rename it),
+    // otherwise the name uses jobId to stay under the 63 char limit
+    return (
+      deployment.service?.name ??
+      `job_${deployment.environment.name}_${deployment.jobId}`
+    );
+  }
+
+  private async buildServiceConfig(
+    deployment: DeploymentWithRelations,
+    config: DeploymentConfig,
+    options: { name?: string; routeTraffic?: boolean } = {},
+  ): Promise<ServiceConfig> {
+    const { routeTraffic = true } = options;
+    const env: Record<string, string> = { ...config.envVars };
+
+    // Add nginx-proxy env vars if deployment has virtualHost
+    if (routeTraffic && deployment.virtualHost && deployment.virtualPort) {
+      env['VIRTUAL_HOST'] = deployment.virtualHost;
+      env['VIRTUAL_PORT'] = deployment.virtualPort.toString();
+      env['LETSENCRYPT_HOST'] = deployment.virtualHost;
+    }
+
+    const labels: Record<string, string> = {
+      'com.deployment-platform.environment': deployment.environmentId,
+      'com.deployment-platform.deployment': deployment.id,
+      'com.deployment-platform.managed': 'true',
+    };
+
+    if (deployment.gitUrl) {
+      labels['com.deployment-platform.git-url'] = deployment.gitUrl;
+    }
+
+    // Services stay on their environment's overlay network only
+    // nginx-proxy attaches to the environment network for isolation
+    return {
+      name: options.name ?? this.getServiceName(deployment),
+      image: config.image,
+      tag: config.tag,
+      registryAuth: await this.getRegistryAuth(deployment, config.image),
+      replicas: config.replicas,
+      env,
+      ports: config.ports ?? undefined,
+      volumes:
+        this.resolveVolumes(deployment.environment.name, config.volumes) ??
+        undefined,
+      secrets: config.secrets?.length
+        ? await this.environmentSecretsService.resolveServiceSecrets(
+            deployment.environment,
+            config.secrets,
+          )
+        : undefined,
+      cpuLimit: config.resources?.cpuLimit,
+      memoryLimit: this.mebibytesToBytes(config.resources?.memoryLimit),
+      cpuReservation: config.resources?.cpuReservation,
+      memoryReservation: this.mebibytesToBytes(
+        config.resources?.memoryReservation,
+      ),
+      healthCheck: this.buildHealthCheck(
+        config.healthCheck,
+        deployment.virtualPort ?? config.ports?.[0]?.container,
+      ),
+      networks: [deployment.environment.overlayNetworkId],
+      labels,
+    };
+  }
+
+  /**
+   * Stored credentials for the registry of an image. Git deployments run
+   * images built on this node, which are never pulled from a registry.
+   */
+  private async getRegistryAuth(
+    deployment: DeploymentWithRelations,
+    image: string,
+  ): Promise<RegistryAuth | undefined> {
+    if (deployment.gitUrl) {
+      return undefined;
+    }
+
+    return this.registryCredentialsService.getRegistryAuth(
+      deployment.environment.userId,
+      image,
+    );
+  }
+
+  private parseLogOptions(query: DeploymentLogsQuery): LogOptions {
+    const parseTime = (value: string | undefined, name: string) => {
+      if (!value) {
+        return undefined;
+      }
+
+      const seconds = /^\d+$/.test(value)
+        ? parseInt(value, 10)
+        : Math.floor(Date.parse(value) / 1000);
+
+      if (Number.isNaN(seconds)) {
+        throw new BadRequestException(
+          `${name} must be a Unix timestamp or an ISO 8601 date`,
+        );
+      }
+      return seconds;
+    };
+
+    const tail = query.tail ? parseInt(query.tail, 10) : 100;
+    if (Number.isNaN(tail) || tail < 0) {
+      throw new BadRequestException('tail must be a non-negative number');
+    }
+
+    const options: LogOptions = {
+      tail,
+      since: parseTime(query.since, 'since'),
+      until: parseTime(query.until, 'until'),
+      stdout: query.stdout !== 'false',
+      stderr: query.stderr !== 'false',
+    };
+
+    if (!options.stdout && !options.stderr) {
+      throw new BadRequestException(
+        'At least one of stdout or stderr must be enabled',
+      );
+    }
+
+    return options;
+  }
+
+  private async getTaskConvergence(serviceName: string, replicas: number) {
+    const tasks = await this.containerService.getServiceTasks(serviceName);
+
+    // Tasks being started, plus running ones Swarm is still shutting down
+    const current = tasks
+      .filter(
+        (task: any) =>
+          task.DesiredState === 'running' || task.Status?.State === 'running',
+      )
+      .map((task: any) => ({
+        id: task.ID,
+        slot: task.Slot ?? null,
+        nodeId: task.NodeID ?? null,
+        state: task.Status?.State ?? 'unknown',
+        desiredState: task.DesiredState,
+        error: task.Status?.Err ?? null,
+        updatedAt: task.Status?.Timestamp ?? null,
+      }))
+      .sort((a, b) => (a.slot ?? 0) - (b.slot ?? 0));
+
+    const runningReplicas = current.filter(
+      (task) => task.desiredState === 'running' && task.state === 'running',
+    ).length;
+
+    return {
+      replicas,
+      runningReplicas,
+      converged:
+        runningReplicas === replicas &&
+        current.every((task) => task.desiredState === 'running'),
+      tasks: current,
+    };
+  }
+
+  private getDeploymentConfig(source: {
+    image: string;
+    tag: string;
+    replicas: number;
+    ports: unknown;
+    envVars: unknown;
+    volumes: unknown;
+    secrets: unknown;
+    resources: unknown;
+    healthCheck: unknown;
+  }): DeploymentConfig {
+    return {
+      image: source.image,
+      tag: source.tag,
+      replicas: source.replicas,
+      ports: (source.ports as DeploymentConfig['ports']) ?? null,
+      envVars: (source.envVars as DeploymentConfig['envVars']) ?? null,
+      volumes: (source.volumes as DeploymentConfig['volumes']) ?? null,
+      secrets: (source.secrets as DeploymentConfig['secrets']) ?? null,
+      resources: (source.resources as DeploymentConfig['resources']) ?? null,
+      healthCheck:
+        (source.healthCheck as DeploymentConfig['healthCheck']) ?? null,
+    };
+  }
+
+  private validateHealthCheck(
+    healthCheck: DeploymentHealthCheck | null | undefined,
+    virtualPort: number | null | undefined,
+    ports: DeploymentConfig['ports'] | undefined,
+  ): void {
+    if (healthCheck === undefined || healthCheck === null) {
+      return;
+    }
+
+    if (typeof healthCheck !== 'object') {
+      throw new BadRequestException('healthCheck must be an object');
+    }
+
+    const types = ['HTTP', 'TCP', 'COMMAND'];
+    if (!types.includes(healthCheck.type)) {
+      throw new BadRequestException(
+        `healthCheck.type must be one of: ${types.join(', ')}`,
+      );
+    }
+
+    if (healthCheck.type === 'COMMAND') {
+      if (
+        typeof healthCheck.command !== 'string' ||
+        !healthCheck.command.trim()
+      ) {
+        throw new BadRequestException(
+          'healthCheck.command is required for COMMAND health checks',
+        );
+      }
+    } else {
+      const port = healthCheck.port ?? virtualPort ?? ports?.[0]?.container;
+      if (
+        port === undefined ||
+        port === null ||
+        !Number.isInteger(port) ||
+        port < 1 ||
+        port > 65535
+      ) {
+        throw new BadRequestException(
+          `healthCheck.port is required for ${healthCheck.type} health checks without virtualPort or ports`,
+        );
+      }
+    }
+
+    // The path ends up in a shell command, so only plain URL characters pass
+    if (
+      healthCheck.path !== undefined &&
+      (typeof healthCheck.path !== 'string' ||
+        !/^\/[\w\-./~%?&=]*$/.test(healthCheck.path))
+    ) {
+      throw new BadRequestException(
+        'healthCheck.path must be an absolute URL path',
+      );
+    }
+
+    for (const field of [
+      'interval',
+      'timeout',
+      'retries',
+      'startPeriod',
+    ] as const) {
+      const value = healthCheck[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new BadRequestException(
+          `healthCheck.${field} must be a positive integer`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Docker health check of a deployment. HTTP and TCP probes rely on wget or
+   * curl and nc (or bash) being available in the image.
+   */
+  private buildHealthCheck(
+    healthCheck: DeploymentHealthCheck | null,
+    defaultPort: number | null | undefined,
+  ): ServiceConfig['healthCheck'] {
+    if (!healthCheck) {
+      return undefined;
+    }
+
+    const port = healthCheck.port ?? defaultPort;
+    let command: string;
+    switch (healthCheck.type) {
+      case 'HTTP': {
+        const url = `http://127.0.0.1:${port}${healthCheck.path ?? '/'}`;
+        command = `wget -q -O /dev/null '${url}' || curl -fsS -o /dev/null '${url}' || exit 1`;
+        break;
+      }
+      case 'TCP':
+        command = `nc -z 127.0.0.1 ${port} || bash -c '</dev/tcp/127.0.0.1/${port}' || exit 1`;
+        break;
+      default:
+        command = healthCheck.command ?? 'exit 0';
+    }
+
+    const seconds = (value: number | undefined) =>
+      value ? value * 1000000000 : undefined;
+
+    return {
+      test: ['CMD-SHELL', command],
+      interval: seconds(healthCheck.interval),
+      timeout: seconds(healthCheck.timeout),
+      retries: healthCheck.retries,
+      startPeriod: seconds(healthCheck.startPeriod),
+    };
+  }
+
+  private getDefaultResources(): DeploymentResources {
+    const cpuReservation = this.configService.get<number>(
+      'resources.defaultCpuReservation',
+      0,
+    );
+    const memoryReservation = this.configService.get<number>(
+      'resources.defaultMemoryReservation',
+      0,
+    );
+
+    return {
+      cpuLimit: this.configService.get<number>(
+        'resources.defaultCpuLimit',
+        0.5,
+      ),
+      memoryLimit: this.configService.get<number>(
+        'resources.defaultMemoryLimit',
+        512,
+      ),
+      cpuReservation: cpuReservation || undefined,
+      memoryReservation: memoryReservation || undefined,
+    };
+  }
+
+  /**
+   * Merge requested resources over a base (platform defaults or the current
+   * resources) and check them against the platform maxima.
+   */
+  private resolveResources(
+    requested: DeploymentResources | undefined,
+    base: DeploymentResources,
+  ): DeploymentResources {
+    if (requested === undefined) {
+      return base;
+    }
 
-      // Step 1: Update status to BUILDING
-      await this.prisma.deployment.update({
-        where: { id: deploymentId },
-        data: {
-          status: DeploymentStatus.PULLING_IMAGE, // Reusing status for building
-          startedAt: new Date(),
-        },
-      });
+    if (typeof requested !== 'object' || requested === null) {
+      throw new BadRequestException('resources must be an object');
+    }
 
-      // Emit deployment started event
-      this.eventEmitter.emit(
-        'deployment.started',
-        new DeploymentStartedEvent(
-          deployment.environment.userId,
-          deploymentId,
-          deployment.environmentId,
-          deployment.environment.name,
-          deployment.image,
-          deployment.tag || 'latest',
-          true, // isGitDeployment
-        ),
+    for (const field of [
+      'cpuLimit',
+      'memoryLimit',
+      'cpuReservation',
+      'memoryReservation',
+    ] as const) {
+      const value = requested[field];
+      if (
+        value !== undefined &&
+        (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)
+      ) {
+        throw new BadRequestException(
+          `resources.${field} must be a positive number`,
+        );
+      }
+    }
+
+    const resources: DeploymentResources = { ...base, ...requested };
+    const maxCpu = this.configService.get<number>('resources.maxCpuLimit', 2);
+    const maxMemory = this.configService.get<number>(
+      'resources.maxMemoryLimit',
+      2048,
+    );
+
+    if (resources.memoryLimit !== undefined) {
+      if (!Number.isInteger(resources.memoryLimit)) {
+        throw new BadRequestException(
+          'resources.memoryLimit must be a whole number of MiB',
+        );
+      }
+      // Docker refuses memory limits under 6 MiB
+      if (resources.memoryLimit < 6) {
+        throw new BadRequestException(
+          'resources.memoryLimit must be at least 6 MiB',
+        );
+      }
+    }
+
+    if (
+      resources.memoryReservation !== undefined &&
+      !Number.isInteger(resources.memoryReservation)
+    ) {
+      throw new BadRequestException(
+        'resources.memoryReservation must be a whole number of MiB',
       );
+    }
 
-      // Build image from Git
-      const fullImageName = await this.containerService.buildImageFromGit({
-        gitUrl,
-        imageName: deployment.image,
-        tag: deployment.tag || 'latest',
-        branch,
-        baseImage,
-        buildContext,
-        dockerfile,
-        installCommand,
-        buildCommand,
-        startCommand,
-      });
+    if ((resources.cpuLimit ?? 0) > maxCpu) {
+      throw new BadRequestException(
+        `resources.cpuLimit exceeds the platform maximum of ${maxCpu} CPUs`,
+      );
+    }
+    if ((resources.memoryLimit ?? 0) > maxMemory) {
+      throw new BadRequestException(
+        `resources.memoryLimit exceeds the platform maximum of ${maxMemory} MiB`,
+      );
+    }
+    if ((resources.cpuReservation ?? 0) > (resources.cpuLimit ?? maxCpu)) {
+      throw new BadRequestException(
+        'resources.cpuReservation cannot exceed the CPU limit',
+      );
+    }
+    if (
+      (resources.memoryReservation ?? 0) > (resources.memoryLimit ?? maxMemory)
+    ) {
+      throw new BadRequestException(
+        'resources.memoryReservation cannot exceed the memory limit',
+      );
+    }
 
-      // Step 2: Create volumes if needed
-      if (deployment.volumes && Array.isArray(deployment.volumes)) {
-        await this.prisma.deployment.update({
-          where: { id: deploymentId },
-          data: { status: DeploymentStatus.CREATING_VOLUMES },
-        });
+    return resources;
+  }
 
-        for (const volume of deployment.volumes as any[]) {
-          const volumeName = `vol_${deployment.environment.name}_${volume.name}`;
-          await this.volumeService.createVolume(volumeName, {
-            'com.deployment-platform.environment': deployment.environmentId,
-            'com.deployment-platform.deployment': deploymentId,
-          });
-        }
+  private mebibytesToBytes(value: number | undefined): number | undefined {
+    return value ? value * 1024 * 1024 : undefined;
+  }
+
+  /**
+   * Fields that differ between two configurations. The diff is stored with the
+   * update, so sensitive env values are masked here.
+   */
+  private diffDeploymentConfig(
+    current: DeploymentConfig,
+    target: DeploymentConfig,
+    sensitiveEnvKeys: unknown,
+  ): Record<string, { from: unknown; to: unknown }> {
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+    for (const key of Object.keys(target) as Array<keyof DeploymentConfig>) {
+      if (
+        this.stableStringify(current[key]) !== this.stableStringify(target[key])
+      ) {
+        changes[key] = { from: current[key], to: target[key] };
       }
+    }
 
-      // Step 3: Create service
-      await this.prisma.deployment.update({
-        where: { id: deploymentId },
-        data: { status: DeploymentStatus.STARTING_CONTAINERS },
-      });
+    if (changes.envVars) {
+      const patterns = compileEnvPatterns(
+        this.configService.get<string>(
+          'redaction.sensitiveEnvPatterns',
+          DEFAULT_SENSITIVE_ENV_PATTERNS,
+        ),
+      );
+      const keys = (sensitiveEnvKeys as string[] | null) ?? [];
 
-      // Create service name using jobId (stays under 63 char limit)
-      const serviceName = `job_${deployment.environment.name}_${deployment.jobId}`;
+      changes.envVars = {
+        from: redactEnvVars(changes.envVars.from, patterns, keys),
+        to: redactEnvVars(changes.envVars.to, patterns, keys),
+      };
+    }
 
-      // Prepare volumes for Docker
-      const volumes: any[] = [];
-      if (deployment.volumes && Array.isArray(deployment.volumes)) {
-        for (const vol of deployment.volumes as any[]) {
-          const volumeName = `vol_${deployment.environment.name}_${vol.name}`;
-          volumes.push({
-            name: volumeName,
-            path: vol.path,
-            readOnly: vol.readOnly || false,
-          });
-        }
-      }
+    return changes;
+  }
 
-      // Prepare environment variables
-      const envVars = (deployment.envVars as Record<string, string>) || {};
+  private stableStringify(value: unknown): string {
+    return JSON.stringify(value ?? null, (_key, val: unknown) =>
+      val && typeof val === 'object' && !Array.isArray(val)
+        ? Object.fromEntries(
+            Object.entries(val).sort(([a], [b]) => a.localeCompare(b)),
+          )
+        : val,
+    );
+  }
+
+  /**
+   * Fill the volumes of a new deployment with the data requested at
+   * creation, before any task mounts them. Copies are cleared once done so a
+   * later retry does not overwrite data the service already wrote.
+   */
+  private async copyPendingVolumes(
+    deployment: DeploymentWithRelations,
+  ): Promise<void> {
+    const copies = deployment.pendingVolumeCopies as VolumeCopy[] | null;
+    if (!copies || copies.length === 0) {
+      return;
+    }
 
-      // Add nginx-proxy env vars if deployment has virtualHost
-      if (deployment.virtualHost && deployment.virtualPort) {
-        envVars['VIRTUAL_HOST'] = deployment.virtualHost;
-        envVars['VIRTUAL_PORT'] = deployment.virtualPort.toString();
-        envVars['LETSENCRYPT_HOST'] = deployment.virtualHost;
+    for (const copy of copies) {
+      if (!(await this.volumeService.getVolume(copy.from))) {
+        this.logger.warn(
+          `Volume ${copy.from} no longer exists, ${copy.to} of deployment ${deployment.id} starts empty`,
+        );
+        continue;
       }
 
-      // Prepare service labels
-      const labels: Record<string, string> = {
-        'com.deployment-platform.environment': deployment.environmentId,
-        'com.deployment-platform.deployment': deploymentId,
-        'com.deployment-platform.git-url': gitUrl,
-        'com.deployment-platform.managed': 'true',
-      };
+      await this.volumeService.copyVolume(
+        copy.from,
+        this.resolveVolumeName(deployment.environment.name, copy.to),
+      );
+    }
 
-      // Create service
-      await this.containerService.createService({
-        name: serviceName,
-        image: deployment.image,
-        tag: deployment.tag || 'latest',
-        replicas: deployment.replicas,
-        env: envVars,
-        ports: deployment.ports as any[],
-        volumes: volumes,
-        networks: [networkName],
-        labels,
-      });
+    await this.prisma.deployment.update({
+      where: { id: deployment.id },
+      data: { pendingVolumeCopies: Prisma.DbNull },
+    });
+  }
 
-      // Create service record
-      await this.prisma.service.create({
-        data: {
-          deploymentId: deployment.id,
-          name: serviceName,
-          status: ServiceStatus.RUNNING,
+  /**
+   * Settle the deployments waiting on a deployment that just ran, failed or
+   * was deleted. Errors are logged, they must not fail the caller.
+   */
+  private async resolveDependents(deploymentId: string): Promise<void> {
+    const waiting = await this.prisma.deployment
+      .findMany({
+        where: {
+          status: DeploymentStatus.PENDING,
+          dependsOn: { array_contains: [deploymentId] },
         },
+        include: { environment: true },
+      })
+      .catch((error) => {
+        this.logger.error(
+          `Failed to find the deployments waiting on ${deploymentId}: ${error.message}`,
+        );
+        return [];
       });
 
-      // Step 4: Update status to RUNNING
-      await this.prisma.deployment.update({
-        where: { id: deploymentId },
+    for (const deployment of waiting) {
+      try {
+        await this.resolveWaitingDeployment(deployment);
+      } catch (error) {
+        this.logger.error(
+          `Failed to resolve dependencies of deployment ${deployment.id}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Queue a waiting deployment once all its dependencies are RUNNING, or fail
+   * it when one of them failed or was deleted. Failures cascade to the
+   * deployments waiting on it.
+   */
+  private async resolveWaitingDeployment(
+    deployment: DeploymentWithRelations,
+  ): Promise<void> {
+    const dependsOn = (deployment.dependsOn as string[] | null) ?? [];
+    const dependencies = await this.prisma.deployment.findMany({
+      where: { id: { in: dependsOn } },
+      select: { id: true, name: true, status: true },
+    });
+    const failed = dependencies.filter(
+      (dependency) => dependency.status === DeploymentStatus.FAILED,
+    );
+
+    if (failed.length > 0 || dependencies.length < dependsOn.length) {
+      const errorMessage =
+        failed.length > 0
+          ? `Dependency ${failed.map((dependency) => dependency.name ?? dependency.id).join(', ')} failed`
+          : 'A dependency was deleted before it was running';
+
+      // Guarded so concurrent resolutions fail it only once
+      const { count } = await this.prisma.deployment.updateMany({
+        where: {
+          id: deployment.id,
+          status: DeploymentStatus.PENDING,
+          dependsOn: { not: Prisma.DbNull },
+        },
         data: {
-          status: DeploymentStatus.RUNNING,
+          status: DeploymentStatus.FAILED,
+          errorMessage,
           completedAt: new Date(),
         },
       });
+      if (count === 0) {
+        return;
+      }
 
-      // Emit deployment success event
+      this.logger.warn(`Deployment ${deployment.id} failed: ${errorMessage}`);
       this.eventEmitter.emit(
-        'deployment.success',
-        new DeploymentSuccessEvent(
+        'deployment.failed',
+        new DeploymentFailedEvent(
           deployment.environment.userId,
-          deploymentId,
+          deployment.id,
           deployment.environmentId,
           deployment.environment.name,
           deployment.image,
-          deployment.tag || 'latest',
-          true, // isGitDeployment
-          deployment.virtualHost || undefined,
-          deployment.virtualPort || undefined,
+          errorMessage,
+          !!deployment.gitUrl,
         ),
       );
 
-      this.logger.log(
-        `Deployment ${deploymentId} from Git completed successfully`,
+      await this.resolveDependents(deployment.id);
+      return;
+    }
+
+    if (
+      !dependencies.every(
+        (dependency) => dependency.status === DeploymentStatus.RUNNING,
+      )
+    ) {
+      return;
+    }
+
+    const { count } = await this.prisma.deployment.updateMany({
+      where: {
+        id: deployment.id,
+        status: DeploymentStatus.PENDING,
+        dependsOn: { not: Prisma.DbNull },
+      },
+      data: { dependsOn: Prisma.DbNull },
+    });
+    if (count === 0) {
+      return;
+    }
+
+    this.logger.log(
+      `Dependencies of deployment ${deployment.id} are running, queuing it`,
+    );
+    await this.enqueueJob(
+      deployment.gitUrl
+        ? DeploymentJobName.DEPLOY_GIT
+        : DeploymentJobName.DEPLOY,
+      deployment.jobId,
+      { deploymentId: deployment.id },
+    );
+  }
+
+  private async ensureVolumes(
+    deployment: DeploymentWithRelations,
+    volumes: DeploymentConfig['volumes'],
+  ): Promise<void> {
+    for (const volume of volumes ?? []) {
+      await this.volumeService.createVolume(
+        this.resolveVolumeName(deployment.environment.name, volume.name),
+        {
+          'com.deployment-platform.environment': deployment.environmentId,
+          'com.deployment-platform.deployment': deployment.id,
+        },
       );
-    } catch (error) {
-      this.logger.error(
-        `Deployment ${deploymentId} from Git failed: ${error.message}`,
-        error.stack,
+    }
+  }
+
+  private validatePollInterval(interval: unknown): void {
+    const minInterval = this.configService.get<number>(
+      'gitPolling.minIntervalSeconds',
+      60,
+    );
+
+    if (
+      typeof interval !== 'number' ||
+      !Number.isInteger(interval) ||
+      interval < minInterval
+    ) {
+      throw new BadRequestException(
+        `Poll interval must be an integer of at least ${minInterval} seconds`,
       );
+    }
+  }
 
-      // Get deployment details for event
-      const failedDeployment = await this.prisma.deployment.findUnique({
-        where: { id: deploymentId },
-        include: { environment: true },
-      });
+  private async validateDeploymentName(
+    environmentId: string,
+    name: unknown,
+    replacedId?: string,
+  ): Promise<void> {
+    if (name === undefined || name === null) {
+      return;
+    }
 
-      // Update status to FAILED
-      await this.prisma.deployment.update({
-        where: { id: deploymentId },
-        data: {
-          status: DeploymentStatus.FAILED,
-          errorMessage: error.message,
-          completedAt: new Date(),
-        },
-      });
+    if (typeof name !== 'string' || !DEPLOYMENT_NAME_PATTERN.test(name)) {
+      throw new BadRequestException(
+        'name must be lowercase letters, digits and hyphens, starting with a letter or digit (max 63)',
+      );
+    }
 
-      // Emit deployment failed event
-      if (failedDeployment) {
-        this.eventEmitter.emit(
-          'deployment.failed',
-          new DeploymentFailedEvent(
-            failedDeployment.environment.userId,
-            deploymentId,
-            failedDeployment.environmentId,
-            failedDeployment.environment.name,
-            failedDeployment.image,
-            error.message,
-            true, // isGitDeployment
-          ),
+    const existing = await this.prisma.deployment.findUnique({
+      where: { environmentId_name: { environmentId, name } },
+    });
+
+    if (existing && existing.id !== replacedId) {
+      throw new ConflictException(
+        `A deployment named ${name} already exists in this environment`,
+      );
+    }
+  }
+
+  private validateVirtualHost(
+    virtualHost: string | null | undefined,
+    virtualPort: number | null | undefined,
+  ): void {
+    if (virtualHost && !virtualPort) {
+      throw new BadRequestException(
+        'virtualPort is required when virtualHost is specified',
+      );
+    }
+
+    // Validate domain format
+    if (virtualHost && !/^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(virtualHost)) {
+      throw new BadRequestException('Invalid domain format');
+    }
+  }
+
+  // Domains are unique among RUNNING deployments only
+  private async assertDomainAvailable(
+    virtualHost: string | null | undefined,
+    replacedId?: string,
+  ): Promise<void> {
+    if (!virtualHost) {
+      return;
+    }
+
+    const existing = await this.prisma.deployment.findFirst({
+      where: {
+        virtualHost,
+        status: DeploymentStatus.RUNNING,
+        ...(replacedId ? { id: { not: replacedId } } : {}),
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Domain ${virtualHost} is already in use by a running deployment`,
+      );
+    }
+  }
+
+  private validateSensitiveEnvKeys(keys: unknown): void {
+    if (keys === undefined) {
+      return;
+    }
+
+    if (
+      !Array.isArray(keys) ||
+      keys.some((key) => typeof key !== 'string' || key.length === 0)
+    ) {
+      throw new BadRequestException(
+        'sensitiveEnvKeys must be an array of env var names',
+      );
+    }
+  }
+
+  private validateGitUrl(gitUrl: string): void {
+    if (!gitUrl || typeof gitUrl !== 'string') {
+      throw new BadRequestException('gitUrl is required');
+    }
+
+    // git runs on the API host, local paths and file:// URLs would clone its
+    // repositories. scp-like SSH URLs (git@host:org/repo.git) carry no secrets.
+    if (/^[\w.-]+@[a-zA-Z0-9][\w.-]*:[^\s]+$/.test(gitUrl)) {
+      return;
+    }
+
+    let url: URL | null = null;
+    try {
+      url = new URL(gitUrl);
+    } catch {
+      // Checked below
+    }
+
+    if (!url || !['https:', 'ssh:'].includes(url.protocol) || !url.hostname) {
+      throw new BadRequestException(
+        'gitUrl must be an https://, ssh:// or user@host:path URL',
+      );
+    }
+
+    // The URL is stored and shown as is, tokens belong in a Git credential
+    if (
+      url.password ||
+      (url.username && ['http:', 'https:'].includes(url.protocol))
+    ) {
+      throw new BadRequestException(
+        'gitUrl must not contain credentials, use gitCredentialId for private repositories',
+      );
+    }
+  }
+
+  private validateBuildConfig(dto: CreateDeploymentFromGitDto): void {
+    // Paths are resolved inside the cloned repository
+    for (const [field, value] of [
+      ['buildContext', dto.buildContext],
+      ['dockerfile', dto.dockerfile],
+    ] as const) {
+      if (
+        value !== undefined &&
+        (typeof value !== 'string' ||
+          value.startsWith('/') ||
+          value.split(/[\\/]/).includes('..'))
+      ) {
+        throw new BadRequestException(
+          `${field} must be a relative path inside the repository`,
+        );
+      }
+    }
+
+    if (dto.buildArgs !== undefined) {
+      if (
+        typeof dto.buildArgs !== 'object' ||
+        dto.buildArgs === null ||
+        Array.isArray(dto.buildArgs) ||
+        Object.values(dto.buildArgs).some((value) => typeof value !== 'string')
+      ) {
+        throw new BadRequestException(
+          'buildArgs must be an object of string values',
         );
       }
     }
+
+    if (dto.autoRebuild !== undefined && typeof dto.autoRebuild !== 'boolean') {
+      throw new BadRequestException('autoRebuild must be a boolean');
+    }
+
+    if (dto.pollInterval !== undefined) {
+      if (!dto.autoRebuild) {
+        throw new BadRequestException('pollInterval requires autoRebuild');
+      }
+      this.validatePollInterval(dto.pollInterval);
+    }
+
+    if (
+      dto.target !== undefined &&
+      (typeof dto.target !== 'string' || !/^[a-zA-Z0-9_.-]+$/.test(dto.target))
+    ) {
+      throw new BadRequestException('Invalid build target');
+    }
+  }
+
+  private resolveVolumes(
+    environmentName: string,
+    volumes: DeploymentConfig['volumes'] | undefined,
+  ): DeploymentConfig['volumes'] {
+    if (!volumes) {
+      return null;
+    }
+
+    return volumes.map((volume) => ({
+      ...volume,
+      name: this.resolveVolumeName(environmentName, volume.name),
+    }));
+  }
+
+  // Volume names are stored either as given by the user or already prefixed
+  private resolveVolumeName(environmentName: string, name: string): string {
+    const prefix = `vol_${environmentName}_`;
+    return name.startsWith(prefix) ? name : `${prefix}${name}`;
   }
 }
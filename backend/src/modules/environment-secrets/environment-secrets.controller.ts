@@ -0,0 +1,236 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { EnvironmentSecretsService } from './environment-secrets.service';
+import type { SetEnvironmentSecretDto } from './environment-secrets.service';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { ScopesGuard } from '../../common/guards/scopes.guard';
+import { RequireScopes } from '../../common/decorators/require-scopes.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import type { User } from '@prisma/client';
+import { ApiKeyScope } from '@prisma/client';
+
+@Controller('environments')
+@UseGuards(ApiKeyGuard, ScopesGuard)
+@ApiTags('Environment Secrets')
+@ApiSecurity('api-key')
+export class EnvironmentSecretsController {
+  constructor(
+    private readonly environmentSecretsService: EnvironmentSecretsService,
+  ) {}
+
+  @Put(':id/secrets/:name')
+  @RequireScopes(ApiKeyScope.ENVIRONMENTS_WRITE)
+  @ApiOperation({
+    summary: 'Set environment secret',
+    description:
+      'Create a secret or rotate its value. Values are encrypted at rest and can never be read back through the API. ' +
+      'Deployments listing the secret in `secrets` get it as a Docker Swarm secret mounted at `/run/secrets/{name}`, ' +
+      'with `{name}_FILE` set to that path. Rotating a secret rolls every service that mounts it. ' +
+      'Services that could not be rolled are listed in `failedServices` and keep the previous version, ' +
+      'which is only removed once no service mounts it; setting the secret again retries them. ' +
+      '\n\n**Required scope**: `ENVIRONMENTS_WRITE`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Environment ID',
+    example: 'clx123abc456def',
+  })
+  @ApiParam({
+    name: 'name',
+    description:
+      'Secret name (letters, digits and underscores, not starting with a digit)',
+    example: 'DB_PASSWORD',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['value'],
+      properties: {
+        value: {
+          type: 'string',
+          description: 'Secret value (max 500 KB)',
+          example: 's3cr3t-p4ssw0rd',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Secret created or rotated',
+    schema: {
+      example: {
+        secret: {
+          id: 'clx555sec123abc',
+          environmentId: 'clx123abc456def',
+          name: 'DB_PASSWORD',
+          version: 2,
+          dockerSecretId: 'k3x8zq0b7w1m2n4p6r8t0v2x4',
+          dockerSecretName: 'sec_clx555sec123abc_v2',
+          previousDockerSecretNames: null,
+          createdAt: '2026-02-03T12:00:00.000Z',
+          updatedAt: '2026-02-04T08:00:00.000Z',
+        },
+        rolledServices: ['job_my-app-prod_a1b2c3d4e5f6g7h8'],
+        failedServices: [],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid name or value, or environment not active',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Missing ENVIRONMENTS_WRITE scope',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Environment not found',
+  })
+  async setSecret(
+    @CurrentUser() user: User,
+    @Param('id') environmentId: string,
+    @Param('name') name: string,
+    @Body() dto: SetEnvironmentSecretDto,
+  ) {
+    return this.environmentSecretsService.setSecret(
+      user.id,
+      environmentId,
+      name,
+      dto,
+    );
+  }
+
+  @Get(':id/secrets')
+  @RequireScopes(ApiKeyScope.ENVIRONMENTS_READ)
+  @ApiOperation({
+    summary: 'List environment secrets',
+    description:
+      'List the secrets of an environment. Only names and versions are returned, never values. ' +
+      '\n\n**Required scope**: `ENVIRONMENTS_READ`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Environment ID',
+    example: 'clx123abc456def',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of secrets',
+    schema: {
+      example: {
+        secrets: [
+          {
+            id: 'clx555sec123abc',
+            environmentId: 'clx123abc456def',
+            name: 'DB_PASSWORD',
+            version: 2,
+            dockerSecretId: 'k3x8zq0b7w1m2n4p6r8t0v2x4',
+            dockerSecretName: 'sec_clx555sec123abc_v2',
+            createdAt: '2026-02-03T12:00:00.000Z',
+            updatedAt: '2026-02-04T08:00:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Missing ENVIRONMENTS_READ scope',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Environment not found',
+  })
+  async listSecrets(
+    @CurrentUser() user: User,
+    @Param('id') environmentId: string,
+  ) {
+    const secrets = await this.environmentSecretsService.listSecrets(
+      user.id,
+      environmentId,
+    );
+    return { secrets };
+  }
+
+  @Delete(':id/secrets/:name')
+  @RequireScopes(ApiKeyScope.ENVIRONMENTS_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Delete environment secret',
+    description:
+      'Delete a secret and its Docker Swarm secret. Secrets still used by deployments cannot be deleted. ' +
+      '\n\n**Required scope**: `ENVIRONMENTS_WRITE`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Environment ID',
+    example: 'clx123abc456def',
+  })
+  @ApiParam({
+    name: 'name',
+    description: 'Secret name',
+    example: 'DB_PASSWORD',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Secret deleted successfully',
+    schema: {
+      example: {
+        message: 'Secret deleted successfully',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Missing ENVIRONMENTS_WRITE scope',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Environment or secret not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Secret is used by deployments',
+  })
+  async deleteSecret(
+    @CurrentUser() user: User,
+    @Param('id') environmentId: string,
+    @Param('name') name: string,
+  ) {
+    return this.environmentSecretsService.deleteSecret(
+      user.id,
+      environmentId,
+      name,
+    );
+  }
+}
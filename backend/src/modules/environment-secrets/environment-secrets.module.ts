@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { EnvironmentSecretsService } from './environment-secrets.service';
+import { EnvironmentSecretsController } from './environment-secrets.controller';
+import { DatabaseModule } from '../../core/database/database.module';
+import { DockerModule } from '../../integrations/docker/docker.module';
+
+@Module({
+  imports: [DatabaseModule, DockerModule],
+  providers: [EnvironmentSecretsService],
+  controllers: [EnvironmentSecretsController],
+  exports: [EnvironmentSecretsService],
+})
+export class EnvironmentSecretsModule {}
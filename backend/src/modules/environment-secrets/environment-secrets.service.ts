@@ -0,0 +1,387 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../core/database/prisma.service';
+import { EncryptionService } from '../../core/encryption/encryption.service';
+import { ContainerService } from '../../integrations/docker/container.service';
+import type { ServiceSecret } from '../../integrations/docker/container.service';
+import { SecretService } from '../../integrations/docker/secret.service';
+import { EnvironmentStatus, Prisma } from '@prisma/client';
+import type { Environment, EnvironmentSecret } from '@prisma/client';
+
+export interface SetEnvironmentSecretDto {
+  value: string;
+}
+
+// Swarm rejects secrets larger than 500 KB
+const MAX_SECRET_BYTES = 500 * 1024;
+
+@Injectable()
+export class EnvironmentSecretsService {
+  private readonly logger = new Logger(EnvironmentSecretsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly encryptionService: EncryptionService,
+    private readonly secretService: SecretService,
+    private readonly containerService: ContainerService,
+  ) {}
+
+  /**
+   * Create a secret or rotate its value. A rotation creates a new Swarm
+   * secret and rolls every service mounting the previous one. Earlier Swarm
+   * secrets are only removed once no service mounts them anymore, services
+   * that could not be rolled are returned in `failedServices`.
+   */
+  async setSecret(
+    userId: string,
+    environmentId: string,
+    name: string,
+    dto: SetEnvironmentSecretDto,
+  ) {
+    const environment = await this.getEnvironment(userId, environmentId);
+
+    if (environment.status !== EnvironmentStatus.ACTIVE) {
+      throw new BadRequestException('Environment is not active');
+    }
+
+    // Names become file names and *_FILE environment variables
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/.test(name)) {
+      throw new BadRequestException(
+        'Secret name must start with a letter or underscore and contain only letters, digits and underscores (max 64)',
+      );
+    }
+
+    if (typeof dto.value !== 'string' || dto.value.length === 0) {
+      throw new BadRequestException('value must be a non-empty string');
+    }
+
+    if (Buffer.byteLength(dto.value, 'utf8') > MAX_SECRET_BYTES) {
+      throw new BadRequestException('value must not exceed 500 KB');
+    }
+
+    const encryptedValue = this.encryptionService.encrypt(dto.value);
+    const existing = await this.prisma.environmentSecret.findUnique({
+      where: { environmentId_name: { environmentId, name } },
+    });
+
+    const secret =
+      existing ??
+      (await this.prisma.environmentSecret.create({
+        data: { environmentId, name, encryptedValue },
+      }));
+    const version = existing ? existing.version + 1 : secret.version;
+
+    const serviceSecret = await this.createDockerSecret(
+      environment,
+      secret,
+      version,
+      dto.value,
+    );
+
+    // Recorded before rolling, so an interrupted rotation leaves no orphan
+    const previousNames = existing ? this.getDockerSecretNames(existing) : [];
+
+    let updated = await this.prisma.environmentSecret.update({
+      where: { id: secret.id },
+      data: {
+        encryptedValue,
+        version,
+        dockerSecretId: serviceSecret.secretId,
+        dockerSecretName: serviceSecret.secretName,
+        previousDockerSecretNames:
+          previousNames.length > 0 ? previousNames : Prisma.DbNull,
+      },
+      omit: { encryptedValue: true },
+    });
+
+    let rolledServices: string[] = [];
+    let failedServices: string[] = [];
+    if (existing) {
+      ({ rolled: rolledServices, failed: failedServices } =
+        await this.rollServices(environmentId, serviceSecret));
+
+      // Services left on an earlier version still need it
+      const keptNames =
+        failedServices.length > 0
+          ? previousNames
+          : await this.deleteDockerSecrets(previousNames);
+      if (keptNames.length !== previousNames.length) {
+        updated = await this.prisma.environmentSecret.update({
+          where: { id: secret.id },
+          data: {
+            previousDockerSecretNames:
+              keptNames.length > 0 ? keptNames : Prisma.DbNull,
+          },
+          omit: { encryptedValue: true },
+        });
+      }
+
+      if (failedServices.length > 0) {
+        this.logger.warn(
+          `Secret ${name} of environment ${environmentId} rotated to version ${version}, ${failedServices.length} service(s) could not be rolled and keep the previous version: ${failedServices.join(', ')}`,
+        );
+      } else {
+        this.logger.log(
+          `Secret ${name} of environment ${environmentId} rotated to version ${version}, rolled ${rolledServices.length} service(s)`,
+        );
+      }
+    } else {
+      this.logger.log(`Secret ${name} created in environment ${environmentId}`);
+    }
+
+    return { secret: updated, rolledServices, failedServices };
+  }
+
+  async listSecrets(userId: string, environmentId: string) {
+    await this.getEnvironment(userId, environmentId);
+
+    return this.prisma.environmentSecret.findMany({
+      where: { environmentId },
+      orderBy: { name: 'asc' },
+      omit: { encryptedValue: true },
+    });
+  }
+
+  async deleteSecret(userId: string, environmentId: string, name: string) {
+    await this.getEnvironment(userId, environmentId);
+
+    const secret = await this.prisma.environmentSecret.findUnique({
+      where: { environmentId_name: { environmentId, name } },
+    });
+
+    if (!secret) {
+      throw new NotFoundException('Secret not found');
+    }
+
+    const consumers = await this.prisma.deployment.count({
+      where: { environmentId, secrets: { array_contains: [name] } },
+    });
+
+    if (consumers > 0) {
+      throw new ConflictException(
+        `Secret ${name} is used by ${consumers} deployment(s)`,
+      );
+    }
+
+    await this.deleteDockerSecrets(this.getDockerSecretNames(secret));
+
+    await this.prisma.environmentSecret.delete({
+      where: { id: secret.id },
+    });
+
+    this.logger.log(`Secret ${name} deleted from environment ${environmentId}`);
+
+    return { message: 'Secret deleted successfully' };
+  }
+
+  /**
+   * Copy every secret of an environment into another one of the same user,
+   * each starting over at version 1. Returns the copied names.
+   */
+  async copySecrets(
+    userId: string,
+    sourceEnvironmentId: string,
+    targetEnvironmentId: string,
+  ): Promise<string[]> {
+    await this.getEnvironment(userId, sourceEnvironmentId);
+
+    const secrets = await this.prisma.environmentSecret.findMany({
+      where: { environmentId: sourceEnvironmentId },
+      orderBy: { name: 'asc' },
+    });
+
+    for (const secret of secrets) {
+      await this.setSecret(userId, targetEnvironmentId, secret.name, {
+        value: this.encryptionService.decrypt(secret.encryptedValue),
+      });
+    }
+
+    return secrets.map((secret) => secret.name);
+  }
+
+  /**
+   * Check that the secrets referenced by a deployment exist in its
+   * environment.
+   */
+  async validateSecretNames(
+    environmentId: string,
+    names: unknown,
+  ): Promise<void> {
+    if (names === undefined || names === null) {
+      return;
+    }
+
+    if (
+      !Array.isArray(names) ||
+      names.some((name) => typeof name !== 'string')
+    ) {
+      throw new BadRequestException('secrets must be an array of names');
+    }
+
+    const secrets = await this.prisma.environmentSecret.findMany({
+      where: { environmentId, name: { in: names } },
+      select: { name: true },
+    });
+    const found = new Set(secrets.map((secret) => secret.name));
+    const missing = names.filter((name) => !found.has(name));
+
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Secrets not found in environment: ${missing.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Swarm secrets to mount into a service. Secrets lost on the Docker side,
+   * e.g. after the swarm was recreated, are created again from the stored
+   * value.
+   */
+  async resolveServiceSecrets(
+    environment: Environment,
+    names: string[],
+  ): Promise<ServiceSecret[]> {
+    const resolved: ServiceSecret[] = [];
+
+    for (const name of names) {
+      const secret = await this.prisma.environmentSecret.findUnique({
+        where: { environmentId_name: { environmentId: environment.id, name } },
+      });
+
+      if (!secret) {
+        throw new Error(`Secret ${name} not found in environment`);
+      }
+
+      if (
+        secret.dockerSecretId &&
+        secret.dockerSecretName &&
+        (await this.secretService.secretExists(secret.dockerSecretId))
+      ) {
+        resolved.push({
+          name,
+          secretId: secret.dockerSecretId,
+          secretName: secret.dockerSecretName,
+        });
+        continue;
+      }
+
+      this.logger.warn(`Swarm secret of ${name} is missing, recreating it`);
+      const serviceSecret = await this.createDockerSecret(
+        environment,
+        secret,
+        secret.version,
+        this.encryptionService.decrypt(secret.encryptedValue),
+      );
+
+      await this.prisma.environmentSecret.update({
+        where: { id: secret.id },
+        data: {
+          dockerSecretId: serviceSecret.secretId,
+          dockerSecretName: serviceSecret.secretName,
+        },
+      });
+
+      resolved.push(serviceSecret);
+    }
+
+    return resolved;
+  }
+
+  private async createDockerSecret(
+    environment: Environment,
+    secret: EnvironmentSecret,
+    version: number,
+    value: string,
+  ): Promise<ServiceSecret> {
+    // Swarm secrets are immutable and names are limited to 64 characters
+    const secretName = `sec_${secret.id}_v${version}`;
+    const secretId = await this.secretService.createSecret(secretName, value, {
+      'com.deployment-platform.environment': environment.id,
+      'com.deployment-platform.secret': secret.name,
+    });
+
+    return { name: secret.name, secretId, secretName };
+  }
+
+  /**
+   * Point every service of the environment that mounts the secret at its new
+   * version. Returns the names of the rolled services and of those the update
+   * failed for.
+   */
+  private async rollServices(
+    environmentId: string,
+    secret: ServiceSecret,
+  ): Promise<{ rolled: string[]; failed: string[] }> {
+    const services = await this.containerService.listServices({
+      label: [`com.deployment-platform.environment=${environmentId}`],
+    });
+    const rolled: string[] = [];
+    const failed: string[] = [];
+
+    for (const service of services) {
+      const serviceName: string = service.Spec.Name;
+      try {
+        if (
+          await this.containerService.replaceServiceSecret(serviceName, secret)
+        ) {
+          rolled.push(serviceName);
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to roll service ${serviceName} to ${secret.secretName}: ${error.message}`,
+        );
+        failed.push(serviceName);
+        // Continue with other services
+      }
+    }
+
+    return { rolled, failed };
+  }
+
+  /**
+   * Swarm secrets of every version of a secret, the current one last.
+   */
+  private getDockerSecretNames(secret: EnvironmentSecret): string[] {
+    const previous =
+      (secret.previousDockerSecretNames as string[] | null) ?? [];
+    return secret.dockerSecretName
+      ? [...previous, secret.dockerSecretName]
+      : previous;
+  }
+
+  /**
+   * Delete Swarm secrets, skipping those a service still mounts. Returns the
+   * names that were kept.
+   */
+  private async deleteDockerSecrets(names: string[]): Promise<string[]> {
+    const kept: string[] = [];
+
+    for (const name of names) {
+      if (!(await this.secretService.deleteSecret(name))) {
+        kept.push(name);
+      }
+    }
+
+    return kept;
+  }
+
+  private async getEnvironment(
+    userId: string,
+    environmentId: string,
+  ): Promise<Environment> {
+    const environment = await this.prisma.environment.findFirst({
+      where: { id: environmentId, userId },
+    });
+
+    if (!environment) {
+      throw new NotFoundException('Environment not found');
+    }
+
+    return environment;
+  }
+}
@@ -18,6 +18,8 @@ import {
   ApiSecurity,
 } from '@nestjs/swagger';
 import { EnvironmentsService } from './environments.service';
+import type { CloneEnvironmentDto } from './environments.service';
+import { Throttle } from '@nestjs/throttler';
 import { ApiKeyGuard } from '../../common/guards/api-key.guard';
 import { ScopesGuard } from '../../common/guards/scopes.guard';
 import { RequireScopes } from '../../common/decorators/require-scopes.decorator';
@@ -78,7 +80,8 @@ export class EnvironmentsController {
   })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - Missing ENVIRONMENTS_WRITE scope',
+    description:
+      'Forbidden - Missing ENVIRONMENTS_WRITE scope or quota exceeded',
   })
   @ApiResponse({
     status: 400,
@@ -279,4 +282,120 @@ export class EnvironmentsController {
     );
     return { environment };
   }
+
+  @Post(':id/clone')
+  @RequireScopes(ApiKeyScope.ENVIRONMENTS_WRITE, ApiKeyScope.DEPLOYMENTS_WRITE)
+  @Throttle({ default: { limit: 3, ttl: 60000 } }) // 3 clones per minute
+  @ApiOperation({
+    summary: 'Clone environment',
+    description:
+      'Create a new environment with its own overlay network, a copy of every secret and every deployment of this one. ' +
+      'Deployments are recreated from their current configuration (image, replicas, ports, env vars, volumes, secrets, ' +
+      'resources, health check) and deployed like new ones, Git deployments are built again from their branch. ' +
+      'With `copyVolumes`, the data of each volume is copied into the new one by a helper container before its ' +
+      'service starts; volumes in use are copied as they are at that moment. ' +
+      'Two running deployments cannot share a domain, so when deployments have a `virtualHost`, `virtualHostPattern` ' +
+      'is required to rewrite it: `{host}` is the original domain, `{subdomain}` its first label, `{domain}` the rest ' +
+      'and `{env}` the new environment name. Host ports are already taken, the clones get ports picked by Swarm. ' +
+      'A public environment gives a public clone. ' +
+      'Nothing is created when a deployment fails validation or the quota. ' +
+      'Poll each deployment with GET /deployments/job/:jobId. ' +
+      '\n\n**Required scopes**: `ENVIRONMENTS_WRITE`, `DEPLOYMENTS_WRITE`' +
+      '\n\n**Rate limit**: 3 requests per minute',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Environment ID to clone',
+    example: 'clx123abc456def',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: {
+          type: 'string',
+          description:
+            'Name of the new environment (alphanumeric, hyphens, underscores only)',
+          example: 'my-app-staging',
+          pattern: '^[a-zA-Z0-9_-]+$',
+        },
+        copyVolumes: {
+          type: 'boolean',
+          description: 'Copy the data of every volume (default: false)',
+          example: true,
+        },
+        virtualHostPattern: {
+          type: 'string',
+          description:
+            'Domain of the clones, with {host}, {subdomain}, {domain} and {env} placeholders',
+          example: '{subdomain}-staging.{domain}',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Environment cloned, deployments queued',
+    schema: {
+      example: {
+        environment: {
+          id: 'clx321cba654fed',
+          name: 'my-app-staging',
+          overlayNetworkId: 'net_my-app-staging',
+          status: 'ACTIVE',
+          isPublic: true,
+          createdAt: '2026-02-04T12:00:00.000Z',
+        },
+        secrets: ['DB_PASSWORD'],
+        deployments: [
+          {
+            sourceDeploymentId: 'clx456def789ghi',
+            deploymentId: 'clx654fed987ihg',
+            jobId: 'k3j2h1g0f9e8d7c6',
+            status: 'PENDING',
+            virtualHost: 'api-staging.example.com',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Environment not ACTIVE, invalid name, or missing or invalid virtualHostPattern',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Missing ENVIRONMENTS_WRITE or DEPLOYMENTS_WRITE scope, or quota exceeded',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Environment not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'An environment with this name exists or a rewritten domain is used by a running deployment',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests - Rate limit exceeded',
+  })
+  async cloneEnvironment(
+    @CurrentUser() user: User,
+    @Param('id') environmentId: string,
+    @Body() dto: CloneEnvironmentDto,
+  ) {
+    return this.environmentsService.cloneEnvironment(
+      user.id,
+      environmentId,
+      dto,
+    );
+  }
 }
@@ -3,9 +3,18 @@ import { EventEmitterModule } from '@nestjs/event-emitter';
 import { EnvironmentsService } from './environments.service';
 import { EnvironmentsController } from './environments.controller';
 import { DockerModule } from '../../integrations/docker/docker.module';
+import { QuotasModule } from '../quotas/quotas.module';
+import { DeploymentsModule } from '../deployments/deployments.module';
+import { EnvironmentSecretsModule } from '../environment-secrets/environment-secrets.module';
 
 @Module({
-  imports: [DockerModule, EventEmitterModule],
+  imports: [
+    DockerModule,
+    QuotasModule,
+    DeploymentsModule,
+    EnvironmentSecretsModule,
+    EventEmitterModule,
+  ],
   providers: [EnvironmentsService],
   controllers: [EnvironmentsController],
   exports: [EnvironmentsService],
@@ -10,11 +10,21 @@ import { PrismaService } from '../../core/database/prisma.service';
 import { NetworkService } from '../../integrations/docker/network.service';
 import { ContainerService } from '../../integrations/docker/container.service';
 import { VolumeService } from '../../integrations/docker/volume.service';
+import { SecretService } from '../../integrations/docker/secret.service';
+import { QuotasService } from '../quotas/quotas.service';
+import { DeploymentsService } from '../deployments/deployments.service';
+import type {
+  CreateDeploymentDto,
+  GitBuildConfig,
+  VolumeCopy,
+} from '../deployments/deployments.service';
+import { EnvironmentSecretsService } from '../environment-secrets/environment-secrets.service';
 import {
   EnvironmentStatus,
   DeploymentStatus,
   ServiceStatus,
 } from '@prisma/client';
+import type { Deployment } from '@prisma/client';
 import {
   EnvironmentActiveEvent,
   EnvironmentErrorEvent,
@@ -22,6 +32,12 @@ import {
   EnvironmentMadePublicEvent,
 } from '../../common/events/notification.events';
 
+export interface CloneEnvironmentDto {
+  name: string;
+  copyVolumes?: boolean; // Copy the data of every volume, default false
+  virtualHostPattern?: string; // e.g. "{subdomain}-staging.{domain}", required when a deployment has a virtualHost
+}
+
 @Injectable()
 export class EnvironmentsService {
   private readonly logger = new Logger(EnvironmentsService.name);
@@ -31,6 +47,10 @@ export class EnvironmentsService {
     private readonly networkService: NetworkService,
     private readonly containerService: ContainerService,
     private readonly volumeService: VolumeService,
+    private readonly secretService: SecretService,
+    private readonly quotasService: QuotasService,
+    private readonly deploymentsService: DeploymentsService,
+    private readonly environmentSecretsService: EnvironmentSecretsService,
     private readonly eventEmitter: EventEmitter2,
   ) {}
 
@@ -68,6 +88,8 @@ export class EnvironmentsService {
       );
     }
 
+    await this.quotasService.assertCanCreateEnvironment(userId);
+
     // Generate unique overlay network ID
     const overlayNetworkId = `net_${name}`;
 
@@ -145,6 +167,181 @@ export class EnvironmentsService {
     }
   }
 
+  /**
+   * Create a new environment with the secrets and deployments of an existing
+   * one. Deployments are recreated from their current configuration and
+   * deployed through the queue like new ones, Git deployments are built again
+   * from their branch. Domains can't be shared by two running deployments, so
+   * virtual hosts are rewritten by `virtualHostPattern`. Nothing is left
+   * behind when a deployment can't be created, e.g. over quota.
+   */
+  async cloneEnvironment(
+    userId: string,
+    environmentId: string,
+    dto: CloneEnvironmentDto,
+  ) {
+    const source = await this.getEnvironment(userId, environmentId);
+
+    if (source.status !== EnvironmentStatus.ACTIVE) {
+      throw new BadRequestException(
+        'Environment must be in ACTIVE status to clone',
+      );
+    }
+
+    if (typeof dto.name !== 'string' || dto.name.length === 0) {
+      throw new BadRequestException('name is required');
+    }
+
+    if (dto.copyVolumes !== undefined && typeof dto.copyVolumes !== 'boolean') {
+      throw new BadRequestException('copyVolumes must be a boolean');
+    }
+
+    const deployments = await this.prisma.deployment.findMany({
+      where: { environmentId },
+      orderBy: { createdAt: 'asc' },
+    });
+    const virtualHosts = await this.planVirtualHosts(
+      deployments,
+      dto.name,
+      dto.virtualHostPattern,
+    );
+
+    this.logger.log(
+      `Cloning environment ${environmentId} into "${dto.name}" with ${deployments.length} deployment(s)`,
+    );
+
+    let environment = await this.createEnvironment(userId, dto.name);
+
+    try {
+      // Virtual hosts of the clones need the proxy attached as well
+      if (source.isPublic) {
+        environment = await this.makePublic(userId, environment.id);
+      }
+
+      const secrets = await this.environmentSecretsService.copySecrets(
+        userId,
+        environmentId,
+        environment.id,
+      );
+
+      const sourcePrefix = `vol_${source.name}_`;
+      const copiedVolumes = new Set<string>();
+      const clones: Array<{
+        sourceDeploymentId: string;
+        deploymentId: string;
+        jobId: string;
+        status: DeploymentStatus;
+        virtualHost: string | null;
+        webhook?: { url: string; secret: string };
+      }> = [];
+
+      for (const deployment of deployments) {
+        // Volumes are recreated under the prefix of the new environment
+        const volumes = (
+          deployment.volumes as CreateDeploymentDto['volumes'] | null
+        )?.map((volume) => ({
+          ...volume,
+          name: volume.name.startsWith(sourcePrefix)
+            ? volume.name.slice(sourcePrefix.length)
+            : volume.name,
+        }));
+
+        // A volume shared by several deployments is copied once
+        const volumeCopies: VolumeCopy[] = [];
+        if (dto.copyVolumes) {
+          for (const volume of volumes ?? []) {
+            if (!copiedVolumes.has(volume.name)) {
+              copiedVolumes.add(volume.name);
+              volumeCopies.push({
+                from: `${sourcePrefix}${volume.name}`,
+                to: volume.name,
+              });
+            }
+          }
+        }
+
+        const config = {
+          environmentId: environment.id,
+          name: deployment.name ?? undefined,
+          replicas: deployment.replicas,
+          // Host ports are taken by the source, Swarm picks free ones instead
+          ports: (deployment.ports as CreateDeploymentDto['ports'] | null)?.map(
+            (port) => ({ container: port.container, protocol: port.protocol }),
+          ),
+          envVars: (deployment.envVars ?? undefined) as Record<string, string>,
+          volumes,
+          secrets: (deployment.secrets ?? undefined) as string[],
+          sensitiveEnvKeys: (deployment.sensitiveEnvKeys ?? undefined) as
+            | string[]
+            | undefined,
+          resources: (deployment.resources ??
+            undefined) as CreateDeploymentDto['resources'],
+          healthCheck: (deployment.healthCheck ??
+            undefined) as CreateDeploymentDto['healthCheck'],
+          virtualHost: virtualHosts.get(deployment.id),
+          virtualPort: deployment.virtualPort ?? undefined,
+        };
+
+        const created = deployment.gitUrl
+          ? await this.deploymentsService.createDeploymentFromGit(
+              userId,
+              {
+                ...config,
+                ...((deployment.buildConfig ?? {}) as GitBuildConfig),
+                gitUrl: deployment.gitUrl,
+                gitCredentialId: deployment.gitCredentialId ?? undefined,
+                branch: deployment.gitBranch ?? undefined,
+                autoRebuild: deployment.autoRebuild,
+                pollInterval: deployment.gitPollInterval ?? undefined,
+              },
+              { volumeCopies },
+            )
+          : {
+              ...(await this.deploymentsService.createDeployment(
+                userId,
+                { ...config, image: deployment.image, tag: deployment.tag },
+                { volumeCopies },
+              )),
+              webhook: undefined,
+            };
+
+        clones.push({
+          sourceDeploymentId: deployment.id,
+          deploymentId: created.deploymentId,
+          jobId: created.jobId,
+          status: created.status,
+          virtualHost: config.virtualHost ?? null,
+          webhook: created.webhook,
+        });
+      }
+
+      this.logger.log(
+        `Environment ${environmentId} cloned into ${environment.id}`,
+      );
+
+      return { environment, secrets, deployments: clones };
+    } catch (error) {
+      this.logger.error(
+        `Failed to clone environment ${environmentId}: ${error.message}`,
+      );
+
+      try {
+        await this.deleteEnvironment(userId, environment.id);
+      } catch (cleanupError) {
+        this.logger.warn(
+          `Failed to remove partial clone ${environment.id}: ${cleanupError.message}`,
+        );
+      }
+
+      // Queued jobs of the removed deployments find nothing left to deploy
+      await this.prisma.deployment.deleteMany({
+        where: { environmentId: environment.id },
+      });
+
+      throw error;
+    }
+  }
+
   async getEnvironment(userId: string, environmentId: string) {
     const environment = await this.prisma.environment.findFirst({
       where: {
@@ -155,6 +352,7 @@ export class EnvironmentsService {
         deployments: {
           orderBy: { createdAt: 'desc' },
           take: 10,
+          omit: { webhookSecret: true },
         },
       },
     });
@@ -211,6 +409,13 @@ export class EnvironmentsService {
         include: { service: true },
       });
 
+      // Take the deployments out of RUNNING first, so neither the reconciler
+      // nor startup recovery recreates the services removed below
+      await this.prisma.deployment.updateMany({
+        where: { environmentId },
+        data: { status: DeploymentStatus.DELETING },
+      });
+
       // Remove all services
       for (const deployment of deployments) {
         if (deployment.service?.name) {
@@ -236,6 +441,21 @@ export class EnvironmentsService {
         }
       }
 
+      // Delete Swarm secrets and the stored values of environment secrets
+      const secrets = await this.secretService.listSecrets(environmentId);
+      for (const secret of secrets) {
+        try {
+          await this.secretService.deleteSecret(secret.ID);
+        } catch (error) {
+          this.logger.warn(
+            `Failed to delete secret ${secret.Spec?.Name}: ${error.message}`,
+          );
+        }
+      }
+      await this.prisma.environmentSecret.deleteMany({
+        where: { environmentId },
+      });
+
       // nginx-proxy will automatically detach when network is deleted
       // No manual detachment needed
 
@@ -354,4 +574,75 @@ export class EnvironmentsService {
     }
   }
 
+  /**
+   * Virtual hosts of the clones by source deployment ID. Placeholders of the
+   * pattern: {host} is the original domain, {subdomain} its first label,
+   * {domain} the rest and {env} the name of the new environment.
+   */
+  private async planVirtualHosts(
+    deployments: Deployment[],
+    environmentName: string,
+    pattern: string | undefined,
+  ): Promise<Map<string, string>> {
+    const hosts = new Map<string, string>();
+    const withHost = deployments.filter((deployment) => deployment.virtualHost);
+
+    if (withHost.length === 0) {
+      return hosts;
+    }
+
+    if (typeof pattern !== 'string' || pattern.length === 0) {
+      throw new BadRequestException(
+        `virtualHostPattern is required, domains are used by: ${withHost
+          .map((deployment) => deployment.virtualHost)
+          .join(', ')}`,
+      );
+    }
+
+    for (const deployment of withHost) {
+      const host = deployment.virtualHost!;
+      const [subdomain, ...rest] = host.split('.');
+      const rewritten = pattern
+        .replace(/\{host\}/g, host)
+        .replace(/\{subdomain\}/g, subdomain)
+        .replace(/\{domain\}/g, rest.join('.'))
+        .replace(/\{env\}/g, environmentName)
+        .toLowerCase();
+
+      if (!/^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(rewritten)) {
+        throw new BadRequestException(
+          `virtualHostPattern turns ${host} into an invalid domain: ${rewritten}`,
+        );
+      }
+
+      if (rewritten === host.toLowerCase()) {
+        throw new BadRequestException(
+          `virtualHostPattern must change the domain ${host}`,
+        );
+      }
+
+      if ([...hosts.values()].includes(rewritten)) {
+        throw new BadRequestException(
+          `virtualHostPattern gives several deployments the domain ${rewritten}`,
+        );
+      }
+
+      hosts.set(deployment.id, rewritten);
+    }
+
+    const taken = await this.prisma.deployment.findFirst({
+      where: {
+        virtualHost: { in: [...hosts.values()] },
+        status: DeploymentStatus.RUNNING,
+      },
+    });
+
+    if (taken) {
+      throw new ConflictException(
+        `Domain ${taken.virtualHost} is already in use by a running deployment`,
+      );
+    }
+
+    return hosts;
+  }
 }
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { GitCredentialsService } from './git-credentials.service';
+import { GitCredentialsController } from './git-credentials.controller';
+import { DatabaseModule } from '../../core/database/database.module';
+
+@Module({
+  imports: [DatabaseModule],
+  providers: [GitCredentialsService],
+  controllers: [GitCredentialsController],
+  exports: [GitCredentialsService],
+})
+export class GitCredentialsModule {}
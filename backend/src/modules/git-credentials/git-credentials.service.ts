@@ -0,0 +1,191 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../core/database/prisma.service';
+import { EncryptionService } from '../../core/encryption/encryption.service';
+import type { GitAuth } from '../../integrations/git/git.service';
+import { GitCredentialType } from '@prisma/client';
+import type { GitCredential } from '@prisma/client';
+
+export interface CreateGitCredentialDto {
+  name: string;
+  type: GitCredentialType;
+  username?: string; // HTTPS_TOKEN only
+  token?: string; // HTTPS_TOKEN
+  privateKey?: string; // SSH_KEY, PEM or OpenSSH format without passphrase
+}
+
+@Injectable()
+export class GitCredentialsService {
+  private readonly logger = new Logger(GitCredentialsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly encryptionService: EncryptionService,
+  ) {}
+
+  async createCredential(userId: string, dto: CreateGitCredentialDto) {
+    if (!dto.name || !/^[a-zA-Z0-9_-]+$/.test(dto.name)) {
+      throw new BadRequestException(
+        'Credential name can only contain alphanumeric characters, hyphens, and underscores',
+      );
+    }
+
+    let secret: string;
+    let username: string | null = null;
+
+    switch (dto.type) {
+      case GitCredentialType.HTTPS_TOKEN:
+        if (!dto.token || typeof dto.token !== 'string') {
+          throw new BadRequestException(
+            'token is required for HTTPS_TOKEN credentials',
+          );
+        }
+        if (dto.privateKey) {
+          throw new BadRequestException(
+            'privateKey is only allowed for SSH_KEY credentials',
+          );
+        }
+        if (dto.username !== undefined && !/^[^\s:@]+$/.test(dto.username)) {
+          throw new BadRequestException('Invalid username');
+        }
+        secret = dto.token.trim();
+        username = dto.username ?? null;
+        break;
+
+      case GitCredentialType.SSH_KEY:
+        if (
+          !dto.privateKey ||
+          typeof dto.privateKey !== 'string' ||
+          !/^-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(dto.privateKey.trim())
+        ) {
+          throw new BadRequestException(
+            'privateKey must be a PEM or OpenSSH private key for SSH_KEY credentials',
+          );
+        }
+        if (dto.token || dto.username) {
+          throw new BadRequestException(
+            'token and username are only allowed for HTTPS_TOKEN credentials',
+          );
+        }
+        // ssh rejects key files without a trailing newline
+        secret = `${dto.privateKey.trim()}\n`;
+        break;
+
+      default:
+        throw new BadRequestException(
+          `type must be one of ${Object.values(GitCredentialType).join(', ')}`,
+        );
+    }
+
+    const existing = await this.prisma.gitCredential.findUnique({
+      where: { userId_name: { userId, name: dto.name } },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Git credential with name "${dto.name}" already exists`,
+      );
+    }
+
+    const credential = await this.prisma.gitCredential.create({
+      data: {
+        userId,
+        name: dto.name,
+        type: dto.type,
+        username,
+        encryptedSecret: this.encryptionService.encrypt(secret),
+      },
+      omit: { encryptedSecret: true },
+    });
+
+    this.logger.log(
+      `Git credential "${credential.name}" (${credential.type}) created for user ${userId}`,
+    );
+
+    return credential;
+  }
+
+  async listCredentials(userId: string) {
+    return this.prisma.gitCredential.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      omit: { encryptedSecret: true },
+    });
+  }
+
+  async deleteCredential(userId: string, credentialId: string) {
+    const credential = await this.findCredential(userId, credentialId);
+
+    const deployments = await this.prisma.deployment.count({
+      where: { gitCredentialId: credential.id },
+    });
+
+    if (deployments > 0) {
+      throw new ConflictException(
+        `Git credential is used by ${deployments} deployment(s)`,
+      );
+    }
+
+    await this.prisma.gitCredential.delete({
+      where: { id: credential.id },
+    });
+
+    this.logger.log(`Git credential "${credential.name}" deleted`);
+
+    return { message: 'Git credential deleted successfully' };
+  }
+
+  /**
+   * Find a credential owned by the user, used to validate references from
+   * deployments.
+   */
+  async findCredential(
+    userId: string,
+    credentialId: string,
+  ): Promise<GitCredential> {
+    const credential = await this.prisma.gitCredential.findFirst({
+      where: { id: credentialId, userId },
+    });
+
+    if (!credential) {
+      throw new NotFoundException('Git credential not found');
+    }
+
+    return credential;
+  }
+
+  /**
+   * Decrypt a credential for cloning. Returns undefined for deployments of
+   * public repositories.
+   */
+  async getGitAuth(credentialId?: string | null): Promise<GitAuth | undefined> {
+    if (!credentialId) {
+      return undefined;
+    }
+
+    const credential = await this.prisma.gitCredential.findUnique({
+      where: { id: credentialId },
+    });
+
+    if (!credential) {
+      throw new NotFoundException('Git credential not found');
+    }
+
+    const secret = this.encryptionService.decrypt(credential.encryptedSecret);
+
+    if (credential.type === GitCredentialType.SSH_KEY) {
+      return { type: 'SSH_KEY', privateKey: secret };
+    }
+
+    return {
+      type: 'HTTPS_TOKEN',
+      username: credential.username ?? undefined,
+      token: secret,
+    };
+  }
+}
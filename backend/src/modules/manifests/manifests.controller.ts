@@ -0,0 +1,281 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { ManifestsService } from './manifests.service';
+import type { ManifestDto } from './manifests.service';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { ScopesGuard } from '../../common/guards/scopes.guard';
+import { RequireScopes } from '../../common/decorators/require-scopes.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import type { User } from '@prisma/client';
+import { ApiKeyScope } from '@prisma/client';
+
+const MANIFEST_EXAMPLE = `public: true
+deployments:
+  - name: api
+    image: ghcr.io/acme/api
+    tag: "1.4.2"
+    replicas: 2
+    envVars:
+      NODE_ENV: production
+    secrets: [DB_PASSWORD]
+    volumes:
+      - name: uploads
+        path: /app/uploads
+    virtualHost: api.example.com
+    virtualPort: 3000
+  - name: worker
+    image: ghcr.io/acme/worker
+    tag: "1.4.2"
+`;
+
+const MANIFEST_BODY = {
+  schema: {
+    type: 'object',
+    required: ['manifest'],
+    properties: {
+      manifest: {
+        oneOf: [{ type: 'string' }, { type: 'object' }],
+        description:
+          'YAML or JSON document, or the same structure as an object. ' +
+          'Top-level fields: `public` and `deployments`. Each deployment has a `name` and an `image`, ' +
+          'plus any of `tag`, `replicas`, `ports`, `envVars`, `volumes`, `secrets`, `resources`, ' +
+          '`healthCheck`, `virtualHost` and `virtualPort` as in POST /deployments',
+        example: MANIFEST_EXAMPLE,
+      },
+      fingerprint: {
+        type: 'string',
+        description:
+          'Fingerprint of the reviewed plan, apply fails with 409 when the plan is no longer the same',
+        example: '3f9a1c0b7d2e4a68',
+      },
+    },
+  },
+};
+
+@Controller('environments')
+@UseGuards(ApiKeyGuard, ScopesGuard)
+@ApiTags('Manifests')
+@ApiSecurity('api-key')
+export class ManifestsController {
+  constructor(private readonly manifestsService: ManifestsService) {}
+
+  @Post(':id/plan')
+  @RequireScopes(ApiKeyScope.ENVIRONMENTS_READ, ApiKeyScope.DEPLOYMENTS_READ)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Plan manifest',
+    description:
+      'Compare a manifest with the environment and list what applying it would do, without changing anything. ' +
+      'Deployments are matched by `name`: missing ones are created, differing ones updated in place, ' +
+      'and ones whose `virtualHost` or `virtualPort` changes are replaced, keeping their volumes. ' +
+      'Named image deployments of the environment not in the manifest are deleted. ' +
+      'Git deployments and deployments without a name are left alone. Fields a deployment omits keep their current value. ' +
+      'The whole plan is validated, quota included. Sensitive env values are masked. ' +
+      'Pass the returned `fingerprint` to apply to make sure the reviewed plan is the one applied. ' +
+      '\n\n**Required scopes**: `ENVIRONMENTS_READ`, `DEPLOYMENTS_READ`',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Environment ID',
+    example: 'clx123abc456def',
+  })
+  @ApiBody(MANIFEST_BODY)
+  @ApiResponse({
+    status: 200,
+    description: 'Plan of the changes',
+    schema: {
+      example: {
+        environmentId: 'clx123abc456def',
+        fingerprint: '3f9a1c0b7d2e4a68',
+        summary: { create: 1, update: 1, replace: 0, delete: 1, unchanged: 0 },
+        changes: [
+          {
+            action: 'update',
+            name: 'api',
+            deploymentId: 'clx456def789ghi',
+            changes: { tag: { from: '1.4.1', to: '1.4.2' } },
+          },
+          {
+            action: 'create',
+            name: 'worker',
+            deploymentId: null,
+            changes: {
+              image: { from: null, to: 'ghcr.io/acme/worker' },
+              tag: { from: null, to: '1.4.2' },
+              replicas: { from: null, to: 1 },
+            },
+          },
+          {
+            action: 'delete',
+            name: 'legacy-worker',
+            deploymentId: 'clx789ghi012jkl',
+            changes: {},
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid manifest, environment not ACTIVE, or an update of a deployment that is not RUNNING',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Missing ENVIRONMENTS_READ or DEPLOYMENTS_READ scope, or quota exceeded',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Environment not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A domain is used by a running deployment',
+  })
+  async plan(
+    @CurrentUser() user: User,
+    @Param('id') environmentId: string,
+    @Body() dto: ManifestDto,
+  ) {
+    return this.manifestsService.plan(user.id, environmentId, dto);
+  }
+
+  @Post(':id/apply')
+  @RequireScopes(ApiKeyScope.ENVIRONMENTS_WRITE, ApiKeyScope.DEPLOYMENTS_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 3, ttl: 60000 } }) // 3 applies per minute
+  @ApiOperation({
+    summary: 'Apply manifest',
+    description:
+      'Plan the manifest like POST /environments/:id/plan and carry the plan out: ' +
+      'deletes first, then replacements, updates and creations. Nothing changes when the plan is invalid. ' +
+      'A replacement is created before the deployment it replaces is deleted. ' +
+      'Changes already made are not undone: when one fails the apply stops with a 409 (500 for unexpected errors) ' +
+      'whose `failed` names the failed change and `results` lists the changes already made. ' +
+      'Creations and updates are queued like the ones made through POST /deployments and PATCH /deployments/:id, ' +
+      'poll them with GET /deployments/job/:jobId and GET /deployments/:id/versions. ' +
+      '`public: true` attaches the proxy to the environment once every change is made. ' +
+      '\n\n**Required scopes**: `ENVIRONMENTS_WRITE`, `DEPLOYMENTS_WRITE`' +
+      '\n\n**Rate limit**: 3 requests per minute',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Environment ID',
+    example: 'clx123abc456def',
+  })
+  @ApiBody(MANIFEST_BODY)
+  @ApiResponse({
+    status: 200,
+    description: 'Manifest applied and deployments queued',
+    schema: {
+      example: {
+        environmentId: 'clx123abc456def',
+        fingerprint: '3f9a1c0b7d2e4a68',
+        madePublic: false,
+        results: [
+          {
+            action: 'delete',
+            name: 'legacy-worker',
+            deploymentId: 'clx789ghi012jkl',
+          },
+          {
+            action: 'update',
+            name: 'api',
+            deploymentId: 'clx456def789ghi',
+            updateId: 'clx999upd789ghi',
+            toVersion: 4,
+            status: 'PENDING',
+          },
+          {
+            action: 'create',
+            name: 'worker',
+            jobId: 'k3j2h1g0f9e8d7c6',
+            deploymentId: 'clx654fed987ihg',
+            status: 'PENDING',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid manifest, environment not ACTIVE, or an update of a deployment that is not RUNNING',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Missing ENVIRONMENTS_WRITE or DEPLOYMENTS_WRITE scope, or quota exceeded',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Environment not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'The plan changed since its fingerprint was taken, a domain is used by a running deployment, ' +
+      'or a change failed after others were made (listed in `results`)',
+    schema: {
+      example: {
+        statusCode: 409,
+        error: 'Manifest Partially Applied',
+        message:
+          'Manifest partially applied, create of worker failed: A deployment named worker already exists in this environment',
+        environmentId: 'clx123abc456def',
+        fingerprint: '3f9a1c0b7d2e4a68',
+        results: [
+          {
+            action: 'delete',
+            name: 'legacy-worker',
+            deploymentId: 'clx789ghi012jkl',
+          },
+        ],
+        failed: { action: 'create', name: 'worker', deploymentId: null },
+        timestamp: '2026-10-20T08:00:00.000Z',
+        path: '/environments/clx123abc456def/apply',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 500,
+    description:
+      'A change failed unexpectedly after others were made, same body as the 409',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests - Rate limit exceeded',
+  })
+  async apply(
+    @CurrentUser() user: User,
+    @Param('id') environmentId: string,
+    @Body() dto: ManifestDto,
+  ) {
+    return this.manifestsService.apply(user.id, environmentId, dto);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ManifestsService } from './manifests.service';
+import { ManifestsController } from './manifests.controller';
+import { DatabaseModule } from '../../core/database/database.module';
+import { EnvironmentsModule } from '../environments/environments.module';
+import { DeploymentsModule } from '../deployments/deployments.module';
+import { QuotasModule } from '../quotas/quotas.module';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    EnvironmentsModule,
+    DeploymentsModule,
+    QuotasModule,
+  ],
+  providers: [ManifestsService],
+  controllers: [ManifestsController],
+  exports: [ManifestsService],
+})
+export class ManifestsModule {}
@@ -0,0 +1,809 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as yaml from 'js-yaml';
+import { PrismaService } from '../../core/database/prisma.service';
+import { EnvironmentsService } from '../environments/environments.service';
+import {
+  DeploymentsService,
+  DEPLOYMENT_NAME_PATTERN,
+} from '../deployments/deployments.service';
+import type {
+  CreateDeploymentDto,
+  DeploymentConfig,
+  UpdateDeploymentDto,
+} from '../deployments/deployments.service';
+import { QuotasService } from '../quotas/quotas.service';
+import type { DeploymentQuotaRequest } from '../quotas/quotas.service';
+import {
+  DEFAULT_SENSITIVE_ENV_PATTERNS,
+  compileEnvPatterns,
+  redactEnvVars,
+} from '../../common/utils/redaction';
+import { DeploymentStatus, EnvironmentStatus } from '@prisma/client';
+import type { Deployment, Environment } from '@prisma/client';
+
+// Image deployment of a manifest, matched to an existing one by name.
+// Omitted fields keep their current value, or the defaults on creation.
+export interface ManifestDeployment {
+  name: string;
+  image: string;
+  tag?: string;
+  replicas?: number;
+  ports?: CreateDeploymentDto['ports'];
+  envVars?: Record<string, string>;
+  volumes?: CreateDeploymentDto['volumes'];
+  secrets?: string[];
+  resources?: CreateDeploymentDto['resources'];
+  healthCheck?: CreateDeploymentDto['healthCheck'] | null;
+  virtualHost?: string | null; // Changing it recreates the deployment
+  virtualPort?: number | null;
+}
+
+export interface EnvironmentManifest {
+  public?: boolean;
+  deployments: ManifestDeployment[];
+}
+
+export interface ManifestDto {
+  manifest: string | EnvironmentManifest; // YAML or JSON document, or the parsed object
+  fingerprint?: string; // Of the reviewed plan, apply fails if the plan changed since
+}
+
+type ManifestAction = 'create' | 'update' | 'replace' | 'delete' | 'unchanged';
+
+interface PlannedChange {
+  action: ManifestAction;
+  name: string | null;
+  deployment: Deployment | null; // Existing deployment
+  create: CreateDeploymentDto | null; // Creates and replaces
+  update: UpdateDeploymentDto | null; // Updates
+  target: DeploymentConfig | null;
+  virtualHost: string | null;
+  preserveVolumes: boolean; // Deletes and replaces keep volumes the manifest still uses
+  changes: Record<string, { from: unknown; to: unknown }>;
+}
+
+interface ManifestPlan {
+  environment: Environment;
+  makePublic: boolean;
+  changes: PlannedChange[];
+  fingerprint: string;
+}
+
+const MANIFEST_FIELDS = ['public', 'deployments'];
+const DEPLOYMENT_FIELDS = [
+  'name',
+  'image',
+  'tag',
+  'replicas',
+  'ports',
+  'envVars',
+  'volumes',
+  'secrets',
+  'resources',
+  'healthCheck',
+  'virtualHost',
+  'virtualPort',
+];
+
+// Deletes run first so names, domains and quota are free for the rest
+const APPLY_ORDER: ManifestAction[] = ['delete', 'replace', 'update', 'create'];
+
+@Injectable()
+export class ManifestsService {
+  private readonly logger = new Logger(ManifestsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly environmentsService: EnvironmentsService,
+    private readonly deploymentsService: DeploymentsService,
+    private readonly quotasService: QuotasService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Diff a manifest against the deployments of an environment. Named image
+   * deployments missing from the manifest are deleted, Git and unnamed
+   * deployments are left alone.
+   */
+  async plan(userId: string, environmentId: string, dto: ManifestDto) {
+    const plan = await this.buildPlan(userId, environmentId, dto.manifest);
+    return this.describePlan(plan);
+  }
+
+  /**
+   * Apply a manifest. The whole plan is validated, quota included, before
+   * anything changes; deployments and updates then go through the queue like
+   * the ones made through the API. A replaced deployment is only deleted once
+   * its successor is created, and the environment is made public last. When
+   * a change fails the apply stops with a 409 (500 for unexpected errors)
+   * listing the changes already made in `results`; those are not undone.
+   */
+  async apply(userId: string, environmentId: string, dto: ManifestDto) {
+    const plan = await this.buildPlan(userId, environmentId, dto.manifest);
+
+    if (dto.fingerprint !== undefined && dto.fingerprint !== plan.fingerprint) {
+      throw new ConflictException(
+        'The environment changed since the plan was made, review the new plan',
+      );
+    }
+
+    const results: Array<Record<string, unknown>> = [];
+    const fail = (
+      action: ManifestAction | 'public',
+      change: PlannedChange | null,
+      error: Error,
+    ): never => {
+      const name = change
+        ? (change.name ?? change.deployment?.id)
+        : 'environment';
+      this.logger.error(
+        `Manifest apply on environment ${environmentId} stopped at ${action} of ${name}: ${error.message}`,
+      );
+
+      throw new HttpException(
+        {
+          message: `Manifest partially applied, ${action} of ${name} failed: ${error.message}`,
+          error: 'Manifest Partially Applied',
+          environmentId,
+          fingerprint: plan.fingerprint,
+          results,
+          failed: {
+            action,
+            name: change?.name ?? null,
+            deploymentId: change?.deployment?.id ?? null,
+          },
+        },
+        error instanceof HttpException
+          ? HttpStatus.CONFLICT
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    };
+
+    for (const action of APPLY_ORDER) {
+      for (const change of plan.changes.filter((c) => c.action === action)) {
+        try {
+          results.push(await this.applyChange(userId, change));
+        } catch (error) {
+          fail(action, change, error);
+        }
+      }
+    }
+
+    // Last, so a failed apply leaves the environment private
+    if (plan.makePublic) {
+      try {
+        await this.environmentsService.makePublic(userId, environmentId);
+      } catch (error) {
+        fail('public', null, error);
+      }
+    }
+
+    this.logger.log(
+      `Manifest applied to environment ${environmentId}: ${results.length} change(s)`,
+    );
+
+    return {
+      environmentId,
+      fingerprint: plan.fingerprint,
+      madePublic: plan.makePublic,
+      results,
+    };
+  }
+
+  private async applyChange(
+    userId: string,
+    change: PlannedChange,
+  ): Promise<Record<string, unknown>> {
+    switch (change.action) {
+      case 'delete':
+        await this.deploymentsService.deleteDeployment(
+          userId,
+          change.deployment!.id,
+          change.preserveVolumes,
+        );
+        return {
+          action: change.action,
+          name: change.name,
+          deploymentId: change.deployment!.id,
+        };
+
+      case 'replace': {
+        const created = await this.deploymentsService.createDeployment(
+          userId,
+          change.create!,
+          {
+            replaces: {
+              deploymentId: change.deployment!.id,
+              preserveVolumes: change.preserveVolumes,
+            },
+          },
+        );
+        return {
+          action: change.action,
+          name: change.name,
+          previousDeploymentId: change.deployment!.id,
+          ...created,
+        };
+      }
+
+      case 'update': {
+        const updated = await this.deploymentsService.updateDeployment(
+          userId,
+          change.deployment!.id,
+          change.update!,
+        );
+        return {
+          action: change.action,
+          name: change.name,
+          deploymentId: updated.deploymentId,
+          updateId: updated.updateId,
+          toVersion: updated.toVersion,
+          status: updated.status,
+        };
+      }
+
+      default: {
+        const created = await this.deploymentsService.createDeployment(
+          userId,
+          change.create!,
+        );
+        return { action: change.action, name: change.name, ...created };
+      }
+    }
+  }
+
+  private async buildPlan(
+    userId: string,
+    environmentId: string,
+    input: unknown,
+  ): Promise<ManifestPlan> {
+    const environment = await this.environmentsService.getEnvironment(
+      userId,
+      environmentId,
+    );
+
+    if (environment.status !== EnvironmentStatus.ACTIVE) {
+      throw new BadRequestException(
+        'Environment must be in ACTIVE status to apply a manifest',
+      );
+    }
+
+    const manifest = this.parseManifest(input);
+
+    if (manifest.public === false && environment.isPublic) {
+      throw new BadRequestException(
+        'A public environment cannot be made private',
+      );
+    }
+
+    const deployments = await this.prisma.deployment.findMany({
+      where: { environmentId },
+      orderBy: { createdAt: 'asc' },
+    });
+    const byName = new Map(
+      deployments
+        .filter((deployment) => deployment.name)
+        .map((deployment) => [deployment.name!, deployment]),
+    );
+    const changes: PlannedChange[] = [];
+
+    for (const entry of manifest.deployments) {
+      const existing = byName.get(entry.name);
+
+      if (existing?.gitUrl) {
+        throw new BadRequestException(
+          `Deployment ${entry.name} is built from Git and cannot be managed by a manifest`,
+        );
+      }
+
+      if (!existing) {
+        const create = this.toCreateDto(environment.id, entry);
+        const target = await this.deploymentsService.previewDeployment(
+          environment,
+          create,
+        );
+        changes.push({
+          action: 'create',
+          name: entry.name,
+          deployment: null,
+          create,
+          update: null,
+          target,
+          virtualHost: create.virtualHost ?? null,
+          preserveVolumes: false,
+          changes: this.diff(null, this.withHost(target, create), []),
+        });
+        continue;
+      }
+
+      const virtualHost =
+        entry.virtualHost !== undefined
+          ? entry.virtualHost
+          : existing.virtualHost;
+      const virtualPort =
+        entry.virtualPort !== undefined
+          ? entry.virtualPort
+          : existing.virtualPort;
+
+      // Virtual hosts are set at creation, changing them recreates the
+      // deployment on its volumes
+      if (
+        virtualHost !== existing.virtualHost ||
+        virtualPort !== existing.virtualPort
+      ) {
+        const create = this.toCreateDto(environment.id, entry, existing);
+        const target = await this.deploymentsService.previewDeployment(
+          environment,
+          create,
+        );
+        changes.push({
+          action: 'replace',
+          name: entry.name,
+          deployment: existing,
+          create,
+          update: null,
+          target,
+          virtualHost: create.virtualHost ?? null,
+          preserveVolumes: false,
+          changes: this.diff(
+            this.withHost(this.currentConfig(existing), existing),
+            this.withHost(target, create),
+            existing.sensitiveEnvKeys,
+          ),
+        });
+        continue;
+      }
+
+      const update: UpdateDeploymentDto = {
+        image: entry.image,
+        tag: entry.tag,
+        replicas: entry.replicas,
+        ports: entry.ports,
+        envVars: entry.envVars,
+        volumes: entry.volumes,
+        secrets: entry.secrets,
+        resources: entry.resources,
+        healthCheck: entry.healthCheck,
+      };
+      const preview = await this.deploymentsService.previewUpdate(
+        userId,
+        existing.id,
+        update,
+      );
+      const updated = Object.keys(preview.changes).length > 0;
+
+      if (updated && existing.status !== DeploymentStatus.RUNNING) {
+        throw new BadRequestException(
+          `Deployment ${entry.name} must be in RUNNING status to update, it is ${existing.status}`,
+        );
+      }
+
+      changes.push({
+        action: updated ? 'update' : 'unchanged',
+        name: entry.name,
+        deployment: existing,
+        create: null,
+        update,
+        target: preview.target,
+        virtualHost: existing.virtualHost,
+        preserveVolumes: false,
+        changes: preview.changes,
+      });
+    }
+
+    // Only named deployments are managed by manifests, unnamed ones predate
+    // them or were created through the API
+    for (const deployment of deployments) {
+      if (
+        deployment.gitUrl ||
+        !deployment.name ||
+        manifest.deployments.some((entry) => entry.name === deployment.name)
+      ) {
+        continue;
+      }
+
+      changes.push({
+        action: 'delete',
+        name: deployment.name,
+        deployment,
+        create: null,
+        update: null,
+        target: null,
+        virtualHost: null,
+        preserveVolumes: false,
+        changes: {},
+      });
+    }
+
+    // Volumes still used once the manifest is applied survive deletions
+    const usedVolumes = new Set(
+      changes.flatMap((change) =>
+        (change.target?.volumes ?? []).map((volume) => volume.name),
+      ),
+    );
+    for (const change of changes) {
+      if (change.action === 'delete' || change.action === 'replace') {
+        change.preserveVolumes = (
+          (change.deployment!.volumes as CreateDeploymentDto['volumes']) ?? []
+        ).some(
+          (volume) =>
+            usedVolumes.has(`vol_${environment.name}_${volume.name}`) ||
+            usedVolumes.has(volume.name),
+        );
+      }
+    }
+
+    await this.assertDomainsAvailable(changes, deployments);
+    await this.assertWithinQuota(userId, environment.id, changes);
+
+    const makePublic = manifest.public === true && !environment.isPublic;
+
+    return {
+      environment,
+      makePublic,
+      changes,
+      fingerprint: this.fingerprint(environment.id, makePublic, changes),
+    };
+  }
+
+  private describePlan(plan: ManifestPlan) {
+    const summary: Record<ManifestAction, number> = {
+      create: 0,
+      update: 0,
+      replace: 0,
+      delete: 0,
+      unchanged: 0,
+    };
+    for (const change of plan.changes) {
+      summary[change.action]++;
+    }
+
+    return {
+      environmentId: plan.environment.id,
+      fingerprint: plan.fingerprint,
+      public: plan.makePublic ? { from: false, to: true } : undefined,
+      summary,
+      changes: plan.changes.map((change) => ({
+        action: change.action,
+        name: change.name,
+        deploymentId: change.deployment?.id ?? null,
+        changes: change.changes,
+      })),
+    };
+  }
+
+  private parseManifest(input: unknown): EnvironmentManifest {
+    let manifest = input;
+
+    if (typeof input === 'string') {
+      try {
+        // No timestamps, tags like 2024-01-01 stay strings
+        manifest = yaml.load(input, { schema: yaml.CORE_SCHEMA });
+      } catch (error) {
+        throw new BadRequestException(`Invalid manifest: ${error.message}`);
+      }
+    }
+
+    if (!this.isObject(manifest)) {
+      throw new BadRequestException(
+        'manifest must be a YAML or JSON document with a deployments list',
+      );
+    }
+
+    for (const key of Object.keys(manifest)) {
+      if (!MANIFEST_FIELDS.includes(key)) {
+        throw new BadRequestException(`Unknown manifest field: ${key}`);
+      }
+    }
+
+    if (manifest.public !== undefined && typeof manifest.public !== 'boolean') {
+      throw new BadRequestException('public must be a boolean');
+    }
+
+    if (!Array.isArray(manifest.deployments)) {
+      throw new BadRequestException('deployments must be a list');
+    }
+
+    const names = new Set<string>();
+    manifest.deployments.forEach((entry: unknown, index: number) => {
+      if (!this.isObject(entry)) {
+        throw new BadRequestException(
+          `deployments[${index}] must be an object`,
+        );
+      }
+
+      if (
+        typeof entry.name !== 'string' ||
+        !DEPLOYMENT_NAME_PATTERN.test(entry.name)
+      ) {
+        throw new BadRequestException(
+          `deployments[${index}].name must be lowercase letters, digits and hyphens (max 63)`,
+        );
+      }
+
+      for (const key of Object.keys(entry)) {
+        if (!DEPLOYMENT_FIELDS.includes(key)) {
+          throw new BadRequestException(
+            `Unknown field ${key} in deployment ${entry.name}`,
+          );
+        }
+      }
+
+      if (names.has(entry.name)) {
+        throw new BadRequestException(
+          `Deployment ${entry.name} is listed more than once`,
+        );
+      }
+      names.add(entry.name);
+
+      if (typeof entry.image !== 'string' || entry.image.length === 0) {
+        throw new BadRequestException(
+          `Deployment ${entry.name} needs an image`,
+        );
+      }
+
+      if (entry.tag !== undefined && typeof entry.tag !== 'string') {
+        throw new BadRequestException(
+          `tag of deployment ${entry.name} must be a string, quote numeric tags`,
+        );
+      }
+    });
+
+    return manifest as unknown as EnvironmentManifest;
+  }
+
+  /**
+   * Create request of a manifest entry. Replaced deployments pass their
+   * current row, whose values fill the fields the entry omits.
+   */
+  private toCreateDto(
+    environmentId: string,
+    entry: ManifestDeployment,
+    base?: Deployment,
+  ): CreateDeploymentDto {
+    const current = base ? this.currentConfig(base) : null;
+
+    return {
+      environmentId,
+      name: entry.name,
+      image: entry.image,
+      tag: entry.tag ?? current?.tag,
+      replicas: entry.replicas ?? current?.replicas,
+      ports: entry.ports ?? current?.ports ?? undefined,
+      envVars: entry.envVars ?? current?.envVars ?? undefined,
+      volumes: entry.volumes ?? current?.volumes ?? undefined,
+      secrets: entry.secrets ?? current?.secrets ?? undefined,
+      sensitiveEnvKeys: (base?.sensitiveEnvKeys ?? undefined) as
+        | string[]
+        | undefined,
+      resources: current?.resources
+        ? { ...current.resources, ...entry.resources }
+        : entry.resources,
+      healthCheck:
+        (entry.healthCheck !== undefined
+          ? entry.healthCheck
+          : current?.healthCheck) ?? undefined,
+      virtualHost:
+        (entry.virtualHost !== undefined
+          ? entry.virtualHost
+          : base?.virtualHost) ?? undefined,
+      virtualPort:
+        (entry.virtualPort !== undefined
+          ? entry.virtualPort
+          : base?.virtualPort) ?? undefined,
+    };
+  }
+
+  private currentConfig(deployment: Deployment): DeploymentConfig {
+    return {
+      image: deployment.image,
+      tag: deployment.tag,
+      replicas: deployment.replicas,
+      ports: deployment.ports as DeploymentConfig['ports'],
+      envVars: deployment.envVars as DeploymentConfig['envVars'],
+      volumes: deployment.volumes as DeploymentConfig['volumes'],
+      secrets: deployment.secrets as DeploymentConfig['secrets'],
+      resources: deployment.resources as DeploymentConfig['resources'],
+      healthCheck: deployment.healthCheck as DeploymentConfig['healthCheck'],
+    };
+  }
+
+  private withHost(
+    config: DeploymentConfig,
+    host: {
+      virtualHost?: string | null;
+      virtualPort?: number | null;
+    },
+  ): Record<string, unknown> {
+    return {
+      ...config,
+      virtualHost: host.virtualHost ?? null,
+      virtualPort: host.virtualPort ?? null,
+    };
+  }
+
+  /**
+   * Fields that differ, with sensitive env values masked like in update
+   * diffs. Creates are diffed against null.
+   */
+  private diff(
+    current: Record<string, unknown> | null,
+    target: Record<string, unknown>,
+    sensitiveEnvKeys: unknown,
+  ): Record<string, { from: unknown; to: unknown }> {
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+    for (const [key, value] of Object.entries(target)) {
+      const from = current?.[key] ?? null;
+      if (this.stableStringify(from) !== this.stableStringify(value)) {
+        changes[key] = { from, to: value ?? null };
+      }
+    }
+
+    if (changes.envVars) {
+      const patterns = compileEnvPatterns(
+        this.configService.get<string>(
+          'redaction.sensitiveEnvPatterns',
+          DEFAULT_SENSITIVE_ENV_PATTERNS,
+        ),
+      );
+      const keys = (sensitiveEnvKeys as string[] | null) ?? [];
+
+      changes.envVars = {
+        from: redactEnvVars(changes.envVars.from, patterns, keys),
+        to: redactEnvVars(changes.envVars.to, patterns, keys),
+      };
+    }
+
+    return changes;
+  }
+
+  /**
+   * Domains of the environment once applied must be distinct and not used by
+   * a running deployment elsewhere.
+   */
+  private async assertDomainsAvailable(
+    changes: PlannedChange[],
+    deployments: Deployment[],
+  ): Promise<void> {
+    const hosts = new Set<string>();
+
+    // Git and unnamed deployments keep their domain
+    const kept = deployments
+      .filter(
+        (deployment) =>
+          (deployment.gitUrl || !deployment.name) && deployment.virtualHost,
+      )
+      .map((deployment) => deployment.virtualHost!);
+
+    for (const host of [
+      ...kept,
+      ...changes
+        .filter((change) => change.action !== 'delete')
+        .map((change) => change.virtualHost),
+    ]) {
+      if (!host) {
+        continue;
+      }
+      if (hosts.has(host)) {
+        throw new BadRequestException(
+          `Domain ${host} is used by more than one deployment`,
+        );
+      }
+      hosts.add(host);
+    }
+
+    const added = changes
+      .filter(
+        (change) => change.action === 'create' || change.action === 'replace',
+      )
+      .map((change) => change.virtualHost)
+      .filter((host): host is string => host !== null);
+
+    if (added.length === 0) {
+      return;
+    }
+
+    const taken = await this.prisma.deployment.findFirst({
+      where: {
+        virtualHost: { in: added },
+        status: DeploymentStatus.RUNNING,
+        id: {
+          notIn: changes
+            .filter((change) => change.deployment)
+            .map((change) => change.deployment!.id),
+        },
+      },
+    });
+
+    if (taken) {
+      throw new ConflictException(
+        `Domain ${taken.virtualHost} is already in use by a running deployment`,
+      );
+    }
+  }
+
+  private async assertWithinQuota(
+    userId: string,
+    environmentId: string,
+    changes: PlannedChange[],
+  ): Promise<void> {
+    const requests: DeploymentQuotaRequest[] = [];
+    const removedIds: string[] = [];
+
+    for (const change of changes) {
+      if (change.action === 'delete' || change.action === 'replace') {
+        removedIds.push(change.deployment!.id);
+      }
+      if (change.action === 'unchanged' || !change.target) {
+        continue;
+      }
+
+      requests.push({
+        environmentId,
+        deploymentId:
+          change.action === 'update' ? change.deployment!.id : undefined,
+        replicas: change.target.replicas,
+        resources: change.target.resources,
+        volumes: change.target.volumes ?? null,
+      });
+    }
+
+    if (requests.length > 0 || removedIds.length > 0) {
+      await this.quotasService.assertDeploymentsWithinQuota(
+        userId,
+        requests,
+        removedIds,
+      );
+    }
+  }
+
+  // Identifies a plan, including unmasked values and the current versions
+  private fingerprint(
+    environmentId: string,
+    makePublic: boolean,
+    changes: PlannedChange[],
+  ): string {
+    return crypto
+      .createHash('sha256')
+      .update(
+        this.stableStringify({
+          environmentId,
+          makePublic,
+          changes: changes.map((change) => ({
+            action: change.action,
+            name: change.name,
+            deploymentId: change.deployment?.id,
+            version: change.deployment?.currentVersion,
+            target: change.target,
+            virtualHost: change.virtualHost,
+          })),
+        }),
+      )
+      .digest('hex')
+      .substring(0, 16);
+  }
+
+  private stableStringify(value: unknown): string {
+    return JSON.stringify(value ?? null, (_key, val: unknown) =>
+      val && typeof val === 'object' && !Array.isArray(val)
+        ? Object.fromEntries(
+            Object.entries(val).sort(([a], [b]) => a.localeCompare(b)),
+          )
+        : val,
+    );
+  }
+
+  private isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
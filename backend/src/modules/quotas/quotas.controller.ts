@@ -0,0 +1,66 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { QuotasService } from './quotas.service';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { ScopesGuard } from '../../common/guards/scopes.guard';
+import { RequireScopes } from '../../common/decorators/require-scopes.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import type { User } from '@prisma/client';
+import { ApiKeyScope } from '@prisma/client';
+
+@Controller('quota')
+@UseGuards(ApiKeyGuard, ScopesGuard)
+@ApiTags('Quota')
+@ApiSecurity('api-key')
+export class QuotasController {
+  constructor(private readonly quotasService: QuotasService) {}
+
+  @Get()
+  @RequireScopes(ApiKeyScope.ENVIRONMENTS_READ)
+  @ApiOperation({
+    summary: 'Get quota usage',
+    description:
+      'Show the resource limits of the current user and how much of each is in use. ' +
+      'Replicas, CPU and memory count deployments that are not STOPPED or FAILED, ' +
+      'CPU and memory as replicas x limit of each deployment. ' +
+      'Creating environments or deployments, or updating deployments, beyond a limit fails with 403. ' +
+      '\n\n**Required scope**: `ENVIRONMENTS_READ`',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Limits and current usage',
+    schema: {
+      example: {
+        environments: { used: 2, limit: 5 },
+        deployments: { used: 3, limit: 20 },
+        replicas: { used: 4, limit: 20 },
+        cpu: { used: 2, limit: 8 },
+        memory: { used: 2048, limit: 16384 },
+        volumes: { used: 1, limit: 20 },
+        perEnvironment: [
+          {
+            environmentId: 'clx123abc456def',
+            name: 'my-app-prod',
+            deployments: { used: 2, limit: 10 },
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Missing ENVIRONMENTS_READ scope',
+  })
+  async getQuota(@CurrentUser() user: User) {
+    return this.quotasService.getQuota(user.id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { QuotasService } from './quotas.service';
+import { QuotasController } from './quotas.controller';
+import { DatabaseModule } from '../../core/database/database.module';
+
+@Module({
+  imports: [DatabaseModule],
+  providers: [QuotasService],
+  controllers: [QuotasController],
+  exports: [QuotasService],
+})
+export class QuotasModule {}
@@ -0,0 +1,391 @@
+import { Injectable, Logger, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../core/database/prisma.service';
+import { DeploymentStatus, EnvironmentStatus } from '@prisma/client';
+import type { DeploymentResources } from '../deployments/deployments.service';
+
+export interface QuotaLimits {
+  environments: number;
+  deployments: number;
+  deploymentsPerEnvironment: number;
+  replicas: number;
+  cpu: number; // CPUs
+  memory: number; // MiB
+  volumes: number;
+}
+
+// What a created or updated deployment will use once applied
+export interface DeploymentQuotaRequest {
+  environmentId: string;
+  deploymentId?: string; // Set on updates, its current usage is replaced
+  replicas: number;
+  resources: DeploymentResources | null;
+  volumes: Array<{ name: string }> | null;
+}
+
+interface QuotaUsage {
+  environments: Array<{ id: string; name: string; deployments: number }>;
+  deployments: number;
+  replicas: number;
+  cpu: number;
+  memory: number;
+  volumes: number;
+}
+
+// Usage of one deployment, null resources are counted at the platform defaults
+interface DeploymentUsage {
+  id: string;
+  environmentId: string;
+  environmentName: string;
+  status: DeploymentStatus;
+  replicas: number;
+  resources: DeploymentResources | null;
+  volumes: Array<{ name: string }> | null;
+}
+
+// Stopped and failed deployments keep their slot but run no replicas
+const IDLE_STATUSES: DeploymentStatus[] = [
+  DeploymentStatus.STOPPED,
+  DeploymentStatus.FAILED,
+];
+
+@Injectable()
+export class QuotasService {
+  private readonly logger = new Logger(QuotasService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Limits of a user with current usage, overall and per environment.
+   */
+  async getQuota(userId: string) {
+    const limits = await this.getLimits(userId);
+    const usage = this.summarize(await this.getDeploymentUsage(userId));
+    const environments = await this.getEnvironments(userId);
+
+    return {
+      environments: {
+        used: environments.length,
+        limit: limits.environments,
+      },
+      deployments: { used: usage.deployments, limit: limits.deployments },
+      replicas: { used: usage.replicas, limit: limits.replicas },
+      cpu: { used: this.round(usage.cpu), limit: limits.cpu },
+      memory: { used: usage.memory, limit: limits.memory },
+      volumes: { used: usage.volumes, limit: limits.volumes },
+      perEnvironment: environments.map((environment) => ({
+        environmentId: environment.id,
+        name: environment.name,
+        deployments: {
+          used:
+            usage.environments.find((entry) => entry.id === environment.id)
+              ?.deployments ?? 0,
+          limit: limits.deploymentsPerEnvironment,
+        },
+      })),
+    };
+  }
+
+  async assertCanCreateEnvironment(userId: string): Promise<void> {
+    const limits = await this.getLimits(userId);
+    const environments = await this.getEnvironments(userId);
+
+    if (environments.length >= limits.environments) {
+      this.reject(
+        userId,
+        `${environments.length} of ${limits.environments} environments in use`,
+      );
+    }
+  }
+
+  /**
+   * Check the totals a user would reach with a new or updated deployment
+   * against their limits.
+   */
+  async assertDeploymentWithinQuota(
+    userId: string,
+    request: DeploymentQuotaRequest,
+  ): Promise<void> {
+    return this.assertDeploymentsWithinQuota(userId, [request]);
+  }
+
+  /**
+   * Same check for several deployments created, updated or removed at once,
+   * e.g. by a manifest.
+   */
+  async assertDeploymentsWithinQuota(
+    userId: string,
+    requests: DeploymentQuotaRequest[],
+    removedIds: string[] = [],
+  ): Promise<void> {
+    const limits = await this.getLimits(userId);
+    const current = await this.getDeploymentUsage(userId);
+    const replaced = new Set([
+      ...removedIds,
+      ...requests.map((request) => request.deploymentId),
+    ]);
+    const others = current.filter((deployment) => !replaced.has(deployment.id));
+
+    // The environment name only matters to match prefixed volume names
+    const environmentNames = new Map<string, string>();
+    for (const { environmentId } of requests) {
+      if (environmentNames.has(environmentId)) {
+        continue;
+      }
+      environmentNames.set(
+        environmentId,
+        current.find((entry) => entry.environmentId === environmentId)
+          ?.environmentName ??
+          (
+            await this.prisma.environment.findUnique({
+              where: { id: environmentId },
+              select: { name: true },
+            })
+          )?.name ??
+          '',
+      );
+    }
+
+    const projected = this.summarize([
+      ...others,
+      ...requests.map((request, index) => ({
+        id: request.deploymentId ?? `new-${index}`,
+        environmentId: request.environmentId,
+        environmentName: environmentNames.get(request.environmentId) ?? '',
+        status: DeploymentStatus.PENDING,
+        replicas: request.replicas,
+        resources: request.resources,
+        volumes: request.volumes,
+      })),
+    ]);
+
+    const created = requests.filter((request) => !request.deploymentId);
+    if (created.length > 0) {
+      if (projected.deployments > limits.deployments) {
+        this.reject(
+          userId,
+          `${projected.deployments - created.length} of ${limits.deployments} deployments in use`,
+        );
+      }
+      for (const environmentId of new Set(
+        created.map((request) => request.environmentId),
+      )) {
+        const inEnvironment =
+          projected.environments.find((entry) => entry.id === environmentId)
+            ?.deployments ?? 0;
+        const createdInEnvironment = created.filter(
+          (request) => request.environmentId === environmentId,
+        ).length;
+
+        if (inEnvironment > limits.deploymentsPerEnvironment) {
+          this.reject(
+            userId,
+            `${inEnvironment - createdInEnvironment} of ${limits.deploymentsPerEnvironment} deployments in use in this environment`,
+          );
+        }
+      }
+    }
+
+    if (projected.replicas > limits.replicas) {
+      this.reject(
+        userId,
+        `${projected.replicas} replicas requested in total, limit is ${limits.replicas}`,
+      );
+    }
+    if (this.round(projected.cpu) > limits.cpu) {
+      this.reject(
+        userId,
+        `${this.round(projected.cpu)} CPUs requested in total, limit is ${limits.cpu}`,
+      );
+    }
+    if (projected.memory > limits.memory) {
+      this.reject(
+        userId,
+        `${projected.memory} MiB of memory requested in total, limit is ${limits.memory} MiB`,
+      );
+    }
+    if (projected.volumes > limits.volumes) {
+      this.reject(
+        userId,
+        `${projected.volumes} volumes requested in total, limit is ${limits.volumes}`,
+      );
+    }
+  }
+
+  /**
+   * Most replicas a deployment can run before its owner goes over the
+   * replica, CPU or memory limit, given what their other deployments use.
+   */
+  async getMaxReplicas(userId: string, deploymentId: string): Promise<number> {
+    const limits = await this.getLimits(userId);
+    const current = await this.getDeploymentUsage(userId);
+    const deployment = current.find((entry) => entry.id === deploymentId);
+
+    if (!deployment) {
+      return 0;
+    }
+
+    const others = this.summarize(
+      current.filter((entry) => entry.id !== deploymentId),
+    );
+    const cpu =
+      deployment.resources?.cpuLimit ??
+      this.configService.get<number>('resources.defaultCpuLimit', 0.5);
+    const memory =
+      deployment.resources?.memoryLimit ??
+      this.configService.get<number>('resources.defaultMemoryLimit', 512);
+
+    return Math.max(
+      0,
+      Math.min(
+        limits.replicas - others.replicas,
+        Math.floor(this.round((limits.cpu - others.cpu) / cpu)),
+        Math.floor((limits.memory - others.memory) / memory),
+      ),
+    );
+  }
+
+  private async getLimits(userId: string): Promise<QuotaLimits> {
+    const override = await this.prisma.userQuota.findUnique({
+      where: { userId },
+    });
+
+    return {
+      environments:
+        override?.maxEnvironments ??
+        this.configService.get<number>('quota.maxEnvironments', 5),
+      deployments:
+        override?.maxDeployments ??
+        this.configService.get<number>('quota.maxDeployments', 20),
+      deploymentsPerEnvironment:
+        override?.maxDeploymentsPerEnvironment ??
+        this.configService.get<number>(
+          'quota.maxDeploymentsPerEnvironment',
+          10,
+        ),
+      replicas:
+        override?.maxReplicas ??
+        this.configService.get<number>('quota.maxReplicas', 20),
+      cpu:
+        override?.maxCpu ?? this.configService.get<number>('quota.maxCpu', 8),
+      memory:
+        override?.maxMemory ??
+        this.configService.get<number>('quota.maxMemory', 16384),
+      volumes:
+        override?.maxVolumes ??
+        this.configService.get<number>('quota.maxVolumes', 20),
+    };
+  }
+
+  private async getEnvironments(userId: string) {
+    return this.prisma.environment.findMany({
+      where: {
+        userId,
+        status: { not: EnvironmentStatus.DELETED },
+      },
+      select: { id: true, name: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private async getDeploymentUsage(userId: string): Promise<DeploymentUsage[]> {
+    const deployments = await this.prisma.deployment.findMany({
+      where: {
+        environment: {
+          userId,
+          status: { not: EnvironmentStatus.DELETED },
+        },
+      },
+      select: {
+        id: true,
+        environmentId: true,
+        status: true,
+        replicas: true,
+        resources: true,
+        volumes: true,
+        environment: { select: { name: true } },
+      },
+    });
+
+    return deployments.map((deployment) => ({
+      id: deployment.id,
+      environmentId: deployment.environmentId,
+      environmentName: deployment.environment.name,
+      status: deployment.status,
+      replicas: deployment.replicas,
+      resources: deployment.resources as DeploymentResources | null,
+      volumes: deployment.volumes as DeploymentUsage['volumes'],
+    }));
+  }
+
+  private summarize(deployments: DeploymentUsage[]): QuotaUsage {
+    const defaultCpu = this.configService.get<number>(
+      'resources.defaultCpuLimit',
+      0.5,
+    );
+    const defaultMemory = this.configService.get<number>(
+      'resources.defaultMemoryLimit',
+      512,
+    );
+    const environments = new Map<
+      string,
+      { id: string; name: string; deployments: number }
+    >();
+    const volumes = new Set<string>();
+    const usage: QuotaUsage = {
+      environments: [],
+      deployments: deployments.length,
+      replicas: 0,
+      cpu: 0,
+      memory: 0,
+      volumes: 0,
+    };
+
+    for (const deployment of deployments) {
+      const environment = environments.get(deployment.environmentId) ?? {
+        id: deployment.environmentId,
+        name: deployment.environmentName,
+        deployments: 0,
+      };
+      environment.deployments++;
+      environments.set(environment.id, environment);
+
+      // Volumes are stored either as given or with the environment prefix
+      const prefix = `vol_${deployment.environmentName}_`;
+      for (const volume of deployment.volumes ?? []) {
+        const name = volume.name.startsWith(prefix)
+          ? volume.name.slice(prefix.length)
+          : volume.name;
+        volumes.add(`${deployment.environmentId}/${name}`);
+      }
+
+      if (IDLE_STATUSES.includes(deployment.status)) {
+        continue;
+      }
+
+      usage.replicas += deployment.replicas;
+      usage.cpu +=
+        deployment.replicas * (deployment.resources?.cpuLimit ?? defaultCpu);
+      usage.memory +=
+        deployment.replicas *
+        (deployment.resources?.memoryLimit ?? defaultMemory);
+    }
+
+    usage.environments = [...environments.values()];
+    usage.volumes = volumes.size;
+    return usage;
+  }
+
+  private reject(userId: string, detail: string): never {
+    this.logger.warn(`Quota exceeded for user ${userId}: ${detail}`);
+    throw new ForbiddenException(`Quota exceeded: ${detail}`);
+  }
+
+  // Avoids float noise such as 1.5000000000000002 CPUs
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { RegistryCredentialsService } from './registry-credentials.service';
+import { RegistryCredentialsController } from './registry-credentials.controller';
+import { DatabaseModule } from '../../core/database/database.module';
+
+@Module({
+  imports: [DatabaseModule],
+  providers: [RegistryCredentialsService],
+  controllers: [RegistryCredentialsController],
+  exports: [RegistryCredentialsService],
+})
+export class RegistryCredentialsModule {}
@@ -0,0 +1,218 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../core/database/prisma.service';
+import { EncryptionService } from '../../core/encryption/encryption.service';
+import type { RegistryAuth } from '../../integrations/docker/container.service';
+import type { RegistryCredential } from '@prisma/client';
+
+export interface CreateRegistryCredentialDto {
+  registry: string; // e.g. "ghcr.io", "registry.example.com:5000", "docker.io"
+  username: string;
+  password: string; // Password or access token
+}
+
+export interface UpdateRegistryCredentialDto {
+  username?: string;
+  password?: string;
+}
+
+const DOCKER_HUB = 'docker.io';
+const DOCKER_HUB_ALIASES = ['index.docker.io', 'registry-1.docker.io'];
+// Docker Hub credentials are keyed by the legacy index address
+const DOCKER_HUB_SERVER_ADDRESS = 'https://index.docker.io/v1/';
+
+@Injectable()
+export class RegistryCredentialsService {
+  private readonly logger = new Logger(RegistryCredentialsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly encryptionService: EncryptionService,
+  ) {}
+
+  async createCredential(userId: string, dto: CreateRegistryCredentialDto) {
+    const registry = this.normalizeRegistry(dto.registry);
+    this.validateUsername(dto.username);
+    this.validatePassword(dto.password);
+
+    const existing = await this.prisma.registryCredential.findUnique({
+      where: { userId_registry: { userId, registry } },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Credentials for registry ${registry} already exist`,
+      );
+    }
+
+    const credential = await this.prisma.registryCredential.create({
+      data: {
+        userId,
+        registry,
+        username: dto.username,
+        encryptedPassword: this.encryptionService.encrypt(dto.password),
+      },
+      omit: { encryptedPassword: true },
+    });
+
+    this.logger.log(
+      `Registry credential for ${registry} created for user ${userId}`,
+    );
+
+    return credential;
+  }
+
+  async listCredentials(userId: string) {
+    return this.prisma.registryCredential.findMany({
+      where: { userId },
+      orderBy: { registry: 'asc' },
+      omit: { encryptedPassword: true },
+    });
+  }
+
+  /**
+   * Replace the username or password of a credential, e.g. to rotate
+   * short-lived registry tokens.
+   */
+  async updateCredential(
+    userId: string,
+    credentialId: string,
+    dto: UpdateRegistryCredentialDto,
+  ) {
+    const credential = await this.findCredential(userId, credentialId);
+
+    if (dto.username === undefined && dto.password === undefined) {
+      throw new BadRequestException('username or password is required');
+    }
+
+    if (dto.username !== undefined) {
+      this.validateUsername(dto.username);
+    }
+    if (dto.password !== undefined) {
+      this.validatePassword(dto.password);
+    }
+
+    const updated = await this.prisma.registryCredential.update({
+      where: { id: credential.id },
+      data: {
+        username: dto.username,
+        encryptedPassword:
+          dto.password !== undefined
+            ? this.encryptionService.encrypt(dto.password)
+            : undefined,
+      },
+      omit: { encryptedPassword: true },
+    });
+
+    this.logger.log(`Registry credential for ${credential.registry} updated`);
+
+    return updated;
+  }
+
+  async deleteCredential(userId: string, credentialId: string) {
+    const credential = await this.findCredential(userId, credentialId);
+
+    await this.prisma.registryCredential.delete({
+      where: { id: credential.id },
+    });
+
+    this.logger.log(`Registry credential for ${credential.registry} deleted`);
+
+    return { message: 'Registry credential deleted successfully' };
+  }
+
+  /**
+   * Credentials of the user for the registry an image is pulled from, or
+   * undefined when none are stored (public images).
+   */
+  async getRegistryAuth(
+    userId: string,
+    image: string,
+  ): Promise<RegistryAuth | undefined> {
+    const registry = this.getImageRegistry(image);
+
+    const credential = await this.prisma.registryCredential.findUnique({
+      where: { userId_registry: { userId, registry } },
+    });
+
+    if (!credential) {
+      return undefined;
+    }
+
+    return {
+      username: credential.username,
+      password: this.encryptionService.decrypt(credential.encryptedPassword),
+      serveraddress:
+        registry === DOCKER_HUB ? DOCKER_HUB_SERVER_ADDRESS : registry,
+    };
+  }
+
+  private async findCredential(
+    userId: string,
+    credentialId: string,
+  ): Promise<RegistryCredential> {
+    const credential = await this.prisma.registryCredential.findFirst({
+      where: { id: credentialId, userId },
+    });
+
+    if (!credential) {
+      throw new NotFoundException('Registry credential not found');
+    }
+
+    return credential;
+  }
+
+  /**
+   * Registry hostname of an image reference, following Docker's rules: the
+   * first path component is a registry when it contains a dot or a port or is
+   * "localhost", anything else is on Docker Hub.
+   */
+  private getImageRegistry(image: string): string {
+    const slash = image.indexOf('/');
+    const first = slash === -1 ? '' : image.slice(0, slash);
+
+    if (first.includes('.') || first.includes(':') || first === 'localhost') {
+      return this.normalizeRegistry(first);
+    }
+
+    return DOCKER_HUB;
+  }
+
+  private normalizeRegistry(value: string): string {
+    if (!value || typeof value !== 'string') {
+      throw new BadRequestException('registry is required');
+    }
+
+    // Accept addresses copied from docker login, e.g. "https://ghcr.io/"
+    const registry = value
+      .trim()
+      .toLowerCase()
+      .replace(/^https?:\/\//, '')
+      .replace(/\/.*$/, '');
+
+    if (!/^[a-z0-9.-]+(:\d{1,5})?$/.test(registry)) {
+      throw new BadRequestException(
+        'registry must be a hostname with an optional port, e.g. "ghcr.io"',
+      );
+    }
+
+    return DOCKER_HUB_ALIASES.includes(registry) ? DOCKER_HUB : registry;
+  }
+
+  private validateUsername(username: string): void {
+    if (!username || typeof username !== 'string') {
+      throw new BadRequestException('username is required');
+    }
+  }
+
+  private validatePassword(password: string): void {
+    if (!password || typeof password !== 'string') {
+      throw new BadRequestException('password is required');
+    }
+  }
+}
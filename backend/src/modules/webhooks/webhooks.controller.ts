@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Headers,
+  Req,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import { Throttle } from '@nestjs/throttler';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { WebhooksService } from './webhooks.service';
+import type { WebhookHeaders } from './webhooks.service';
+
+@Controller('webhooks')
+@ApiTags('Webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post('git/:deploymentId')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Throttle({ default: { limit: 30, ttl: 60000 } }) // 30 pushes per minute
+  @ApiOperation({
+    summary: 'Receive Git push webhook',
+    description:
+      'Inbound push webhook for Git deployments with autoRebuild enabled. ' +
+      'Accepts GitHub, GitLab and Gitea push payloads. ' +
+      'Requests are authenticated with the deployment webhook secret instead of an API key: ' +
+      'GitHub and Gitea sign the body with it (HMAC SHA-256), GitLab sends it as secret token. ' +
+      'A push to the deployment branch rebuilds and redeploys it; pushes received while a rebuild is queued or running ' +
+      'are coalesced into one follow-up rebuild. ' +
+      'Enable the webhook with POST /deployments/:id/webhook to get the URL and secret.',
+  })
+  @ApiParam({
+    name: 'deploymentId',
+    description: 'Deployment ID',
+    example: 'clx456def789ghi',
+  })
+  @ApiHeader({
+    name: 'X-Hub-Signature-256',
+    required: false,
+    description: 'GitHub signature: sha256=<HMAC of the body>',
+  })
+  @ApiHeader({
+    name: 'X-Gitea-Signature',
+    required: false,
+    description: 'Gitea signature: HMAC SHA-256 of the body (hex)',
+  })
+  @ApiHeader({
+    name: 'X-Gitlab-Token',
+    required: false,
+    description: 'GitLab secret token',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Push accepted',
+    schema: {
+      example: {
+        status: 'queued',
+        deploymentId: 'clx456def789ghi',
+        branch: 'main',
+        commitSha: '9fceb02d0ae598e95dc970b74767f19372d61af8',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid payload',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid signature',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Deployment not found or webhook not enabled',
+  })
+  async handleGitPush(
+    @Param('deploymentId') deploymentId: string,
+    @Headers() headers: WebhookHeaders,
+    @Req() req: RawBodyRequest<Request>,
+  ) {
+    return this.webhooksService.handleGitPush(
+      deploymentId,
+      headers,
+      req.rawBody,
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { WebhooksController } from './webhooks.controller';
+import { DeploymentsModule } from '../deployments/deployments.module';
+
+@Module({
+  imports: [DeploymentsModule],
+  providers: [WebhooksService],
+  controllers: [WebhooksController],
+})
+export class WebhooksModule {}
@@ -0,0 +1,166 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as crypto from 'crypto';
+import { PrismaService } from '../../core/database/prisma.service';
+import { DeploymentsService } from '../deployments/deployments.service';
+
+// Push event fields shared by GitHub, GitLab and Gitea payloads
+interface PushPayload {
+  ref?: string;
+  after?: string;
+  checkout_sha?: string | null; // GitLab
+  deleted?: boolean; // GitHub, Gitea
+}
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+const ZERO_SHA = /^0+$/;
+
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly deploymentsService: DeploymentsService,
+  ) {}
+
+  /**
+   * Handle a push webhook of a Git deployment. The request must be signed with
+   * the deployment webhook secret (GitHub and Gitea) or carry it as token
+   * (GitLab). Pushes to the deployment branch trigger a rebuild.
+   */
+  async handleGitPush(
+    deploymentId: string,
+    headers: WebhookHeaders,
+    rawBody: Buffer | undefined,
+  ) {
+    const deployment = await this.prisma.deployment.findUnique({
+      where: { id: deploymentId },
+    });
+
+    if (!deployment?.webhookSecret) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    if (!rawBody) {
+      throw new BadRequestException('Missing request body');
+    }
+
+    const provider = this.verifyRequest(
+      deployment.webhookSecret,
+      headers,
+      rawBody,
+    );
+
+    const event =
+      this.getHeader(headers, 'x-github-event') ??
+      this.getHeader(headers, 'x-gitea-event') ??
+      this.getHeader(headers, 'x-gitlab-event');
+
+    if (event !== 'push' && event !== 'Push Hook') {
+      return { status: 'ignored', reason: `Unsupported event: ${event}` };
+    }
+
+    let payload: PushPayload;
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new BadRequestException('Invalid JSON payload');
+    }
+
+    const branch = payload.ref?.startsWith('refs/heads/')
+      ? payload.ref.slice('refs/heads/'.length)
+      : undefined;
+    const commitSha = payload.checkout_sha ?? payload.after;
+
+    if (!branch) {
+      return { status: 'ignored', reason: 'Not a branch push' };
+    }
+
+    if (branch !== deployment.gitBranch) {
+      return {
+        status: 'ignored',
+        reason: `Push to ${branch}, deployment tracks ${deployment.gitBranch}`,
+      };
+    }
+
+    if (payload.deleted || !commitSha || ZERO_SHA.test(commitSha)) {
+      return { status: 'ignored', reason: 'Branch was deleted' };
+    }
+
+    if (!deployment.autoRebuild) {
+      return { status: 'ignored', reason: 'Auto rebuild is disabled' };
+    }
+
+    this.logger.log(
+      `${provider} push to ${branch} (${commitSha}) for deployment ${deployment.id}`,
+    );
+
+    const queued = await this.deploymentsService.requestRebuild(deployment);
+
+    return {
+      status: queued ? 'queued' : 'debounced',
+      deploymentId: deployment.id,
+      branch,
+      commitSha,
+    };
+  }
+
+  private verifyRequest(
+    secret: string,
+    headers: WebhookHeaders,
+    rawBody: Buffer,
+  ): string {
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(rawBody)
+      .digest('hex');
+
+    const githubSignature = this.getHeader(headers, 'x-hub-signature-256');
+    if (githubSignature) {
+      if (this.safeEqual(githubSignature, `sha256=${expected}`)) {
+        return 'GitHub';
+      }
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    const giteaSignature = this.getHeader(headers, 'x-gitea-signature');
+    if (giteaSignature) {
+      if (this.safeEqual(giteaSignature, expected)) {
+        return 'Gitea';
+      }
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    // GitLab sends the configured secret token as is
+    const gitlabToken = this.getHeader(headers, 'x-gitlab-token');
+    if (gitlabToken) {
+      if (this.safeEqual(gitlabToken, secret)) {
+        return 'GitLab';
+      }
+      throw new UnauthorizedException('Invalid webhook token');
+    }
+
+    throw new UnauthorizedException('Missing webhook signature');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return (
+      bufferA.length === bufferB.length &&
+      crypto.timingSafeEqual(bufferA, bufferB)
+    );
+  }
+
+  private getHeader(headers: WebhookHeaders, name: string): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+}
@@ -0,0 +1,40 @@
+#!/bin/bash
+# Roll a deployment back to a previous version
+
+# Load API key from .env file
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+[ -f "${SCRIPT_DIR}/.env" ] && source "${SCRIPT_DIR}/.env"
+
+# Check if API key is set
+if [ -z "$API_KEY" ]; then
+  echo "❌ Error: API_KEY not set"
+  echo "Create tests/.env file with your API key"
+  exit 1
+fi
+
+DEPLOYMENT_ID="${DEPLOYMENT_ID:-}"
+TO_VERSION="${TO_VERSION:-}"
+
+if [ -z "$DEPLOYMENT_ID" ]; then
+  echo "❌ Error: DEPLOYMENT_ID is required"
+  echo "Usage: DEPLOYMENT_ID=<deployment-id> [TO_VERSION=<version>] ./10-rollback-deployment.sh"
+  exit 1
+fi
+
+if [ -n "$TO_VERSION" ]; then
+  BODY="{\"toVersion\": ${TO_VERSION}}"
+else
+  BODY="{}"
+fi
+
+echo "=== Rolling back deployment ${DEPLOYMENT_ID} ==="
+curl -s -X POST "http://localhost:3030/deployments/${DEPLOYMENT_ID}/rollback" \
+  -H "X-API-Key: ${API_KEY}" \
+  -H "Content-Type: application/json" \
+  -d "${BODY}" | python3 -m json.tool
+
+echo ""
+echo "=== Version History ==="
+sleep 3
+curl -s "http://localhost:3030/deployments/${DEPLOYMENT_ID}/versions" \
+  -H "X-API-Key: ${API_KEY}" | python3 -m json.tool
@@ -0,0 +1,49 @@
+#!/bin/bash
+# Enable the push webhook of a Git deployment and send a signed GitHub push
+
+# Load API key from .env file
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+[ -f "${SCRIPT_DIR}/.env" ] && source "${SCRIPT_DIR}/.env"
+
+# Check if API key is set
+if [ -z "$API_KEY" ]; then
+  echo "❌ Error: API_KEY not set"
+  echo "Create tests/.env file with your API key"
+  exit 1
+fi
+
+DEPLOYMENT_ID="${DEPLOYMENT_ID:-}"
+BRANCH="${BRANCH:-main}"
+
+if [ -z "$DEPLOYMENT_ID" ]; then
+  echo "❌ Error: DEPLOYMENT_ID is required"
+  echo "Usage: DEPLOYMENT_ID=<deployment-id> [BRANCH=<branch>] ./11-git-webhook.sh"
+  exit 1
+fi
+
+echo "=== Enabling webhook for deployment ${DEPLOYMENT_ID} ==="
+RESPONSE=$(curl -s -X POST "http://localhost:3030/deployments/${DEPLOYMENT_ID}/webhook" \
+  -H "X-API-Key: ${API_KEY}")
+echo "${RESPONSE}" | python3 -m json.tool
+
+SECRET=$(echo "${RESPONSE}" | python3 -c "import sys, json; print(json.load(sys.stdin).get('secret', ''))")
+
+if [ -z "$SECRET" ]; then
+  echo "❌ Error: webhook was not enabled"
+  exit 1
+fi
+
+PAYLOAD="{\"ref\": \"refs/heads/${BRANCH}\", \"after\": \"$(openssl rand -hex 20)\"}"
+SIGNATURE=$(printf '%s' "${PAYLOAD}" | openssl dgst -sha256 -hmac "${SECRET}" | sed 's/^.* //')
+
+echo ""
+echo "=== Sending signed push to ${BRANCH} ==="
+curl -s -X POST "http://localhost:3030/webhooks/git/${DEPLOYMENT_ID}" \
+  -H "Content-Type: application/json" \
+  -H "X-GitHub-Event: push" \
+  -H "X-Hub-Signature-256: sha256=${SIGNATURE}" \
+  -d "${PAYLOAD}" | python3 -m json.tool
+
+echo ""
+echo "Follow the rebuild:"
+echo "  curl -s http://localhost:3030/deployments/${DEPLOYMENT_ID}/builds -H \"X-API-Key: \$API_KEY\""
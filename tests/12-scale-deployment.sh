@@ -0,0 +1,34 @@
+#!/bin/bash
+# Scale a deployment and follow its tasks until the replicas converge
+
+# Load API key from .env file
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+[ -f "${SCRIPT_DIR}/.env" ] && source "${SCRIPT_DIR}/.env"
+
+# Check if API key is set
+if [ -z "$API_KEY" ]; then
+  echo "❌ Error: API_KEY not set"
+  echo "Create tests/.env file with your API key"
+  exit 1
+fi
+
+DEPLOYMENT_ID="${DEPLOYMENT_ID:-}"
+REPLICAS="${REPLICAS:-2}"
+
+if [ -z "$DEPLOYMENT_ID" ]; then
+  echo "❌ Error: DEPLOYMENT_ID is required"
+  echo "Usage: DEPLOYMENT_ID=<deployment-id> [REPLICAS=<n>] ./12-scale-deployment.sh"
+  exit 1
+fi
+
+echo "=== Scaling deployment ${DEPLOYMENT_ID} to ${REPLICAS} replicas ==="
+curl -s -X POST "http://localhost:3030/deployments/${DEPLOYMENT_ID}/scale" \
+  -H "X-API-Key: ${API_KEY}" \
+  -H "Content-Type: application/json" \
+  -d "{\"replicas\": ${REPLICAS}}" | python3 -m json.tool
+
+echo ""
+echo "=== Tasks ==="
+sleep 5
+curl -s "http://localhost:3030/deployments/${DEPLOYMENT_ID}/tasks" \
+  -H "X-API-Key: ${API_KEY}" | python3 -m json.tool
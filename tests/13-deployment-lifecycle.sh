@@ -0,0 +1,44 @@
+#!/bin/bash
+# Stop, start or restart a deployment and poll its status until it settles
+
+# Load API key from .env file
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+[ -f "${SCRIPT_DIR}/.env" ] && source "${SCRIPT_DIR}/.env"
+
+# Check if API key is set
+if [ -z "$API_KEY" ]; then
+  echo "❌ Error: API_KEY not set"
+  echo "Create tests/.env file with your API key"
+  exit 1
+fi
+
+DEPLOYMENT_ID="${DEPLOYMENT_ID:-}"
+ACTION="${ACTION:-restart}"
+
+if [ -z "$DEPLOYMENT_ID" ]; then
+  echo "❌ Error: DEPLOYMENT_ID is required"
+  echo "Usage: DEPLOYMENT_ID=<deployment-id> [ACTION=stop|start|restart] ./13-deployment-lifecycle.sh"
+  exit 1
+fi
+
+echo "=== ${ACTION} deployment ${DEPLOYMENT_ID} ==="
+RESPONSE=$(curl -s -X POST "http://localhost:3030/deployments/${DEPLOYMENT_ID}/${ACTION}" \
+  -H "X-API-Key: ${API_KEY}")
+echo "$RESPONSE" | python3 -m json.tool
+
+JOB_ID=$(echo "$RESPONSE" | python3 -c "import sys, json; print(json.load(sys.stdin).get('jobId', ''))")
+if [ -z "$JOB_ID" ]; then
+  exit 1
+fi
+
+echo ""
+echo "=== Status ==="
+for i in $(seq 1 30); do
+  STATUS=$(curl -s "http://localhost:3030/deployments/job/${JOB_ID}" \
+    -H "X-API-Key: ${API_KEY}" | python3 -c "import sys, json; print(json.load(sys.stdin).get('status', ''))")
+  echo "${STATUS}"
+  case "$STATUS" in
+    RUNNING|STOPPED|FAILED) exit 0 ;;
+  esac
+  sleep 2
+done
@@ -0,0 +1,42 @@
+#!/bin/bash
+# Clone an environment with its secrets and deployments, then list the clones
+
+# Load API key from .env file
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+[ -f "${SCRIPT_DIR}/.env" ] && source "${SCRIPT_DIR}/.env"
+
+# Check if API key is set
+if [ -z "$API_KEY" ]; then
+  echo "❌ Error: API_KEY not set"
+  echo "Create tests/.env file with your API key"
+  exit 1
+fi
+
+ENV_ID="${ENV_ID:-}"
+CLONE_NAME="${CLONE_NAME:-test-env-clone}"
+COPY_VOLUMES="${COPY_VOLUMES:-false}"
+VIRTUAL_HOST_PATTERN="${VIRTUAL_HOST_PATTERN:-{subdomain\}-{env\}.{domain\}}"
+
+if [ -z "$ENV_ID" ]; then
+  echo "❌ Error: ENV_ID is required"
+  echo "Usage: ENV_ID=<env-id> [CLONE_NAME=name] [COPY_VOLUMES=true] [VIRTUAL_HOST_PATTERN=pattern] ./14-clone-environment.sh"
+  exit 1
+fi
+
+echo "=== Cloning environment ${ENV_ID} into ${CLONE_NAME} ==="
+RESPONSE=$(curl -s -X POST "http://localhost:3030/environments/${ENV_ID}/clone" \
+  -H "X-API-Key: ${API_KEY}" \
+  -H "Content-Type: application/json" \
+  -d "{\"name\": \"${CLONE_NAME}\", \"copyVolumes\": ${COPY_VOLUMES}, \"virtualHostPattern\": \"${VIRTUAL_HOST_PATTERN}\"}")
+echo "$RESPONSE" | python3 -m json.tool
+
+CLONE_ID=$(echo "$RESPONSE" | python3 -c "import sys, json; print(json.load(sys.stdin).get('environment', {}).get('id', ''))")
+if [ -z "$CLONE_ID" ]; then
+  exit 1
+fi
+
+echo ""
+echo "=== Waiting for the cloned deployments ==="
+sleep 15
+curl -s "http://localhost:3030/deployments/environment/${CLONE_ID}" \
+  -H "X-API-Key: ${API_KEY}" | python3 -m json.tool
@@ -0,0 +1,44 @@
+#!/bin/bash
+# Plan a manifest against an environment, then apply the reviewed plan
+
+# Load API key from .env file
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+[ -f "${SCRIPT_DIR}/.env" ] && source "${SCRIPT_DIR}/.env"
+
+# Check if API key is set
+if [ -z "$API_KEY" ]; then
+  echo "❌ Error: API_KEY not set"
+  echo "Create tests/.env file with your API key"
+  exit 1
+fi
+
+ENV_ID="${ENV_ID:-}"
+MANIFEST="${MANIFEST:-}"
+
+if [ -z "$ENV_ID" ] || [ -z "$MANIFEST" ]; then
+  echo "❌ Error: ENV_ID and MANIFEST are required"
+  echo "Usage: ENV_ID=<env-id> MANIFEST=<path to yaml or json> [APPLY=true] ./15-apply-manifest.sh"
+  exit 1
+fi
+
+BODY=$(python3 -c "import sys, json; print(json.dumps({'manifest': open(sys.argv[1]).read()}))" "$MANIFEST")
+
+echo "=== Plan ==="
+PLAN=$(curl -s -X POST "http://localhost:3030/environments/${ENV_ID}/plan" \
+  -H "X-API-Key: ${API_KEY}" \
+  -H "Content-Type: application/json" \
+  -d "$BODY")
+echo "$PLAN" | python3 -m json.tool
+
+FINGERPRINT=$(echo "$PLAN" | python3 -c "import sys, json; print(json.load(sys.stdin).get('fingerprint', ''))")
+if [ -z "$FINGERPRINT" ] || [ "$APPLY" != "true" ]; then
+  exit 0
+fi
+
+echo ""
+echo "=== Apply ${FINGERPRINT} ==="
+BODY=$(echo "$BODY" | python3 -c "import sys, json; body = json.load(sys.stdin); body['fingerprint'] = sys.argv[1]; print(json.dumps(body))" "$FINGERPRINT")
+curl -s -X POST "http://localhost:3030/environments/${ENV_ID}/apply" \
+  -H "X-API-Key: ${API_KEY}" \
+  -H "Content-Type: application/json" \
+  -d "$BODY" | python3 -m json.tool
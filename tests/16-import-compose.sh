@@ -0,0 +1,30 @@
+#!/bin/bash
+# Import the services of a docker-compose file as deployments
+
+# Load API key from .env file
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+[ -f "${SCRIPT_DIR}/.env" ] && source "${SCRIPT_DIR}/.env"
+
+# Check if API key is set
+if [ -z "$API_KEY" ]; then
+  echo "❌ Error: API_KEY not set"
+  echo "Create tests/.env file with your API key"
+  exit 1
+fi
+
+ENV_ID="${ENV_ID:-}"
+COMPOSE="${COMPOSE:-}"
+DRY_RUN="${DRY_RUN:-false}"
+
+if [ -z "$ENV_ID" ] || [ -z "$COMPOSE" ]; then
+  echo "❌ Error: ENV_ID and COMPOSE are required"
+  echo "Usage: ENV_ID=<env-id> COMPOSE=<path to docker-compose.yml> [DRY_RUN=true] ./16-import-compose.sh"
+  exit 1
+fi
+
+BODY=$(python3 -c "import sys, json; print(json.dumps({'compose': open(sys.argv[1]).read(), 'dryRun': sys.argv[2] == 'true'}))" "$COMPOSE" "$DRY_RUN")
+
+curl -s -X POST "http://localhost:3030/environments/${ENV_ID}/compose" \
+  -H "X-API-Key: ${API_KEY}" \
+  -H "Content-Type: application/json" \
+  -d "$BODY" | python3 -m json.tool
@@ -14,6 +14,7 @@ fi
 
 DEPLOYMENT_ID="${DEPLOYMENT_ID:-}"
 TAIL="${TAIL:-100}"
+FOLLOW="${FOLLOW:-false}"
 
 if [ -z "$DEPLOYMENT_ID" ]; then
   echo "❌ Error: DEPLOYMENT_ID is required"
@@ -21,6 +22,15 @@ if [ -z "$DEPLOYMENT_ID" ]; then
   exit 1
 fi
 
+if [ "$FOLLOW" = "true" ]; then
+  echo "=== Following Logs (Ctrl+C to stop) ==="
+  echo ""
+
+  curl -sN "http://localhost:3030/deployments/${DEPLOYMENT_ID}/logs/stream?tail=${TAIL}" \
+    -H "X-API-Key: ${API_KEY}"
+  exit 0
+fi
+
 echo "=== Viewing Logs (last ${TAIL} lines) ==="
 echo ""
 
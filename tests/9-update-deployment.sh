@@ -0,0 +1,37 @@
+#!/bin/bash
+# Update a running deployment in place (new image tag / env vars)
+
+# Load API key from .env file
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+[ -f "${SCRIPT_DIR}/.env" ] && source "${SCRIPT_DIR}/.env"
+
+# Check if API key is set
+if [ -z "$API_KEY" ]; then
+  echo "❌ Error: API_KEY not set"
+  echo "Create tests/.env file with your API key"
+  exit 1
+fi
+
+DEPLOYMENT_ID="${DEPLOYMENT_ID:-}"
+TAG="${TAG:-stable-alpine}"
+
+if [ -z "$DEPLOYMENT_ID" ]; then
+  echo "❌ Error: DEPLOYMENT_ID is required"
+  echo "Usage: DEPLOYMENT_ID=<deployment-id> ./9-update-deployment.sh"
+  exit 1
+fi
+
+echo "=== Updating deployment ${DEPLOYMENT_ID} to tag ${TAG} ==="
+curl -s -X PATCH "http://localhost:3030/deployments/${DEPLOYMENT_ID}" \
+  -H "X-API-Key: ${API_KEY}" \
+  -H "Content-Type: application/json" \
+  -d "{
+    \"tag\": \"${TAG}\",
+    \"envVars\": {\"DEPLOYED_BY\": \"test-script\", \"UPDATED\": \"true\"}
+  }" | python3 -m json.tool
+
+echo ""
+echo "=== Version History ==="
+sleep 3
+curl -s "http://localhost:3030/deployments/${DEPLOYMENT_ID}/versions" \
+  -H "X-API-Key: ${API_KEY}" | python3 -m json.tool